@@ -0,0 +1,224 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import BulkRunControls, { BulkStatusBadge } from "./BulkRunControls";
+import {
+  buildGeocodeParams,
+  bulkGeocodeFields,
+  guessColumnMapping,
+  toBulkGeocodeRow,
+  toGeocodeCsv,
+  toGeocodeGeoJson,
+  type BulkGeocodeRow,
+  type ColumnMapping,
+} from "../lib/bulk/geocode";
+import { downloadFile, exportFileName, readTableFile, type BulkTable } from "../lib/bulk/table";
+import { useBulkJob } from "../lib/bulk/useBulkJob";
+import type { ApiResponse, BulkPoint, RequestShape } from "../lib/types";
+
+const PREVIEW_ROWS = 100;
+
+type Props = {
+  toRequest: (path: string, params: Record<string, string>) => RequestShape;
+  runBatch: (requests: RequestShape[]) => Promise<ApiResponse[]>;
+  onPointsChange: (points: BulkPoint[]) => void;
+};
+
+export default function BulkGeocode({ toRequest, runBatch, onPointsChange }: Props) {
+  const [table, setTable] = useState<BulkTable | null>(null);
+  const [fileError, setFileError] = useState("");
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const job = useBulkJob<BulkGeocodeRow>();
+  const { results } = job;
+
+  const points = useMemo<BulkPoint[]>(
+    () =>
+      results.flatMap((result, index) =>
+        result?.match
+          ? [
+              {
+                lat: result.match.lat,
+                lon: result.match.lon,
+                label: result.match.formattedAddress || `Row ${index + 1}`,
+              },
+            ]
+          : []
+      ),
+    [results]
+  );
+
+  useEffect(() => {
+    onPointsChange(points);
+  }, [onPointsChange, points]);
+
+  const hasMapping = Object.values(mapping).some((value) => value !== undefined);
+
+  const handleFile = async (file: File | null) => {
+    job.reset();
+    setFileError("");
+    if (!file) {
+      setTable(null);
+      return;
+    }
+    try {
+      const next = await readTableFile(file);
+      setTable(next);
+      setMapping(guessColumnMapping(next.headers));
+    } catch (error) {
+      setTable(null);
+      setFileError(error instanceof Error ? error.message : "The file could not be read.");
+    }
+  };
+
+  const updateMapping = (field: keyof ColumnMapping, value: string) => {
+    setMapping((prev) => ({ ...prev, [field]: value === "" ? undefined : Number(value) }));
+  };
+
+  const run = (statuses: BulkGeocodeRow["status"][]) => {
+    if (!table) return;
+    job.start({
+      rowCount: table.rows.length,
+      statuses,
+      validate: (index) =>
+        Object.keys(buildGeocodeParams(table.rows[index], mapping)).length === 0
+          ? "No address values in mapped columns."
+          : null,
+      buildRequest: (index) =>
+        toRequest("geocode", {
+          "api-version": "2025-01-01",
+          top: "1",
+          ...buildGeocodeParams(table.rows[index], mapping),
+        }),
+      runBatch,
+      toResult: toBulkGeocodeRow,
+    });
+  };
+
+  const exportResults = (format: "csv" | "geojson") => {
+    if (!table) return;
+    if (format === "csv") {
+      downloadFile(
+        exportFileName(table.fileName, "geocoded", "csv"),
+        toGeocodeCsv(table, results),
+        "text/csv"
+      );
+    } else {
+      downloadFile(
+        exportFileName(table.fileName, "geocoded", "geojson"),
+        toGeocodeGeoJson(table, results),
+        "application/geo+json"
+      );
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-4 rounded-2xl border border-slate-200/70 bg-white/80 p-4 shadow-inner">
+      <div className="flex flex-col gap-1">
+        <span className="text-xs font-semibold text-slate-500">Bulk Geocode</span>
+        <input
+          type="file"
+          accept=".csv,.tsv,.txt,.xlsx,text/csv"
+          className="rounded-xl border border-slate-200/70 bg-white px-3 py-2 text-sm text-slate-700 shadow-sm"
+          onChange={(event) => handleFile(event.target.files?.[0] ?? null)}
+        />
+        <span className="text-[11px] text-slate-400">
+          CSV or Excel (.xlsx, first sheet). The first row holds the column names.
+        </span>
+        {fileError && <span className="text-[11px] text-rose-500">{fileError}</span>}
+      </div>
+
+      {table && (
+        <>
+          <div className="flex flex-col gap-2">
+            <span className="text-xs font-semibold text-slate-500">
+              Column mapping · {table.rows.length} rows in {table.fileName}
+            </span>
+            <div className="grid gap-2 sm:grid-cols-2">
+              {bulkGeocodeFields.map((field) => (
+                <label
+                  key={field.key}
+                  className="flex items-center justify-between gap-2 rounded-xl border border-slate-200/70 bg-white px-3 py-2 text-xs text-slate-600"
+                >
+                  <span>
+                    <span className="font-semibold text-slate-700">{field.key}</span>
+                    <span className="block text-[11px] text-slate-400">{field.label}</span>
+                  </span>
+                  <select
+                    className="max-w-[160px] rounded-lg border border-slate-200/70 bg-white px-2 py-1 text-xs text-slate-700"
+                    value={mapping[field.key] ?? ""}
+                    disabled={job.running}
+                    onChange={(event) => updateMapping(field.key, event.target.value)}
+                  >
+                    <option value="">—</option>
+                    {table.headers.map((header, index) => (
+                      <option key={`${header}-${index}`} value={index}>
+                        {header}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <BulkRunControls
+            runLabel="Geocode rows"
+            progressLabel="Geocoding"
+            canRun={hasMapping}
+            counts={job.countStatuses(table.rows.length)}
+            running={job.running}
+            total={job.total}
+            completed={job.completed}
+            message={job.message}
+            settings={job.settings}
+            onRun={() => run(["pending"])}
+            onRetryFailed={() => run(["failed"])}
+            onStop={job.stop}
+            onExport={exportResults}
+          />
+
+          <div className="max-h-72 overflow-auto rounded-xl border border-slate-200/70">
+            <table className="w-full text-left text-[11px] text-slate-600">
+              <thead className="sticky top-0 bg-slate-50 text-slate-500">
+                <tr>
+                  <th className="px-2 py-1">#</th>
+                  <th className="px-2 py-1">Input</th>
+                  <th className="px-2 py-1">Status</th>
+                  <th className="px-2 py-1">Match</th>
+                </tr>
+              </thead>
+              <tbody>
+                {table.rows.slice(0, PREVIEW_ROWS).map((row, index) => {
+                  const result = results[index];
+                  return (
+                    <tr key={index} className="border-t border-slate-100 align-top">
+                      <td className="px-2 py-1 text-slate-400">{index + 1}</td>
+                      <td className="px-2 py-1">
+                        {Object.values(buildGeocodeParams(row, mapping)).join(", ") || "—"}
+                      </td>
+                      <td className="px-2 py-1">
+                        <BulkStatusBadge status={result?.status ?? "pending"} />
+                      </td>
+                      <td className="px-2 py-1">
+                        {result?.match
+                          ? `${result.match.lat.toFixed(5)}, ${result.match.lon.toFixed(5)} · ${
+                              result.match.confidence || "—"
+                            }${result.match.matchCodes.length ? ` · ${result.match.matchCodes.join(", ")}` : ""}`
+                          : result?.error ?? ""}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            {table.rows.length > PREVIEW_ROWS && (
+              <div className="border-t border-slate-100 px-2 py-1 text-[11px] text-slate-400">
+                Showing the first {PREVIEW_ROWS} rows; exports include all {table.rows.length}.
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
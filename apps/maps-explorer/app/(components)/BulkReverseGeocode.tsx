@@ -0,0 +1,249 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import BulkRunControls, { BulkStatusBadge } from "./BulkRunControls";
+import {
+  guessCoordinateColumns,
+  readRowCoordinate,
+  toBulkReverseRow,
+  toReverseCsv,
+  toReverseGeoJson,
+  type BulkReverseRow,
+  type CoordinateColumns,
+} from "../lib/bulk/reverse";
+import { downloadFile, exportFileName, readTableFile, type BulkTable } from "../lib/bulk/table";
+import { useBulkJob } from "../lib/bulk/useBulkJob";
+import type { ApiResponse, BulkPoint, RequestShape } from "../lib/types";
+
+const PREVIEW_ROWS = 100;
+
+const coordinateFields = [
+  { key: "lat", label: "Latitude" },
+  { key: "lon", label: "Longitude" },
+] as const;
+
+type Props = {
+  // Enabled reverse geocode params applied to every row (coordinates come from the file).
+  params: Record<string, string>;
+  toRequest: (path: string, params: Record<string, string>) => RequestShape;
+  runBatch: (requests: RequestShape[]) => Promise<ApiResponse[]>;
+  onPointsChange: (points: BulkPoint[]) => void;
+};
+
+export default function BulkReverseGeocode({ params, toRequest, runBatch, onPointsChange }: Props) {
+  const [table, setTable] = useState<BulkTable | null>(null);
+  const [fileError, setFileError] = useState("");
+  const [columns, setColumns] = useState<CoordinateColumns>({});
+  const job = useBulkJob<BulkReverseRow>();
+  const { results } = job;
+
+  const invalidCount = useMemo(
+    () =>
+      table?.rows.filter((row) => "error" in readRowCoordinate(row, columns)).length ?? 0,
+    [columns, table]
+  );
+
+  const points = useMemo<BulkPoint[]>(
+    () =>
+      results.flatMap((result, index) =>
+        result?.match
+          ? [
+              {
+                lat: result.match.lat,
+                lon: result.match.lon,
+                label: result.match.formattedAddress || `Row ${index + 1}`,
+              },
+            ]
+          : []
+      ),
+    [results]
+  );
+
+  useEffect(() => {
+    onPointsChange(points);
+  }, [onPointsChange, points]);
+
+  const handleFile = async (file: File | null) => {
+    job.reset();
+    setFileError("");
+    if (!file) {
+      setTable(null);
+      return;
+    }
+    try {
+      const next = await readTableFile(file);
+      setTable(next);
+      setColumns(guessCoordinateColumns(next.headers));
+    } catch (error) {
+      setTable(null);
+      setFileError(error instanceof Error ? error.message : "The file could not be read.");
+    }
+  };
+
+  const run = (statuses: BulkReverseRow["status"][]) => {
+    if (!table) return;
+    const coordinateAt = (index: number) => {
+      const coordinate = readRowCoordinate(table.rows[index], columns);
+      return "error" in coordinate ? null : coordinate;
+    };
+    job.start({
+      rowCount: table.rows.length,
+      statuses,
+      validate: (index) => {
+        const coordinate = readRowCoordinate(table.rows[index], columns);
+        return "error" in coordinate ? coordinate.error : null;
+      },
+      buildRequest: (index) => {
+        const coordinate = coordinateAt(index);
+        return toRequest("reverseGeocode", {
+          "api-version": "2025-01-01",
+          ...params,
+          coordinates: coordinate ? `${coordinate.lon},${coordinate.lat}` : "",
+        });
+      },
+      runBatch,
+      toResult: (response, index) =>
+        toBulkReverseRow(response, coordinateAt(index) ?? { lat: 0, lon: 0 }),
+    });
+  };
+
+  const exportResults = (format: "csv" | "geojson") => {
+    if (!table) return;
+    const resultTypes = params.resultTypes ?? "";
+    if (format === "csv") {
+      downloadFile(
+        exportFileName(table.fileName, "addresses", "csv"),
+        toReverseCsv(table, results, resultTypes),
+        "text/csv"
+      );
+    } else {
+      downloadFile(
+        exportFileName(table.fileName, "addresses", "geojson"),
+        toReverseGeoJson(table, results, resultTypes),
+        "application/geo+json"
+      );
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-4 rounded-2xl border border-slate-200/70 bg-white/80 p-4 shadow-inner">
+      <div className="flex flex-col gap-1">
+        <span className="text-xs font-semibold text-slate-500">Bulk Reverse Geocode</span>
+        <input
+          type="file"
+          accept=".csv,.tsv,.txt,.xlsx,.geojson,.json,text/csv,application/geo+json"
+          className="rounded-xl border border-slate-200/70 bg-white px-3 py-2 text-sm text-slate-700 shadow-sm"
+          onChange={(event) => handleFile(event.target.files?.[0] ?? null)}
+        />
+        <span className="text-[11px] text-slate-400">
+          CSV/Excel with latitude and longitude columns, or GeoJSON Point features. Query
+          Parameters below (resultTypes, view) apply to every point.
+        </span>
+        {fileError && <span className="text-[11px] text-rose-500">{fileError}</span>}
+      </div>
+
+      {table && (
+        <>
+          <div className="flex flex-col gap-2">
+            <span className="text-xs font-semibold text-slate-500">
+              Coordinate columns · {table.rows.length} points in {table.fileName}
+            </span>
+            <div className="grid gap-2 sm:grid-cols-2">
+              {coordinateFields.map((field) => (
+                <label
+                  key={field.key}
+                  className="flex items-center justify-between gap-2 rounded-xl border border-slate-200/70 bg-white px-3 py-2 text-xs text-slate-600"
+                >
+                  <span className="font-semibold text-slate-700">{field.label}</span>
+                  <select
+                    className="max-w-[160px] rounded-lg border border-slate-200/70 bg-white px-2 py-1 text-xs text-slate-700"
+                    value={columns[field.key] ?? ""}
+                    disabled={job.running}
+                    onChange={(event) =>
+                      setColumns((prev) => ({
+                        ...prev,
+                        [field.key]: event.target.value === "" ? undefined : Number(event.target.value),
+                      }))
+                    }
+                  >
+                    <option value="">—</option>
+                    {table.headers.map((header, index) => (
+                      <option key={`${header}-${index}`} value={index}>
+                        {header}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+            {invalidCount > 0 && (
+              <span className="text-[11px] text-amber-600">
+                {invalidCount} rows have a missing or out-of-range coordinate and will be marked
+                failed without a request.
+              </span>
+            )}
+          </div>
+
+          <BulkRunControls
+            runLabel="Reverse geocode points"
+            progressLabel="Reverse geocoding"
+            canRun={columns.lat !== undefined && columns.lon !== undefined}
+            counts={job.countStatuses(table.rows.length)}
+            running={job.running}
+            total={job.total}
+            completed={job.completed}
+            message={job.message}
+            settings={job.settings}
+            onRun={() => run(["pending"])}
+            onRetryFailed={() => run(["failed"])}
+            onStop={job.stop}
+            onExport={exportResults}
+          />
+
+          <div className="max-h-72 overflow-auto rounded-xl border border-slate-200/70">
+            <table className="w-full text-left text-[11px] text-slate-600">
+              <thead className="sticky top-0 bg-slate-50 text-slate-500">
+                <tr>
+                  <th className="px-2 py-1">#</th>
+                  <th className="px-2 py-1">Point</th>
+                  <th className="px-2 py-1">Status</th>
+                  <th className="px-2 py-1">Address</th>
+                </tr>
+              </thead>
+              <tbody>
+                {table.rows.slice(0, PREVIEW_ROWS).map((row, index) => {
+                  const result = results[index];
+                  return (
+                    <tr key={index} className="border-t border-slate-100 align-top">
+                      <td className="px-2 py-1 text-slate-400">{index + 1}</td>
+                      <td className="px-2 py-1">
+                        {columns.lat === undefined || columns.lon === undefined
+                          ? "—"
+                          : `${row[columns.lat]}, ${row[columns.lon]}`}
+                      </td>
+                      <td className="px-2 py-1">
+                        <BulkStatusBadge status={result?.status ?? "pending"} />
+                      </td>
+                      <td className="px-2 py-1">
+                        {result?.match
+                          ? `${result.match.formattedAddress || "—"}${
+                              result.match.resultType ? ` · ${result.match.resultType}` : ""
+                            }`
+                          : result?.error ?? ""}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            {table.rows.length > PREVIEW_ROWS && (
+              <div className="border-t border-slate-100 px-2 py-1 text-[11px] text-slate-400">
+                Showing the first {PREVIEW_ROWS} rows; exports include all {table.rows.length}.
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+"use client";
+
+import type { BulkRowStatus } from "../lib/bulk/runner";
+import type { BulkRunSettings } from "../lib/bulk/useBulkJob";
+
+const CHUNK_SIZES = [5, 10, 25];
+const DELAYS_MS = [0, 250, 500, 1000, 2000];
+
+const statusTone: Record<BulkRowStatus, string> = {
+  pending: "bg-slate-100 text-slate-500",
+  matched: "bg-emerald-100 text-emerald-700",
+  no_match: "bg-amber-100 text-amber-700",
+  failed: "bg-rose-100 text-rose-600",
+};
+
+export function BulkStatusBadge({ status }: { status: BulkRowStatus }) {
+  return (
+    <span className={`rounded-full px-2 py-0.5 font-semibold ${statusTone[status]}`}>
+      {status.replace("_", " ")}
+    </span>
+  );
+}
+
+type Props = {
+  runLabel: string;
+  progressLabel: string;
+  canRun: boolean;
+  counts: Record<BulkRowStatus, number>;
+  running: boolean;
+  total: number;
+  completed: number;
+  message: string;
+  settings: BulkRunSettings;
+  onRun: () => void;
+  onRetryFailed: () => void;
+  onStop: () => void;
+  onExport: (format: "csv" | "geojson") => void;
+};
+
+export default function BulkRunControls({
+  runLabel,
+  progressLabel,
+  canRun,
+  counts,
+  running,
+  total,
+  completed,
+  message,
+  settings,
+  onRun,
+  onRetryFailed,
+  onStop,
+  onExport,
+}: Props) {
+  const processed = counts.matched + counts.no_match + counts.failed;
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          type="button"
+          onClick={onRun}
+          disabled={!canRun || running || counts.pending === 0}
+          className="rounded-2xl bg-slate-900 px-5 py-2 text-xs font-semibold text-white shadow-sm transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          {processed > 0 && counts.pending > 0 ? "Resume" : runLabel}
+        </button>
+        {running ? (
+          <button
+            type="button"
+            onClick={onStop}
+            className="rounded-full border border-slate-200 bg-white px-3 py-1 text-xs font-semibold text-slate-600"
+          >
+            Stop
+          </button>
+        ) : (
+          counts.failed > 0 && (
+            <button
+              type="button"
+              onClick={onRetryFailed}
+              className="rounded-full border border-rose-200 bg-rose-50 px-3 py-1 text-xs font-semibold text-rose-600"
+            >
+              Retry {counts.failed} failed
+            </button>
+          )
+        )}
+        <div className="flex items-center gap-2">
+          <span className="text-[11px] text-slate-500">Rows per batch</span>
+          <select
+            className="rounded-lg border border-slate-200/70 bg-white px-2 py-1 text-xs text-slate-700"
+            value={settings.chunkSize}
+            disabled={running}
+            onChange={(event) => settings.setChunkSize(Number(event.target.value))}
+          >
+            {CHUNK_SIZES.map((size) => (
+              <option key={size} value={size}>
+                {size}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-[11px] text-slate-500">Pause</span>
+          <select
+            className="rounded-lg border border-slate-200/70 bg-white px-2 py-1 text-xs text-slate-700"
+            value={settings.delayMs}
+            disabled={running}
+            onChange={(event) => settings.setDelayMs(Number(event.target.value))}
+          >
+            {DELAYS_MS.map((delay) => (
+              <option key={delay} value={delay}>
+                {delay}ms
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {running && (
+        <div className="flex flex-col gap-1">
+          <span className="text-[11px] font-semibold text-slate-500">
+            {progressLabel} {completed} of {total}…
+          </span>
+          <div className="h-1 overflow-hidden rounded-full bg-slate-200">
+            <div
+              className="h-full bg-slate-900 transition-all"
+              style={{ width: `${total ? (completed / total) * 100 : 0}%` }}
+            />
+          </div>
+        </div>
+      )}
+      {message && (
+        <div className="rounded-xl border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-700">
+          {message}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-3 text-[11px] text-slate-500">
+        <span>
+          {counts.matched} matched · {counts.no_match} no match · {counts.failed} failed ·{" "}
+          {counts.pending} pending
+        </span>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => onExport("csv")}
+            disabled={processed === 0}
+            className="rounded-full border border-slate-200 bg-white px-3 py-1 text-xs font-semibold text-slate-600 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            Export CSV
+          </button>
+          <button
+            type="button"
+            onClick={() => onExport("geojson")}
+            disabled={counts.matched === 0}
+            className="rounded-full border border-slate-200 bg-white px-3 py-1 text-xs font-semibold text-slate-600 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            Export GeoJSON
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -4,11 +4,23 @@ import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import Link from "next/link";
 import ResultTabs from "./ResultTabs";
 import History from "./History";
+import ImportRequest from "./ImportRequest";
 import MapPreview from "./MapPreview";
-import type { ApiResponse, HistoryEntry, Param, RequestShape } from "../lib/types";
+import BulkGeocode from "./BulkGeocode";
+import BulkReverseGeocode from "./BulkReverseGeocode";
+import type {
+  ApiResponse,
+  BatchRequest,
+  BatchResponse,
+  BudgetSnapshot,
+  BulkPoint,
+  Param,
+  RequestShape,
+} from "../lib/types";
 import { certifiedLocations } from "../lib/certifiedLocations";
 import {
   buildQueryString,
+  getEndpointFamily,
   hasLatLonParam,
   isBaseUrlSafe,
   isPathSafe,
@@ -16,15 +28,33 @@ import {
   normalizePath,
   paramsToRecord,
 } from "../lib/validation";
-import { buildCurl } from "../lib/buildCurl";
+import { buildCurl, curlShells, type CurlShell } from "../lib/buildCurl";
+import { buildSnippet, snippetLanguages, type SnippetLanguage } from "../lib/snippets";
+import type { ImportedRequest } from "../lib/importRequest";
+import { readProxyResponse, type ProxyProgress } from "../lib/proxyResponse";
+import { toApiResponse } from "../lib/history/entries";
+import { useHistory } from "../lib/history/useHistory";
+import {
+  DEFAULT_MOCK_LATENCY_MS,
+  MAX_MOCK_LATENCY_MS,
+  isDelayedScenario,
+  mockEndpoint,
+  mockScenarios,
+  type MockScenario,
+} from "../lib/mock/scenarios";
 
-const HISTORY_KEY = "maps-explorer-history";
 const DEFAULT_BASE_URL =
   process.env.NEXT_PUBLIC_AZURE_MAPS_BASE_URL ?? "https://atlas.microsoft.com";
 const CONNECTION_KEY = "maps-explorer-connection";
 const API_KEY_SESSION = "maps-explorer-api-key";
 const TAB_STATE_KEY = "maps-explorer-tab-state";
 
+// The proxy tags metrics with the active preset.
+const proxyHeaders = (preset: string) => ({
+  "Content-Type": "application/json",
+  "x-maps-preset": preset,
+});
+
 const presets = [
   {
     id: "geocode",
@@ -80,6 +110,15 @@ const presets = [
       { key: "limit", value: "1" },
     ] as Param[],
   },
+  {
+    id: "bulk-geocode",
+    label: "Bulk Geocode (geocode)",
+    path: "geocode",
+    params: [
+      { key: "api-version", value: "2025-01-01" },
+      { key: "top", value: "1" },
+    ] as Param[],
+  },
   {
     id: "reverse",
     label: "Reverse Geocode (reverseGeocode)",
@@ -91,6 +130,16 @@ const presets = [
       { key: "view", value: "auto" },
     ] as Param[],
   },
+  {
+    id: "bulk-reverse",
+    label: "Bulk Reverse Geocode (reverseGeocode)",
+    path: "reverseGeocode",
+    params: [
+      { key: "api-version", value: "2025-01-01" },
+      { key: "resultTypes", value: "Address" },
+      { key: "view", value: "auto" },
+    ] as Param[],
+  },
   {
     id: "autocomplete",
     label: "Autocomplete (geocode:autocomplete)",
@@ -133,6 +182,28 @@ const presets = [
   },
 ];
 
+// Enables the checklist entries present in `values` and adds the rest as custom params.
+const fillCheckboxParams = (current: CheckboxParam[], values: Record<string, string>) => {
+  const known = current
+    .filter((item) => !item.isCustom)
+    .map((item) => ({
+      ...item,
+      value: values[item.key] ?? item.value,
+      enabled: item.key in values,
+    }));
+  const custom = Object.entries(values)
+    .filter(([key]) => !known.some((item) => item.key === key))
+    .map(([key, value]) => ({
+      id: `custom-${Date.now()}-${key}`,
+      key,
+      description: "Custom",
+      value,
+      enabled: true,
+      isCustom: true,
+    }));
+  return [...custom, ...known];
+};
+
 const quickParams = [
   { key: "api-version", value: "2025-06-01-preview" },
   { key: "language", value: "en-US" },
@@ -143,17 +214,6 @@ const quickParams = [
   { key: "radius", value: "50" },
 ];
 
-const toHistoryEntry = (
-  request: RequestShape,
-  response: ApiResponse
-): HistoryEntry => ({
-  id: `${Date.now()}-${Math.random().toString(16).slice(2)}`,
-  request,
-  timestamp: Date.now(),
-  status: response.meta.status,
-  durationMs: response.meta.durationMs,
-});
-
 type CheckboxParam = {
   id: string;
   key: string;
@@ -236,12 +296,26 @@ export default function EndpointForm() {
   const [path, setPath] = useState(presets[0].path);
   const [params, setParams] = useState<Param[]>(presets[0].params);
   const [selectedPreset, setSelectedPreset] = useState(presets[0].id);
+  const presetRef = useRef(selectedPreset);
   const [response, setResponse] = useState<ApiResponse | null>(null);
   const [mapResponse, setMapResponse] = useState<ApiResponse | null>(null);
   const [autocompleteResponse, setAutocompleteResponse] = useState<ApiResponse | null>(null);
-  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const history = useHistory();
   const [isLoading, setIsLoading] = useState(false);
+  const [progress, setProgress] = useState<ProxyProgress | null>(null);
+  const requestAbortRef = useRef<AbortController | null>(null);
   const [mockMode, setMockMode] = useState(false);
+  const [mockScenario, setMockScenario] = useState<MockScenario>("none");
+  const [mockLatencyMs, setMockLatencyMs] = useState(DEFAULT_MOCK_LATENCY_MS);
+  const mockUrl = mockEndpoint(mockScenario, mockLatencyMs);
+  const [retryEnabled, setRetryEnabled] = useState(false);
+  const [bypassCache, setBypassCache] = useState(false);
+  const [diagnosticsEnabled, setDiagnosticsEnabled] = useState(false);
+  const [snippetLanguage, setSnippetLanguage] = useState<SnippetLanguage>("fetch");
+  const [curlShell, setCurlShell] = useState<CurlShell>("bash");
+  const [curlMultiline, setCurlMultiline] = useState(false);
+  const [curlIncludeKey, setCurlIncludeKey] = useState(false);
+  const [budget, setBudget] = useState<BudgetSnapshot | null>(null);
   const [credentialMissing, setCredentialMissing] = useState(false);
   const [baseUrl, setBaseUrl] = useState(DEFAULT_BASE_URL);
   const [authMode, setAuthMode] = useState<"entra" | "key">("entra");
@@ -302,6 +376,7 @@ export default function EndpointForm() {
   >([]);
   const [certifiedLoading, setCertifiedLoading] = useState(false);
   const [certifiedError, setCertifiedError] = useState("");
+  const [bulkPoints, setBulkPoints] = useState<BulkPoint[]>([]);
   const [mobileQuery, setMobileQuery] = useState("6301 Owensmouth Ave, Woodland Hills, CA 91367");
   const [mobileLimit, setMobileLimit] = useState("1");
 
@@ -406,14 +481,6 @@ export default function EndpointForm() {
   };
 
   useEffect(() => {
-    const stored = localStorage.getItem(HISTORY_KEY);
-    if (stored) {
-      try {
-        setHistory(JSON.parse(stored) as HistoryEntry[]);
-      } catch {
-        setHistory([]);
-      }
-    }
     const connectionStored = localStorage.getItem(CONNECTION_KEY);
     if (connectionStored) {
       try {
@@ -421,10 +488,12 @@ export default function EndpointForm() {
           baseUrl?: string;
           authMode?: "entra" | "key";
           clientId?: string;
+          retryEnabled?: boolean;
         };
         if (parsed.baseUrl) setBaseUrl(parsed.baseUrl);
         if (parsed.authMode) setAuthMode(parsed.authMode);
         if (parsed.clientId) setClientId(parsed.clientId);
+        if (typeof parsed.retryEnabled === "boolean") setRetryEnabled(parsed.retryEnabled);
       } catch {
         // ignore
       }
@@ -541,16 +610,12 @@ export default function EndpointForm() {
     }
   }, []);
 
-  useEffect(() => {
-    localStorage.setItem(HISTORY_KEY, JSON.stringify(history.slice(0, 10)));
-  }, [history]);
-
   useEffect(() => {
     localStorage.setItem(
       CONNECTION_KEY,
-      JSON.stringify({ baseUrl, authMode, clientId })
+      JSON.stringify({ baseUrl, authMode, clientId, retryEnabled })
     );
-  }, [baseUrl, authMode, clientId]);
+  }, [baseUrl, authMode, clientId, retryEnabled]);
 
   useEffect(() => {
     localStorage.setItem(
@@ -630,7 +695,8 @@ export default function EndpointForm() {
       selectedPreset === "custom-marker" ||
       selectedPreset === "mobile-geocode" ||
       selectedPreset === "certified-locations" ||
-      selectedPreset === "reverse"
+      selectedPreset === "reverse" ||
+      selectedPreset === "bulk-reverse"
     ) {
       return;
     }
@@ -656,10 +722,38 @@ export default function EndpointForm() {
     setPathByPreset((prev) => ({ ...prev, reverse: path }));
   }, [path, selectedPreset]);
 
-  const recordHistory = useCallback((entry: HistoryEntry) => {
-    setHistory((prev) => [entry, ...prev].slice(0, 10));
+  useEffect(() => {
+    presetRef.current = selectedPreset;
+  }, [selectedPreset]);
+
+  const refreshBudget = useCallback(async () => {
+    try {
+      const res = await fetch("/api/maps/budget", { cache: "no-store" });
+      if (res.ok) setBudget((await res.json()) as BudgetSnapshot);
+    } catch {
+      // the indicator keeps its last known value
+    }
   }, []);
 
+  useEffect(() => {
+    refreshBudget();
+  }, [
+    refreshBudget,
+    response,
+    mapResponse,
+    autocompleteResponse,
+    weatherResponse,
+    geolocationResponse,
+    routeResponse,
+  ]);
+
+  const activeBudget = useMemo(
+    () => budget?.families.find((item) => item.family === getEndpointFamily(path)) ?? null,
+    [budget, path]
+  );
+
+  const recordHistory = history.record;
+
   const requestShape = useMemo<RequestShape>(
     () => ({
       path,
@@ -678,7 +772,7 @@ export default function EndpointForm() {
               { key: "limit", value: mobileLimit || "1" },
               { key: "countrySet", value: "US" },
             ]
-          : selectedPreset === "reverse"
+          : selectedPreset === "reverse" || selectedPreset === "bulk-reverse"
           ? reverseParams
               .filter((item) => item.enabled)
               .map((item) => ({ key: item.key, value: item.value }))
@@ -694,6 +788,9 @@ export default function EndpointForm() {
         authMode === "key"
           ? { apiKey }
           : { clientId: clientId || undefined },
+      retry: retryEnabled ? { maxAttempts: 3 } : undefined,
+      bypassCache: bypassCache || undefined,
+      diagnostics: diagnosticsEnabled || undefined,
     }),
     [
       apiKey,
@@ -701,6 +798,9 @@ export default function EndpointForm() {
       baseUrl,
       clientId,
       method,
+      retryEnabled,
+      bypassCache,
+      diagnosticsEnabled,
       params,
       path,
       selectedPreset,
@@ -724,6 +824,32 @@ export default function EndpointForm() {
     }`;
   }, [baseUrl, path, queryString]);
 
+  const curlOptions = useMemo(
+    () => ({
+      baseUrl,
+      shell: curlShell,
+      multiline: curlMultiline,
+      includeKey: authMode === "key" && curlIncludeKey,
+    }),
+    [authMode, baseUrl, curlIncludeKey, curlMultiline, curlShell]
+  );
+
+  const snippet = useMemo(
+    () => buildSnippet(snippetLanguage, requestShape, baseUrl),
+    [baseUrl, requestShape, snippetLanguage]
+  );
+
+  // Coordinates come from the uploaded file in bulk mode.
+  const bulkReverseParams = useMemo(
+    () =>
+      paramsToRecord(
+        reverseParams
+          .filter((item) => item.enabled && item.value.trim() && item.key !== "coordinates")
+          .map((item) => ({ key: item.key, value: item.value }))
+      ),
+    [reverseParams]
+  );
+
   const reverseMissing = useMemo(() => {
     if (!isReverseGeocodePath(path)) return false;
     return !hasLatLonParam(requestShape.params);
@@ -753,6 +879,25 @@ export default function EndpointForm() {
     setIsEditingPath(false);
   };
 
+  // Selects the preset whose path matches, like a history re-run, and fills its checklist.
+  const loadImportedRequest = (imported: ImportedRequest) => {
+    const { request } = imported;
+    const match = presets.find(
+      (preset) => preset.path.toLowerCase() === normalizePath(request.path).toLowerCase()
+    );
+    setSelectedPreset(match?.id ?? "custom");
+    setPath(request.path);
+    setMethod(request.method);
+    setParams(Object.entries(request.params).map(([key, value]) => ({ key, value })));
+    if (match?.id === "geocode") setGeocodeParams((prev) => fillCheckboxParams(prev, request.params));
+    if (match?.id === "reverse") setReverseParams((prev) => fillCheckboxParams(prev, request.params));
+    if (match?.id === "weather") setWeatherParams((prev) => fillCheckboxParams(prev, request.params));
+    if (request.baseUrl) setBaseUrl(request.baseUrl);
+    if (imported.auth === "key" || imported.auth === "entra") setAuthMode(imported.auth);
+    if (request.auth?.clientId) setClientId(request.auth.clientId);
+    setIsEditingPath(false);
+  };
+
   const updateParam = (index: number, key: string, value: string) => {
     setParams((prev) =>
       prev.map((item, idx) => (idx === index ? { key, value } : item))
@@ -852,20 +997,28 @@ export default function EndpointForm() {
 
   const runRequest = useCallback(async (request: RequestShape) => {
     if (!isPathSafe(request.path)) return null;
+    // Re-sending cancels the previous request; the proxy aborts its upstream call too.
+    requestAbortRef.current?.abort();
+    const controller = new AbortController();
+    requestAbortRef.current = controller;
     setIsLoading(true);
+    setProgress(null);
     setCredentialMissing(false);
     try {
-      const endpoint = mockMode ? "/api/mock" : "/api/maps";
+      const endpoint = mockMode ? mockUrl : "/api/maps";
+      const startedAt = Date.now();
       const res = await fetch(endpoint, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(request),
+        headers: proxyHeaders(presetRef.current),
+        body: JSON.stringify({ ...request, passthrough: true }),
+        signal: controller.signal,
       });
 
       let data: ApiResponse | null = null;
       try {
-        data = (await res.json()) as ApiResponse;
-      } catch {
+        data = await readProxyResponse(res, { startedAt, onProgress: setProgress });
+      } catch (error) {
+        if (controller.signal.aborted) throw error;
         data = {
           meta: {
             status: res.status,
@@ -886,26 +1039,39 @@ export default function EndpointForm() {
         setCredentialMissing(true);
       }
 
-      if (res.ok) {
-        const safeRequest: RequestShape = {
-          ...request,
-          auth: request.auth?.apiKey ? { clientId: request.auth.clientId } : request.auth,
-        };
-        recordHistory(toHistoryEntry(safeRequest, data));
-      }
+      // Failures are kept too, so they can be found by status later.
+      const safeRequest: RequestShape = {
+        ...request,
+        auth: request.auth?.apiKey ? { clientId: request.auth.clientId } : request.auth,
+      };
+      const usedKey =
+        Boolean(request.auth?.apiKey) || data.meta.authSource === "subscription-key";
+      recordHistory(safeRequest, data, {
+        authMode: usedKey ? "key" : "entra",
+        preset: presetRef.current,
+      });
       return data;
+    } catch (error) {
+      if (controller.signal.aborted) return null;
+      throw error;
     } finally {
-      setIsLoading(false);
+      if (requestAbortRef.current === controller) {
+        requestAbortRef.current = null;
+        setIsLoading(false);
+        setProgress(null);
+      }
     }
-  }, [mockMode, recordHistory]);
+  }, [mockMode, mockUrl, recordHistory]);
+
+  useEffect(() => () => requestAbortRef.current?.abort(), []);
 
   const runRequestForMap = useCallback(async (request: RequestShape) => {
     if (!isPathSafe(request.path)) return null;
     try {
-      const endpoint = mockMode ? "/api/mock" : "/api/maps";
+      const endpoint = mockMode ? mockUrl : "/api/maps";
       const res = await fetch(endpoint, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: proxyHeaders(presetRef.current),
         body: JSON.stringify(request),
       });
       const data = (await res.json()) as ApiResponse;
@@ -915,7 +1081,7 @@ export default function EndpointForm() {
     } catch {
       return null;
     }
-  }, [mockMode]);
+  }, [mockMode, mockUrl]);
 
   const parseAutocompleteResults = (body: unknown) => {
     if (!body) return [] as string[];
@@ -998,7 +1164,7 @@ export default function EndpointForm() {
       setWeatherLoading(true);
       setWeatherError("");
       try {
-        const endpoint = mockMode ? "/api/mock" : "/api/maps";
+        const endpoint = mockMode ? mockUrl : "/api/maps";
         const request: RequestShape = {
           path: "geocode:autocomplete",
           params: {
@@ -1016,7 +1182,7 @@ export default function EndpointForm() {
 
         const res = await fetch(endpoint, {
           method: "POST",
-          headers: { "Content-Type": "application/json" },
+          headers: proxyHeaders(presetRef.current),
           body: JSON.stringify(request),
         });
         const data = (await res.json()) as ApiResponse;
@@ -1045,12 +1211,12 @@ export default function EndpointForm() {
         setWeatherLoading(false);
       }
     },
-    [apiKey, authMode, baseUrl, clientId, mockMode]
+    [apiKey, authMode, baseUrl, clientId, mockMode, mockUrl]
   );
 
   const fetchWeatherRecords = useCallback(
     async (lat: number, lon: number) => {
-      const endpoint = mockMode ? "/api/mock" : "/api/maps";
+      const endpoint = mockMode ? mockUrl : "/api/maps";
       const updatedParams = weatherParams.map((item) => {
         if (item.key === "query") {
           return { ...item, value: `${lat},${lon}`, enabled: true };
@@ -1075,19 +1241,19 @@ export default function EndpointForm() {
 
       const res = await fetch(endpoint, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: proxyHeaders(presetRef.current),
         body: JSON.stringify(request),
       });
       const data = (await res.json()) as ApiResponse;
       setWeatherResponse(data);
       return data;
     },
-    [apiKey, authMode, baseUrl, clientId, mockMode, weatherParams]
+    [apiKey, authMode, baseUrl, clientId, mockMode, mockUrl, weatherParams]
   );
 
   const fetchGeolocation = useCallback(
     async (ip: string) => {
-      const endpoint = mockMode ? "/api/mock" : "/api/maps";
+      const endpoint = mockMode ? mockUrl : "/api/maps";
       const request: RequestShape = {
         path: "geolocation/ip/json",
         params: {
@@ -1101,7 +1267,7 @@ export default function EndpointForm() {
 
       const res = await fetch(endpoint, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: proxyHeaders(presetRef.current),
         body: JSON.stringify(request),
       });
       const data = (await res.json()) as ApiResponse;
@@ -1132,7 +1298,7 @@ export default function EndpointForm() {
       }
       return data;
     },
-    [apiKey, authMode, baseUrl, clientId, mockMode, runRequestForMap]
+    [apiKey, authMode, baseUrl, clientId, mockMode, mockUrl, runRequestForMap]
   );
 
   const fetchRouteAutocomplete = useCallback(
@@ -1152,7 +1318,7 @@ export default function EndpointForm() {
       setLoading(true);
       setError("");
       try {
-        const endpoint = mockMode ? "/api/mock" : "/api/maps";
+        const endpoint = mockMode ? mockUrl : "/api/maps";
         const request: RequestShape = {
           path: "geocode:autocomplete",
           params: {
@@ -1170,7 +1336,7 @@ export default function EndpointForm() {
 
         const res = await fetch(endpoint, {
           method: "POST",
-          headers: { "Content-Type": "application/json" },
+          headers: proxyHeaders(presetRef.current),
           body: JSON.stringify(request),
         });
         const data = (await res.json()) as ApiResponse;
@@ -1199,12 +1365,12 @@ export default function EndpointForm() {
         setLoading(false);
       }
     },
-    [apiKey, authMode, baseUrl, clientId, mockMode]
+    [apiKey, authMode, baseUrl, clientId, mockMode, mockUrl]
   );
 
   const fetchGeocodeCoordinate = useCallback(
     async (value: string) => {
-      const endpoint = mockMode ? "/api/mock" : "/api/maps";
+      const endpoint = mockMode ? mockUrl : "/api/maps";
       const request: RequestShape = {
         path: "geocode",
         params: {
@@ -1219,45 +1385,61 @@ export default function EndpointForm() {
 
       const res = await fetch(endpoint, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: proxyHeaders(presetRef.current),
         body: JSON.stringify(request),
       });
       const data = (await res.json()) as ApiResponse;
       return extractCoordinate(data.body);
     },
-    [apiKey, authMode, baseUrl, clientId, mockMode]
+    [apiKey, authMode, baseUrl, clientId, mockMode, mockUrl]
   );
 
-  const fetchGeocodeForAddress = useCallback(
-    async (address: string) => {
-      const endpoint = mockMode ? "/api/mock" : "/api/maps";
-      const request: RequestShape = {
-        path: "geocode",
-        params: {
-          "api-version": "2025-01-01",
-          query: address,
-          limit: "1",
-        },
-        method: "GET",
-        baseUrl,
-        auth: authMode === "key" ? { apiKey } : { clientId: clientId || undefined },
-      };
+  const toProxyRequest = useCallback(
+    (requestPath: string, requestParams: Record<string, string>): RequestShape => ({
+      path: requestPath,
+      params: requestParams,
+      method: "GET",
+      baseUrl,
+      auth: authMode === "key" ? { apiKey } : { clientId: clientId || undefined },
+    }),
+    [apiKey, authMode, baseUrl, clientId]
+  );
 
-      const res = await fetch(endpoint, {
+  // Runs several proxy calls in one round trip; mock mode answers each item locally.
+  const fetchBatch = useCallback(
+    async (requests: RequestShape[]) => {
+      if (mockMode) {
+        return Promise.all(
+          requests.map(async (request) => {
+            const res = await fetch(mockUrl, {
+              method: "POST",
+              headers: proxyHeaders(presetRef.current),
+              body: JSON.stringify(request),
+            });
+            return (await res.json()) as ApiResponse;
+          })
+        );
+      }
+      const res = await fetch("/api/maps/batch", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(request),
+        headers: proxyHeaders(presetRef.current),
+        body: JSON.stringify({ items: requests } satisfies BatchRequest),
       });
-      const data = (await res.json()) as ApiResponse;
-      return extractCoordinate(data.body);
+      const data = (await res.json()) as BatchResponse | ApiResponse;
+      if (!("items" in data)) {
+        throw new Error(
+          (data.body as { message?: string } | undefined)?.message || "Batch request failed."
+        );
+      }
+      return data.items;
     },
-    [apiKey, authMode, baseUrl, clientId, mockMode]
+    [mockMode, mockUrl]
   );
 
   const fetchRouteDirections = useCallback(
     async (origin: { lat: number; lon: number }, destination: { lat: number; lon: number }) => {
       setRouteError("");
-      const endpoint = mockMode ? "/api/mock" : "/api/maps";
+      const endpoint = mockMode ? mockUrl : "/api/maps";
       const request: RequestShape = {
         path: "route/directions",
         params: {
@@ -1292,7 +1474,7 @@ export default function EndpointForm() {
 
       const res = await fetch(endpoint, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: proxyHeaders(presetRef.current),
         body: JSON.stringify(request),
       });
       const data = (await res.json()) as ApiResponse;
@@ -1303,7 +1485,7 @@ export default function EndpointForm() {
       }
       return data;
     },
-    [apiKey, authMode, baseUrl, clientId, mockMode]
+    [apiKey, authMode, baseUrl, clientId, mockMode, mockUrl]
   );
 
   const fetchAutocomplete = useCallback(
@@ -1318,7 +1500,7 @@ export default function EndpointForm() {
       setAutocompleteError("");
       setAutocompleteDiag("");
       try {
-        const endpoint = mockMode ? "/api/mock" : "/api/maps";
+        const endpoint = mockMode ? mockUrl : "/api/maps";
         const request: RequestShape = {
           path: "geocode:autocomplete",
           params: {
@@ -1336,7 +1518,7 @@ export default function EndpointForm() {
 
         const res = await fetch(endpoint, {
           method: "POST",
-          headers: { "Content-Type": "application/json" },
+          headers: proxyHeaders(presetRef.current),
           body: JSON.stringify(request),
         });
         const data = (await res.json()) as ApiResponse;
@@ -1372,7 +1554,7 @@ export default function EndpointForm() {
         setAutocompleteLoading(false);
       }
     },
-    [apiKey, authMode, baseUrl, clientId, mockMode]
+    [apiKey, authMode, baseUrl, clientId, mockMode, mockUrl]
   );
 
   const handleAutocompletePick = useCallback(
@@ -1496,19 +1678,27 @@ export default function EndpointForm() {
     setCertifiedLoading(true);
     setCertifiedError("");
 
-    Promise.all(
-      certifiedLocations.map(async (address) => {
-        try {
-          const coord = await fetchGeocodeForAddress(address);
-          return coord ? { ...coord, address } : null;
-        } catch {
-          return null;
-        }
-      })
+    fetchBatch(
+      certifiedLocations.map((address) => ({
+        path: "geocode",
+        params: {
+          "api-version": "2025-01-01",
+          query: address,
+          limit: "1",
+        },
+        method: "GET",
+        baseUrl,
+        auth: authMode === "key" ? { apiKey } : { clientId: clientId || undefined },
+      }))
     )
       .then((results) => {
         if (!active) return;
-        const items = results.filter(Boolean) as { lat: number; lon: number; address: string }[];
+        const items = results
+          .map((data, index) => {
+            const coord = data.meta.status < 400 ? extractCoordinate(data.body) : null;
+            return coord ? { ...coord, address: certifiedLocations[index] } : null;
+          })
+          .filter(Boolean) as { lat: number; lon: number; address: string }[];
         setCertifiedMarkers(items);
         if (items.length === 0) {
           setCertifiedError("No certified locations could be geocoded.");
@@ -1526,7 +1716,7 @@ export default function EndpointForm() {
     return () => {
       active = false;
     };
-  }, [fetchGeocodeForAddress, selectedPreset]);
+  }, [apiKey, authMode, baseUrl, clientId, fetchBatch, selectedPreset]);
 
   useEffect(() => {
     setWeatherParams((prev) =>
@@ -1935,9 +2125,24 @@ export default function EndpointForm() {
       <div className="grid gap-6 lg:grid-cols-[1.1fr_1fr]">
         <div className="flex flex-col gap-6">
           <div className="flex flex-col gap-3">
-            <label className="text-sm font-semibold text-slate-700">
-              Connection
-            </label>
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <label className="text-sm font-semibold text-slate-700">
+                Connection
+              </label>
+              {activeBudget && (
+                <span
+                  className={`rounded-full px-3 py-1 text-[11px] font-semibold ${
+                    activeBudget.remaining === 0 || budget?.daily?.remaining === 0
+                      ? "bg-rose-100 text-rose-700"
+                      : "bg-white/80 text-slate-500"
+                  }`}
+                  title={`Resets ${new Date(activeBudget.resetAt).toLocaleTimeString()}`}
+                >
+                  Budget: {activeBudget.remaining}/{activeBudget.limit} {activeBudget.family}/min
+                  {budget?.daily && ` · ${budget.daily.remaining.toLocaleString()} left today`}
+                </span>
+              )}
+            </div>
             <div className="flex flex-col gap-3 rounded-2xl border border-slate-200/70 bg-white/70 p-4 shadow-sm">
               <div className="grid gap-3 md:grid-cols-[1.2fr_1fr]">
                 <div className="flex flex-col gap-1">
@@ -2016,8 +2221,12 @@ export default function EndpointForm() {
                     ? "Mobile Geocode"
                     : preset.id === "certified-locations"
                     ? "Certified Locations"
+                    : preset.id === "bulk-geocode"
+                    ? "Bulk Geocode"
                     : preset.id === "reverse"
                     ? "Reverse Geocode"
+                    : preset.id === "bulk-reverse"
+                    ? "Bulk Reverse Geocode"
                     : preset.id === "autocomplete"
                     ? "Autocomplete"
                     : preset.id === "weather"
@@ -2392,6 +2601,19 @@ export default function EndpointForm() {
                     </span>
                   </div>
                 </div>
+              ) : selectedPreset === "bulk-geocode" ? (
+                <BulkGeocode
+                  toRequest={toProxyRequest}
+                  runBatch={fetchBatch}
+                  onPointsChange={setBulkPoints}
+                />
+              ) : selectedPreset === "bulk-reverse" ? (
+                <BulkReverseGeocode
+                  params={bulkReverseParams}
+                  toRequest={toProxyRequest}
+                  runBatch={fetchBatch}
+                  onPointsChange={setBulkPoints}
+                />
               ) : selectedPreset === "mobile-geocode" ? (
                 <div className="flex flex-col gap-4 rounded-2xl border border-slate-200/70 bg-white/80 p-4 shadow-inner">
                   <div className="text-xs font-semibold text-slate-500">Mobile Geocode</div>
@@ -2638,7 +2860,9 @@ export default function EndpointForm() {
             </div>
           </div>
 
-          {selectedPreset !== "autocomplete" && selectedPreset !== "mobile-geocode" && (
+          {selectedPreset !== "autocomplete" &&
+            selectedPreset !== "mobile-geocode" &&
+            selectedPreset !== "bulk-geocode" && (
             <div className="flex flex-col gap-3">
               <div className="flex items-center justify-between">
                 <div className="flex items-center gap-2">
@@ -2666,7 +2890,7 @@ export default function EndpointForm() {
                     >
                       + Add Parameter
                     </button>
-                  ) : selectedPreset === "reverse" ? (
+                  ) : selectedPreset === "reverse" || selectedPreset === "bulk-reverse" ? (
                     <button
                       type="button"
                       onClick={addReverseParam}
@@ -2698,6 +2922,7 @@ export default function EndpointForm() {
                 selectedPreset !== "mobile-geocode" &&
                 selectedPreset !== "certified-locations" &&
                 selectedPreset !== "reverse" &&
+                selectedPreset !== "bulk-reverse" &&
                 selectedPreset !== "weather" && (
                 <div className="flex flex-wrap gap-2">
                   {quickParams.map((param) => (
@@ -2794,7 +3019,7 @@ export default function EndpointForm() {
                     </div>
                   ))}
                 </div>
-              ) : selectedPreset === "reverse" ? (
+              ) : selectedPreset === "reverse" || selectedPreset === "bulk-reverse" ? (
                 <div className="space-y-2">
                   {reverseParams.map((param, index) => (
                     <div
@@ -3028,7 +3253,7 @@ export default function EndpointForm() {
                   ))}
                 </div>
               )}
-              {reverseMissing && (
+              {reverseMissing && selectedPreset !== "bulk-reverse" && (
                 <p className="text-xs text-amber-600">
                   Reverse geocode needs lat/lon. Use query="lat,lon" or add lat/lon params.
                 </p>
@@ -3037,7 +3262,9 @@ export default function EndpointForm() {
           )}
 
           <div className="flex flex-wrap items-center gap-3">
-            {selectedPreset !== "autocomplete" && (
+            {selectedPreset !== "autocomplete" &&
+              selectedPreset !== "bulk-geocode" &&
+              selectedPreset !== "bulk-reverse" && (
               <button
                 type="button"
                 disabled={!isValid || !isMobileReady || isLoading}
@@ -3055,6 +3282,64 @@ export default function EndpointForm() {
               />
               Mock Mode
             </label>
+            {mockMode && (
+              <label className="flex items-center gap-2 text-xs font-semibold text-slate-500">
+                Scenario
+                <select
+                  className="rounded-lg border border-slate-200/70 bg-white px-2 py-1 text-xs text-slate-700"
+                  value={mockScenario}
+                  onChange={(event) => setMockScenario(event.target.value as MockScenario)}
+                >
+                  {mockScenarios.map((scenario) => (
+                    <option key={scenario.id} value={scenario.id}>
+                      {scenario.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+            {mockMode && isDelayedScenario(mockScenario) && (
+              <label className="flex items-center gap-2 text-xs font-semibold text-slate-500">
+                Latency (ms)
+                <input
+                  type="number"
+                  min={0}
+                  max={MAX_MOCK_LATENCY_MS}
+                  step={500}
+                  className="w-24 rounded-lg border border-slate-200/70 bg-white px-2 py-1 text-xs text-slate-700"
+                  value={mockLatencyMs}
+                  onChange={(event) =>
+                    setMockLatencyMs(
+                      Math.min(Math.max(Number(event.target.value) || 0, 0), MAX_MOCK_LATENCY_MS)
+                    )
+                  }
+                />
+              </label>
+            )}
+            <label className="flex items-center gap-2 text-xs font-semibold text-slate-500">
+              <input
+                type="checkbox"
+                checked={retryEnabled}
+                onChange={(event) => setRetryEnabled(event.target.checked)}
+              />
+              Retry 429/5xx
+            </label>
+            <label className="flex items-center gap-2 text-xs font-semibold text-slate-500">
+              <input
+                type="checkbox"
+                checked={bypassCache}
+                onChange={(event) => setBypassCache(event.target.checked)}
+              />
+              Bypass Cache
+            </label>
+            <label className="flex items-center gap-2 text-xs font-semibold text-slate-500">
+              <input
+                type="checkbox"
+                checked={diagnosticsEnabled}
+                onChange={(event) => setDiagnosticsEnabled(event.target.checked)}
+              />
+              Diagnostics
+            </label>
             {credentialMissing && !mockMode && (
               <span className="rounded-full bg-amber-100 px-3 py-1 text-xs font-semibold text-amber-700">
                 Credentials missing — try Mock Mode
@@ -3077,7 +3362,7 @@ export default function EndpointForm() {
                 </button>
                 <button
                   type="button"
-                  onClick={() => copyText(buildCurl(requestShape, baseUrl))}
+                  onClick={() => copyText(buildCurl(requestShape, curlOptions))}
                   className="rounded-full border border-slate-700 px-3 py-1 text-xs text-slate-200 transition hover:border-brand-400 hover:text-brand-200"
                 >
                   Copy cURL
@@ -3087,6 +3372,63 @@ export default function EndpointForm() {
             <div className="mt-2 break-all text-xs text-slate-300">
               {previewUrl}
             </div>
+            <div className="mt-3 flex flex-wrap items-center gap-3 text-xs text-slate-300">
+              <select
+                className="rounded-lg border border-slate-700 bg-slate-900 px-2 py-1 text-xs text-slate-200"
+                value={curlShell}
+                onChange={(event) => setCurlShell(event.target.value as CurlShell)}
+                aria-label="cURL shell"
+              >
+                {curlShells.map((shell) => (
+                  <option key={shell.id} value={shell.id}>
+                    {shell.label}
+                  </option>
+                ))}
+              </select>
+              <label className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={curlMultiline}
+                  onChange={(event) => setCurlMultiline(event.target.checked)}
+                />
+                Multi-line
+              </label>
+              <label className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={authMode === "key" && curlIncludeKey}
+                  disabled={authMode !== "key"}
+                  onChange={(event) => setCurlIncludeKey(event.target.checked)}
+                />
+                Include real key
+              </label>
+            </div>
+            <div className="mt-3 flex items-center justify-between gap-2 border-t border-slate-800 pt-3">
+              <select
+                className="rounded-lg border border-slate-700 bg-slate-900 px-2 py-1 text-xs text-slate-200"
+                value={snippetLanguage}
+                onChange={(event) => setSnippetLanguage(event.target.value as SnippetLanguage)}
+                aria-label="Snippet language"
+              >
+                {snippetLanguages.map((language) => (
+                  <option key={language.id} value={language.id}>
+                    {language.label}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={() => snippet && copyText(snippet)}
+                disabled={!snippet}
+                className="rounded-full border border-slate-700 px-3 py-1 text-xs text-slate-200 transition hover:border-brand-400 hover:text-brand-200 disabled:opacity-50"
+              >
+                Copy Snippet
+              </button>
+            </div>
+            <pre className="mt-2 max-h-72 overflow-auto text-xs text-slate-300">
+              {snippet ??
+                "No Azure Maps SDK client covers this endpoint; pick one of the HTTP snippets instead."}
+            </pre>
           </div>
           {selectedPreset === "autocomplete" && autocompleteDiag && (
             <div className="rounded-2xl border border-slate-200/70 bg-emerald-50/80 p-4 text-slate-700 shadow-inner">
@@ -3105,7 +3447,13 @@ export default function EndpointForm() {
         <div className="flex flex-col gap-6">
           {selectedPreset !== "weather" ? (
             <MapPreview
-              response={selectedPreset === "route" ? routeResponse : mapResponse ?? response}
+              response={
+                selectedPreset === "route"
+                  ? routeResponse
+                  : selectedPreset === "bulk-geocode" || selectedPreset === "bulk-reverse"
+                  ? null
+                  : mapResponse ?? response
+              }
               isLoading={isLoading}
               authMode={authMode}
               apiKey={apiKey}
@@ -3137,6 +3485,11 @@ export default function EndpointForm() {
                   ? { logoUrl: certifiedLogo, customerName: certifiedCustomerName }
                   : undefined
               }
+              bulkPoints={
+                selectedPreset === "bulk-geocode" || selectedPreset === "bulk-reverse"
+                  ? bulkPoints
+                  : undefined
+              }
               mapHeight={isMobileGeocode ? 440 : undefined}
               showEmptyState={selectedPreset !== "autocomplete"}
               preferredZoom={selectedPreset === "geolocation" ? 2.8 : undefined}
@@ -3200,31 +3553,50 @@ export default function EndpointForm() {
                 <h3 className="mb-3 text-sm font-semibold text-slate-700">
                   Autocomplete Response
                 </h3>
-                <ResultTabs response={autocompleteResponse ?? response} isLoading={isLoading} />
+                <ResultTabs response={autocompleteResponse ?? response} isLoading={isLoading} progress={progress} />
               </div>
               <div className="rounded-2xl border border-slate-200/70 bg-white/70 p-4 shadow-sm">
                 <h3 className="mb-3 text-sm font-semibold text-slate-700">
                   Geocode Response
                 </h3>
-                <ResultTabs response={mapResponse} isLoading={isLoading} />
+                <ResultTabs response={mapResponse} isLoading={isLoading} progress={progress} />
               </div>
             </div>
           ) : selectedPreset === "weather" ? (
-            <ResultTabs response={weatherResponse} isLoading={isLoading} />
+            <ResultTabs response={weatherResponse} isLoading={isLoading} progress={progress} />
           ) : selectedPreset === "geolocation" ? (
-            <ResultTabs response={geolocationResponse} isLoading={isLoading} />
+            <ResultTabs response={geolocationResponse} isLoading={isLoading} progress={progress} />
           ) : selectedPreset === "route" ? (
-            <ResultTabs response={routeResponse} isLoading={isLoading} />
+            <ResultTabs response={routeResponse} isLoading={isLoading} progress={progress} />
           ) : (
-            <ResultTabs response={response} isLoading={isLoading} />
+            <ResultTabs response={response} isLoading={isLoading} progress={progress} />
+          )}
+          {!isMobileGeocode && (
+            <ImportRequest
+              onLoad={loadImportedRequest}
+              onSend={(imported) => {
+                loadImportedRequest(imported);
+                const mode =
+                  imported.auth === "key" || imported.auth === "entra" ? imported.auth : authMode;
+                runRequest({
+                  ...imported.request,
+                  auth:
+                    mode === "key"
+                      ? { apiKey }
+                      : { clientId: imported.request.auth?.clientId ?? (clientId || undefined) },
+                });
+              }}
+            />
           )}
           {!isMobileGeocode && (
             <History
-              entries={history}
-              onDelete={(id) =>
-                setHistory((prev) => prev.filter((entry) => entry.id !== id))
-              }
-              onCopyCurl={(entry) => copyText(buildCurl(entry.request, baseUrl))}
+              history={history}
+              presets={presets}
+              onShowResponse={(entry) => {
+                const stored = toApiResponse(entry);
+                if (stored) setResponse(stored);
+              }}
+              onCopyCurl={(entry) => copyText(buildCurl(entry.request, curlOptions))}
               onRerun={(entry) => {
                 setPath(entry.request.path);
                 setParams(
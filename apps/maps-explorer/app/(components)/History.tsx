@@ -1,67 +1,369 @@
 "use client";
 
+import { useEffect, useState } from "react";
+import { downloadFile } from "../lib/bulk/table";
+import { exportFormats, exportHistory, type ExportFormat } from "../lib/exportRequests";
+import { statusClasses, type HistoryRetention, type StatusClass } from "../lib/history/entries";
+import { HISTORY_PAGE_SIZE, type HistoryState } from "../lib/history/useHistory";
 import type { HistoryEntry } from "../lib/types";
 
 type Props = {
-  entries: HistoryEntry[];
+  history: HistoryState;
+  presets: { id: string; label: string }[];
   onRerun: (entry: HistoryEntry) => void;
   onCopyCurl: (entry: HistoryEntry) => void;
-  onDelete: (id: string) => void;
+  onShowResponse: (entry: HistoryEntry) => void;
 };
 
-export default function History({ entries, onRerun, onCopyCurl, onDelete }: Props) {
+const buttonClass =
+  "rounded-full border border-slate-200 bg-white px-3 py-1 text-[11px] font-semibold text-slate-600 disabled:opacity-50";
+
+const inputClass =
+  "rounded-full border border-slate-200 bg-white px-2 py-1 text-[11px] text-slate-600";
+
+// <input type="date"> values are local calendar days.
+const dayBound = (value: string, end: boolean) =>
+  value ? new Date(`${value}T${end ? "23:59:59.999" : "00:00:00"}`).getTime() : null;
+
+export default function History({ history, presets, onRerun, onCopyCurl, onShowResponse }: Props) {
+  const { query, setQuery, page, pageIndex, setPageIndex, retention } = history;
+  const [text, setText] = useState(query.text);
+  const [fromDay, setFromDay] = useState("");
+  const [toDay, setToDay] = useState("");
+  const [selected, setSelected] = useState<string[]>([]);
+  const [format, setFormat] = useState<ExportFormat>("postman");
+  const [noteDraft, setNoteDraft] = useState<{ id: string; text: string } | null>(null);
+  const [showSettings, setShowSettings] = useState(false);
+  const [retentionDraft, setRetentionDraft] = useState<HistoryRetention>(retention);
+
+  // Searching scans every stored body, so wait for typing to pause.
+  useEffect(() => {
+    if (text === query.text) return;
+    const timer = window.setTimeout(() => setQuery({ ...query, text }), 250);
+    return () => window.clearTimeout(timer);
+  }, [text, query, setQuery]);
+
+  const pageCount = Math.max(1, Math.ceil(page.total / HISTORY_PAGE_SIZE));
+  const pageIds = page.entries.map((entry) => entry.id);
+  const pageSelected = pageIds.length > 0 && pageIds.every((id) => selected.includes(id));
+  const unfiltered =
+    !query.text &&
+    !query.preset &&
+    !query.status &&
+    query.from === null &&
+    query.to === null &&
+    !query.pinnedOnly;
+  const presetLabel = (id?: string) => presets.find((preset) => preset.id === id)?.label ?? id;
+
+  const toggle = (id: string) =>
+    setSelected((prev) => (prev.includes(id) ? prev.filter((item) => item !== id) : [...prev, id]));
+
+  const togglePage = () =>
+    setSelected((prev) =>
+      pageSelected
+        ? prev.filter((id) => !pageIds.includes(id))
+        : [...prev, ...pageIds.filter((id) => !prev.includes(id))]
+    );
+
+  const handleExport = async () => {
+    const entries = await history.getEntries(selected);
+    exportHistory(format, entries).forEach((file) =>
+      downloadFile(file.fileName, file.content, file.type)
+    );
+  };
+
+  const handleDelete = (ids: string[]) => {
+    setSelected((prev) => prev.filter((id) => !ids.includes(id)));
+    history.remove(ids);
+  };
+
+  const saveNote = () => {
+    if (!noteDraft) return;
+    history.update(noteDraft.id, { note: noteDraft.text.trim() || undefined });
+    setNoteDraft(null);
+  };
+
   return (
     <div className="flex flex-col gap-3">
       <div className="flex items-center justify-between">
         <h2 className="text-sm font-semibold text-slate-700">History</h2>
-        <span className="text-xs text-slate-500">Last 10</span>
+        <div className="flex items-center gap-2 text-xs text-slate-500">
+          <span>
+            {page.total} {page.total === 1 ? "entry" : "entries"}
+          </span>
+          <button
+            type="button"
+            onClick={() => {
+              setRetentionDraft(retention);
+              setShowSettings((value) => !value);
+            }}
+            className={buttonClass}
+          >
+            Retention
+          </button>
+        </div>
+      </div>
+
+      {history.error && (
+        <div className="rounded-2xl border border-rose-200 bg-rose-50 p-3 text-xs text-rose-700">
+          {history.error}
+        </div>
+      )}
+
+      {showSettings && (
+        <div className="flex flex-wrap items-end gap-3 rounded-2xl border border-slate-200/70 bg-white/80 p-3 text-[11px] text-slate-500 shadow-sm">
+          {(
+            [
+              ["maxEntries", "Max entries"],
+              ["maxAgeDays", "Keep days"],
+              ["maxBodyKb", "Max body KB"],
+            ] as const
+          ).map(([key, label]) => (
+            <label key={key} className="flex flex-col gap-1">
+              {label}
+              <input
+                type="number"
+                min={1}
+                value={retentionDraft[key]}
+                onChange={(event) =>
+                  setRetentionDraft((prev) => ({
+                    ...prev,
+                    [key]: Math.max(1, Number(event.target.value) || 1),
+                  }))
+                }
+                className={`${inputClass} w-24`}
+              />
+            </label>
+          ))}
+          <button
+            type="button"
+            onClick={() => {
+              history.setRetention(retentionDraft);
+              setShowSettings(false);
+            }}
+            className={buttonClass}
+          >
+            Save
+          </button>
+          <span className="basis-full">
+            Pinned entries are never pruned. The body limit applies to new entries.
+          </span>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="search"
+          value={text}
+          onChange={(event) => setText(event.target.value)}
+          placeholder="Search path, params, bodies and notes"
+          aria-label="Search history"
+          className={`${inputClass} min-w-0 flex-1`}
+        />
+        <select
+          value={query.preset}
+          onChange={(event) => setQuery({ ...query, preset: event.target.value })}
+          aria-label="Filter by preset"
+          className={inputClass}
+        >
+          <option value="">All presets</option>
+          {presets.map((preset) => (
+            <option key={preset.id} value={preset.id}>
+              {preset.label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={query.status}
+          onChange={(event) =>
+            setQuery({ ...query, status: event.target.value as StatusClass | "" })
+          }
+          aria-label="Filter by status"
+          className={inputClass}
+        >
+          <option value="">Any status</option>
+          {statusClasses.map((status) => (
+            <option key={status} value={status}>
+              {status}
+            </option>
+          ))}
+        </select>
+        <input
+          type="date"
+          value={fromDay}
+          onChange={(event) => {
+            setFromDay(event.target.value);
+            setQuery({ ...query, from: dayBound(event.target.value, false) });
+          }}
+          aria-label="From date"
+          className={inputClass}
+        />
+        <input
+          type="date"
+          value={toDay}
+          onChange={(event) => {
+            setToDay(event.target.value);
+            setQuery({ ...query, to: dayBound(event.target.value, true) });
+          }}
+          aria-label="To date"
+          className={inputClass}
+        />
+        <label className="flex items-center gap-1 text-[11px] text-slate-500">
+          <input
+            type="checkbox"
+            checked={query.pinnedOnly}
+            onChange={(event) => setQuery({ ...query, pinnedOnly: event.target.checked })}
+          />
+          Pinned
+        </label>
       </div>
-      {entries.length === 0 ? (
+
+      {page.entries.length === 0 ? (
         <div className="rounded-2xl border border-dashed border-slate-200/70 bg-white/60 p-4 text-xs text-slate-400">
-          Run a request to capture history.
+          {unfiltered ? "Run a request to capture history."
+            : "No entries match."}
         </div>
       ) : (
         <div className="space-y-2">
-          {entries.map((entry) => (
+          <div className="flex flex-wrap items-center gap-2 text-[11px] text-slate-500">
+            <label className="flex items-center gap-1">
+              <input type="checkbox" checked={pageSelected} onChange={togglePage} />
+              Select page
+            </label>
+            {selected.length > 0 && (
+              <button type="button" onClick={() => setSelected([])} className={buttonClass}>
+                Clear {selected.length}
+              </button>
+            )}
+            <select
+              value={format}
+              onChange={(event) => setFormat(event.target.value as ExportFormat)}
+              aria-label="Export format"
+              className={`${inputClass} ml-auto`}
+            >
+              {exportFormats.map((item) => (
+                <option key={item.id} value={item.id}>
+                  {item.label}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={handleExport}
+              disabled={selected.length === 0}
+              className={buttonClass}
+            >
+              Export {selected.length || ""}
+            </button>
+          </div>
+          {page.entries.map((entry) => (
             <div
               key={entry.id}
-              className="rounded-2xl border border-slate-200/70 bg-white/80 p-3 text-xs text-slate-600 shadow-sm"
+              className={`rounded-2xl border p-3 text-xs text-slate-600 shadow-sm ${
+                entry.pinned ? "border-amber-200 bg-amber-50/60" : "border-slate-200/70 bg-white/80"
+              }`}
             >
               <div className="flex items-center justify-between gap-3">
-                <div>
-                  <div className="font-semibold text-slate-700">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(entry.id)}
+                  onChange={() => toggle(entry.id)}
+                  aria-label={`Select ${entry.request.path}`}
+                />
+                <div className="min-w-0 flex-1">
+                  <div className="truncate font-semibold text-slate-700">
                     {entry.request.path}
                   </div>
                   <div className="text-[11px] text-slate-400">
-                    {new Date(entry.timestamp).toLocaleTimeString()} · {entry.status} · {entry.durationMs}ms
+                    {new Date(entry.timestamp).toLocaleString()} · {entry.status} ·{" "}
+                    {entry.durationMs}ms
+                    {entry.preset ? ` · ${presetLabel(entry.preset)}` : ""}
                   </div>
                 </div>
-                <div className="flex gap-2">
+                <div className="flex flex-wrap justify-end gap-2">
                   <button
                     type="button"
-                    onClick={() => onRerun(entry)}
-                    className="rounded-full border border-slate-200 bg-white px-3 py-1 text-[11px] font-semibold text-slate-600"
+                    onClick={() => history.update(entry.id, { pinned: !entry.pinned })}
+                    className={buttonClass}
                   >
-                    Re-run
+                    {entry.pinned ? "Unpin" : "Pin"}
                   </button>
                   <button
                     type="button"
-                    onClick={() => onCopyCurl(entry)}
-                    className="rounded-full border border-slate-200 bg-white px-3 py-1 text-[11px] font-semibold text-slate-600"
+                    onClick={() => setNoteDraft({ id: entry.id, text: entry.note ?? "" })}
+                    className={buttonClass}
                   >
+                    Note
+                  </button>
+                  {entry.response && (
+                    <button
+                      type="button"
+                      onClick={() => onShowResponse(entry)}
+                      className={buttonClass}
+                    >
+                      Response
+                    </button>
+                  )}
+                  <button type="button" onClick={() => onRerun(entry)} className={buttonClass}>
+                    Re-run
+                  </button>
+                  <button type="button" onClick={() => onCopyCurl(entry)} className={buttonClass}>
                     cURL
                   </button>
                   <button
                     type="button"
-                    onClick={() => onDelete(entry.id)}
+                    onClick={() => handleDelete([entry.id])}
                     className="rounded-full border border-rose-200 bg-rose-50 px-3 py-1 text-[11px] font-semibold text-rose-600"
                   >
                     Delete
                   </button>
                 </div>
               </div>
+              {noteDraft?.id === entry.id ? (
+                <div className="mt-2 flex items-start gap-2">
+                  <textarea
+                    value={noteDraft.text}
+                    onChange={(event) => setNoteDraft({ id: entry.id, text: event.target.value })}
+                    aria-label="Note"
+                    className="h-16 flex-1 rounded-xl border border-slate-200 bg-white p-2 text-[11px] text-slate-600"
+                  />
+                  <button type="button" onClick={saveNote} className={buttonClass}>
+                    Save
+                  </button>
+                  <button type="button" onClick={() => setNoteDraft(null)} className={buttonClass}>
+                    Cancel
+                  </button>
+                </div>
+              ) : (
+                entry.note && (
+                  <div className="mt-2 whitespace-pre-wrap text-[11px] text-slate-500">
+                    {entry.note}
+                  </div>
+                )
+              )}
             </div>
           ))}
+          <div className="flex items-center justify-between text-[11px] text-slate-500">
+            <button
+              type="button"
+              onClick={() => setPageIndex(pageIndex - 1)}
+              disabled={pageIndex === 0}
+              className={buttonClass}
+            >
+              Previous
+            </button>
+            <span>
+              Page {pageIndex + 1} of {pageCount}
+            </span>
+            <button
+              type="button"
+              onClick={() => setPageIndex(pageIndex + 1)}
+              disabled={pageIndex + 1 >= pageCount}
+              className={buttonClass}
+            >
+              Next
+            </button>
+          </div>
         </div>
       )}
     </div>
@@ -0,0 +1,122 @@
+"use client";
+
+import { useState } from "react";
+import { importRequests, type ImportResult, type ImportedRequest } from "../lib/importRequest";
+
+type Props = {
+  onLoad: (imported: ImportedRequest) => void;
+  onSend: (imported: ImportedRequest) => void;
+};
+
+const FORMAT_LABELS: Record<ImportedRequest["format"], string> = {
+  curl: "curl",
+  postman: "Postman",
+  har: "HAR",
+};
+
+const AUTH_LABELS: Record<ImportedRequest["auth"], string> = {
+  key: "Subscription key",
+  entra: "Entra bearer token",
+  sas: "SAS token",
+  none: "No auth",
+};
+
+export default function ImportRequest({ onLoad, onSend }: Props) {
+  const [text, setText] = useState("");
+  const [result, setResult] = useState<ImportResult | null>(null);
+
+  const handleFile = async (file: File | null) => {
+    if (!file) return;
+    const content = await file.text();
+    setText(content);
+    setResult(importRequests(content));
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold text-slate-700">Import Request</h2>
+        <span className="text-xs text-slate-500">curl · Postman v2.1 · HAR</span>
+      </div>
+      <textarea
+        className="h-24 rounded-2xl border border-slate-200/70 bg-white/80 p-3 font-mono text-xs text-slate-700 shadow-sm"
+        value={text}
+        onChange={(event) => setText(event.target.value)}
+        placeholder="Paste a curl command, Postman collection or HAR file"
+        aria-label="Request to import"
+      />
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={() => setResult(importRequests(text))}
+          disabled={!text.trim()}
+          className="rounded-full border border-slate-200 bg-white px-3 py-1 text-[11px] font-semibold text-slate-600 disabled:opacity-50"
+        >
+          Parse
+        </button>
+        <label className="rounded-full border border-slate-200 bg-white px-3 py-1 text-[11px] font-semibold text-slate-600">
+          Open file
+          <input
+            type="file"
+            accept=".json,.har,.txt,.sh,.ps1,.cmd"
+            className="hidden"
+            onChange={(event) => handleFile(event.target.files?.[0] ?? null)}
+          />
+        </label>
+      </div>
+      {result && !result.ok && (
+        <div className="rounded-2xl border border-rose-200 bg-rose-50 p-3 text-xs text-rose-700">
+          {result.message}
+        </div>
+      )}
+      {result?.ok && (
+        <div className="space-y-2">
+          {result.requests.map((imported, index) => (
+            <div
+              key={`${imported.name}-${index}`}
+              className="rounded-2xl border border-slate-200/70 bg-white/80 p-3 text-xs text-slate-600 shadow-sm"
+            >
+              <div className="flex items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="truncate font-semibold text-slate-700">{imported.name}</div>
+                  <div className="text-[11px] text-slate-400">
+                    {FORMAT_LABELS[imported.format]} · {imported.request.method}{" "}
+                    {imported.request.path} · {AUTH_LABELS[imported.auth]}
+                  </div>
+                </div>
+                <div className="flex shrink-0 gap-2">
+                  <button
+                    type="button"
+                    onClick={() => onLoad(imported)}
+                    className="rounded-full border border-slate-200 bg-white px-3 py-1 text-[11px] font-semibold text-slate-600"
+                  >
+                    Load
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onSend(imported)}
+                    className="rounded-full border border-slate-200 bg-white px-3 py-1 text-[11px] font-semibold text-slate-600"
+                  >
+                    Send
+                  </button>
+                </div>
+              </div>
+              {imported.issues.length > 0 && (
+                <ul className="mt-2 list-disc space-y-1 pl-4 text-[11px] text-amber-700">
+                  {imported.issues.map((issue) => (
+                    <li key={issue}>{issue}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+          {result.skipped.length > 0 && (
+            <div className="text-[11px] text-slate-400">
+              Skipped {result.skipped.length}: {result.skipped.join(" ")}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
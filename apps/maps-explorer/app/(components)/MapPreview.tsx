@@ -1,7 +1,9 @@
 "use client";
 
 import { useEffect, useMemo, useRef, useState } from "react";
-import type { ApiResponse } from "../lib/types";
+import type { source } from "azure-maps-control";
+import { fetchWithSession } from "../lib/sessionFetch";
+import type { ApiResponse, BulkPoint } from "../lib/types";
 
 type Props = {
   response: ApiResponse | null;
@@ -25,6 +27,7 @@ type Props = {
     logoUrl?: string | null;
     customerName?: string;
   };
+  bulkPoints?: BulkPoint[];
   mapHeight?: number;
   mapHeightClass?: string;
   showEmptyState?: boolean;
@@ -388,6 +391,7 @@ export default function MapPreview({
   customMarker,
   certifiedLocations,
   certifiedMarker,
+  bulkPoints,
   mapHeight,
   mapHeightClass,
   showEmptyState = true,
@@ -402,6 +406,7 @@ export default function MapPreview({
   const dataSourceRef = useRef<any>(null);
   const routeSourceRef = useRef<any>(null);
   const routeMarkerSourceRef = useRef<any>(null);
+  const bulkSourceRef = useRef<source.DataSource | null>(null);
   const popupRef = useRef<any>(null);
   const markerRef = useRef<any>(null);
   const markerClickRef = useRef<(() => void) | null>(null);
@@ -468,7 +473,7 @@ export default function MapPreview({
                 reject: (error: string) => void
               ) => {
                 try {
-                  const res = await fetch("/api/maps/token");
+                  const res = await fetchWithSession("/api/maps/token");
                   if (!res.ok) {
                     const payload = (await res.json()) as { message?: string };
                     reject(payload?.message || "Failed to fetch token.");
@@ -512,6 +517,10 @@ export default function MapPreview({
         routeMarkerSourceRef.current = routeMarkerSource;
         map.sources.add(routeMarkerSource);
 
+        const bulkSource = new atlas.source.DataSource("bulk-source");
+        bulkSourceRef.current = bulkSource;
+        map.sources.add(bulkSource);
+
         if (!map.imageSprite.hasImage("result-pin-icon")) {
           const canvas = document.createElement("canvas");
           canvas.width = 32;
@@ -596,6 +605,14 @@ export default function MapPreview({
         );
         map.layers.add(routeMarkerLayer);
 
+        const bulkLayer = new atlas.layer.BubbleLayer(bulkSource, "bulk-points", {
+          radius: 6,
+          color: "#0ea5e9",
+          strokeColor: "#ffffff",
+          strokeWidth: 2,
+        });
+        map.layers.add(bulkLayer);
+
         const popup = new atlas.Popup({ closeButton: true });
         popupRef.current = popup;
         map.events.add("click", bubbleLayer, (event) => {
@@ -626,6 +643,17 @@ export default function MapPreview({
           popup.open(map);
         });
 
+        map.events.add("click", bulkLayer, (event) => {
+          const shape = event.shapes?.[0];
+          if (!shape || !(shape instanceof atlas.Shape)) return;
+          const props = shape.getProperties() as { label?: string };
+          popup.setOptions({
+            position: shape.getCoordinates() as [number, number],
+            content: buildPopupContent(props.label || "Bulk result"),
+          });
+          popup.open(map);
+        });
+
         map.events.add("click", (event) => {
           if (!event.shapes || event.shapes.length === 0) {
             popup.close();
@@ -670,6 +698,7 @@ export default function MapPreview({
       dataSourceRef.current = null;
       routeSourceRef.current = null;
       routeMarkerSourceRef.current = null;
+      bulkSourceRef.current = null;
       popupRef.current = null;
       markerRef.current = null;
       setMapReady(false);
@@ -859,6 +888,28 @@ export default function MapPreview({
     }
   }, [certifiedLocations, certifiedMarker, mapReady, routeLine]);
 
+  useEffect(() => {
+    if (!mapReady || !mapRef.current || !bulkSourceRef.current || !atlasRef.current) return;
+    const atlas = atlasRef.current;
+    const bulkSource = bulkSourceRef.current;
+    bulkSource.clear();
+    if (!bulkPoints || bulkPoints.length === 0) return;
+    bulkSource.add(
+      bulkPoints.map(
+        (point) => new atlas.data.Feature(new atlas.data.Point([point.lon, point.lat]), { label: point.label })
+      )
+    );
+    mapRef.current.setCamera({
+      bounds: atlas.data.BoundingBox.fromPositions(
+        bulkPoints.map((point) => [point.lon, point.lat])
+      ),
+      padding: 60,
+      maxZoom: 14,
+      type: "ease",
+      duration: 800,
+    });
+  }, [bulkPoints, mapReady]);
+
   useEffect(() => {
     if (!mapReady || !routeLine || !mapRef.current || !routeSourceRef.current || !atlasRef.current)
       return;
@@ -1,23 +1,62 @@
 "use client";
 
+import Image from "next/image";
 import { useMemo, useState } from "react";
+import type { ProxyProgress } from "../lib/proxyResponse";
 import type { ApiResponse } from "../lib/types";
 
 const tabs = ["Body", "Raw", "Headers", "Status/Timing"] as const;
 
+// Hex dump of the first bytes of a base64 body, 16 bytes per line.
+const hexPreview = (base64: string, maxBytes = 256) => {
+  const bytes = Array.from(atob(base64.slice(0, Math.ceil(maxBytes / 3) * 4)), (char) =>
+    char.charCodeAt(0)
+  ).slice(0, maxBytes);
+  const lines: string[] = [];
+  for (let offset = 0; offset < bytes.length; offset += 16) {
+    const row = bytes.slice(offset, offset + 16);
+    const hex = row.map((byte) => byte.toString(16).padStart(2, "0")).join(" ");
+    const ascii = row
+      .map((byte) => (byte >= 32 && byte < 127 ? String.fromCharCode(byte) : "."))
+      .join("");
+    lines.push(`${offset.toString(16).padStart(8, "0")}  ${hex.padEnd(47)}  ${ascii}`);
+  }
+  return lines.join("\n");
+};
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024
+    ? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+    : bytes >= 1024
+    ? `${(bytes / 1024).toFixed(1)} KB`
+    : `${bytes} B`;
+
 type Props = {
   response: ApiResponse | null;
   isLoading: boolean;
+  progress?: ProxyProgress | null;
 };
 
-export default function ResultTabs({ response, isLoading }: Props) {
+export default function ResultTabs({ response, isLoading, progress }: Props) {
   const [active, setActive] = useState<(typeof tabs)[number]>("Body");
   const [copyStatus, setCopyStatus] = useState<"idle" | "copied" | "error">(
     "idle"
   );
 
+  const contentType = response?.meta.headers["content-type"] ?? "";
+  const isBinary = response?.encoding === "base64";
+  const imageSrc =
+    isBinary && contentType.startsWith("image/")
+      ? `data:${contentType.split(";")[0]};base64,${response?.raw}`
+      : null;
+
   const prettyBody = useMemo(() => {
     if (!response) return "No response yet.";
+    if (response.encoding === "base64") {
+      const size = response.size ?? 0;
+      const preview = hexPreview(response.raw);
+      return `${contentType || "binary"} · ${size} bytes${size > 256 ? " (first 256 shown)" : ""}\n\n${preview}`;
+    }
     if (typeof response.body === "string") {
       try {
         const parsed = JSON.parse(response.body);
@@ -31,13 +70,26 @@ export default function ResultTabs({ response, isLoading }: Props) {
     } catch {
       return String(response.body);
     }
-  }, [response]);
+  }, [contentType, response]);
 
   const headerText = useMemo(() => {
     if (!response) return "";
-    return Object.entries(response.meta.headers)
-      .map(([key, value]) => `${key}: ${value}`)
-      .join("\n");
+    const format = (headers: Record<string, string>) =>
+      Object.entries(headers)
+        .map(([key, value]) => `${key}: ${value}`)
+        .join("\n");
+    const diagnostics = response.meta.diagnostics;
+    if (!diagnostics) return format(response.meta.headers);
+    return [
+      "# Returned headers",
+      format(response.meta.headers),
+      "",
+      "# Upstream response headers",
+      format(diagnostics.responseHeaders),
+      "",
+      "# Outbound request headers",
+      format(diagnostics.requestHeaders),
+    ].join("\n");
   }, [response]);
 
   const activeText = useMemo(() => {
@@ -46,7 +98,43 @@ export default function ResultTabs({ response, isLoading }: Props) {
     if (active === "Raw") return response.raw || "";
     if (active === "Headers") return headerText;
     if (active === "Status/Timing") {
-      return `Status: ${response.meta.status} ${response.meta.statusText}\nDuration: ${response.meta.durationMs}ms\nURL: ${response.meta.url}`;
+      const lines = [
+        `Status: ${response.meta.status} ${response.meta.statusText}`,
+        `Duration: ${response.meta.durationMs}ms`,
+        `URL: ${response.meta.url}`,
+      ];
+      if (response.size !== undefined) {
+        lines.push(`Size: ${response.size} bytes${response.encoding ? ` (${response.encoding})` : ""}`);
+      }
+      if (response.meta.authSource) lines.push(`Auth: ${response.meta.authSource}`);
+      const cacheStatus = response.meta.headers["x-cache"];
+      if (cacheStatus) {
+        lines.push(`Cache: ${cacheStatus} (age ${response.meta.headers.age ?? "0"}s)`);
+      }
+      if (response.meta.attempts && response.meta.attempts > 1) {
+        lines.push(
+          `Attempts: ${response.meta.attempts} (waited ${response.meta.retryWaitMs ?? 0}ms between retries)`
+        );
+      }
+      const diagnostics = response.meta.diagnostics;
+      if (diagnostics) {
+        const { tokenMs, retryWaitMs, dnsMs, connectMs, ttfbMs, bodyMs, totalMs } =
+          diagnostics.timings;
+        const phase = (value: number | null) => (value === null ? "n/a" : `${value}ms`);
+        const reused = dnsMs === null && connectMs === null ? " (reused connection)" : "";
+        lines.push(
+          "",
+          `Upstream URL: ${diagnostics.upstreamUrl}`,
+          `Token: ${phase(tokenMs)}`,
+          `Retry wait: ${phase(retryWaitMs)}`,
+          `DNS: ${phase(dnsMs)}${reused}`,
+          `Connect (TCP and TLS): ${phase(connectMs)}${reused}`,
+          `TTFB: ${phase(ttfbMs)}`,
+          `Body: ${phase(bodyMs)}`,
+          `Total: ${phase(totalMs)}`
+        );
+      }
+      return lines.join("\n");
     }
     return "";
   }, [active, headerText, prettyBody, response]);
@@ -69,7 +157,18 @@ export default function ResultTabs({ response, isLoading }: Props) {
         <h2 className="text-sm font-semibold text-slate-700">Results</h2>
         <div className="flex items-center gap-3">
           {isLoading && (
-            <span className="text-xs font-semibold text-slate-500">Loading…</span>
+            <span className="text-xs font-semibold text-slate-500">
+              {progress && progress.received > 0
+                ? `Receiving ${formatBytes(progress.received)}${
+                    progress.total ? ` of ${formatBytes(progress.total)}` : ""
+                  }…`
+                : "Loading…"}
+            </span>
+          )}
+          {!isLoading && response?.meta.attempts && response.meta.attempts > 1 && (
+            <span className="rounded-full bg-amber-100 px-2 py-0.5 text-[11px] font-semibold text-amber-700">
+              {response.meta.attempts} tries
+            </span>
           )}
           <button
             type="button"
@@ -101,11 +200,31 @@ export default function ResultTabs({ response, isLoading }: Props) {
           </button>
         ))}
       </div>
+      {isLoading && progress?.total ? (
+        <div className="h-1 overflow-hidden rounded-full bg-slate-200">
+          <div
+            className="h-full bg-slate-900 transition-all"
+            style={{ width: `${Math.min(100, (progress.received / progress.total) * 100)}%` }}
+          />
+        </div>
+      ) : null}
       <div className="min-h-[260px] rounded-2xl border border-slate-200/70 bg-white/80 p-4 text-xs text-slate-700 shadow-inner">
         {!response && !isLoading ? (
           <div className="text-slate-400">
             Run a request to see response details.
           </div>
+        ) : active === "Body" && imageSrc ? (
+          <div className="flex flex-col gap-3">
+            <Image
+              src={imageSrc}
+              alt="Response image"
+              unoptimized
+              width={0}
+              height={0}
+              className="h-auto w-auto max-w-full rounded-lg border border-slate-200"
+            />
+            <pre className="whitespace-pre-wrap break-words">{activeText}</pre>
+          </div>
         ) : (
           <pre className="whitespace-pre-wrap break-words">{activeText}</pre>
         )}
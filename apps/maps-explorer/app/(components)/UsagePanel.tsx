@@ -0,0 +1,132 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { fetchWithSession } from "../lib/sessionFetch";
+import type { UsageRow, UsageSummary } from "../lib/types";
+
+const REFRESH_MS = 30_000;
+
+const windows = [
+  { id: "hour", label: "Last hour" },
+  { id: "day", label: "Last day" },
+] as const;
+
+const formatMs = (value: number | null) => (value === null ? "—" : `${Math.round(value)}ms`);
+
+function UsageBar({ value, max, tone }: { value: number; max: number; tone: string }) {
+  const width = max > 0 ? Math.max(2, (value / max) * 100) : 0;
+  return (
+    <div className="h-2 w-full overflow-hidden rounded-full bg-slate-100">
+      <div className={`h-full rounded-full ${tone}`} style={{ width: `${width}%` }} />
+    </div>
+  );
+}
+
+export default function UsagePanel() {
+  const [usage, setUsage] = useState<UsageSummary | null>(null);
+  const [windowId, setWindowId] = useState<(typeof windows)[number]["id"]>("hour");
+  const [loadError, setLoadError] = useState(false);
+
+  const refreshUsage = useCallback(async () => {
+    try {
+      const res = await fetchWithSession("/api/metrics/usage");
+      if (!res.ok) throw new Error(res.statusText);
+      setUsage((await res.json()) as UsageSummary);
+      setLoadError(false);
+    } catch {
+      setLoadError(true);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshUsage();
+    const handle = window.setInterval(refreshUsage, REFRESH_MS);
+    return () => window.clearInterval(handle);
+  }, [refreshUsage]);
+
+  const rows: UsageRow[] = usage?.[windowId] ?? [];
+  const maxCalls = Math.max(0, ...rows.map((row) => row.calls));
+  const maxLatency = Math.max(0, ...rows.map((row) => row.p95Ms ?? 0));
+  const totalTransactions = rows.reduce((total, row) => total + row.transactions, 0);
+
+  return (
+    <section
+      id="usage"
+      className="flex flex-col gap-6 rounded-3xl border border-slate-200/60 bg-white/70 p-6 shadow-sm"
+    >
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex flex-col gap-2">
+          <h2 className="text-2xl font-semibold text-slate-900">Usage</h2>
+          <p className="text-sm text-slate-600">
+            Calls, error rates and latency per preset on this server.{" "}
+            <span className="font-semibold text-slate-800">{totalTransactions}</span> billable
+            Azure Maps transactions in this window.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {windows.map((item) => (
+            <button
+              key={item.id}
+              type="button"
+              onClick={() => setWindowId(item.id)}
+              className={`rounded-full px-3 py-1 text-xs font-semibold transition ${
+                windowId === item.id
+                  ? "bg-slate-900 text-white"
+                  : "bg-white text-slate-600 hover:text-slate-900"
+              }`}
+            >
+              {item.label}
+            </button>
+          ))}
+          <button
+            type="button"
+            onClick={refreshUsage}
+            className="rounded-full border border-slate-200 px-3 py-1 text-xs font-semibold text-slate-600 transition hover:border-slate-300 hover:text-slate-900"
+          >
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      <div className="rounded-2xl border border-slate-200/70 bg-white/80 p-5 shadow-inner">
+        {loadError && (
+          <div className="mb-3 text-xs font-semibold text-rose-600">Usage data is unavailable.</div>
+        )}
+        {rows.length === 0 ? (
+          <div className="text-sm text-slate-400">No requests in this window yet.</div>
+        ) : (
+          <div className="flex flex-col gap-4">
+            <div className="grid grid-cols-[minmax(0,1.2fr)_minmax(0,2fr)_minmax(0,1fr)_minmax(0,2fr)] gap-3 text-[11px] font-semibold uppercase tracking-wide text-slate-500">
+              <span>Preset</span>
+              <span>Calls</span>
+              <span>Errors</span>
+              <span>p50 / p95</span>
+            </div>
+            {rows.map((row) => (
+              <div
+                key={row.preset}
+                className="grid grid-cols-[minmax(0,1.2fr)_minmax(0,2fr)_minmax(0,1fr)_minmax(0,2fr)] items-center gap-3 text-xs text-slate-700"
+              >
+                <span className="truncate font-semibold text-slate-800">{row.preset}</span>
+                <div className="flex items-center gap-2">
+                  <UsageBar value={row.calls} max={maxCalls} tone="bg-slate-900" />
+                  <span className="w-10 text-right">{row.calls}</span>
+                </div>
+                <span className={row.errorRate > 0 ? "font-semibold text-rose-600" : ""}>
+                  {(row.errorRate * 100).toFixed(1)}%
+                </span>
+                <div className="flex flex-col gap-1">
+                  <UsageBar value={row.p50Ms ?? 0} max={maxLatency} tone="bg-sky-500" />
+                  <UsageBar value={row.p95Ms ?? 0} max={maxLatency} tone="bg-amber-500" />
+                  <span className="text-[11px] text-slate-500">
+                    {formatMs(row.p50Ms)} / {formatMs(row.p95Ms)}
+                  </span>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,161 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getMapsToken, type MapsAccessToken } from "@/app/lib/auth/token";
+import { forwardMapsRequest } from "@/app/lib/proxy/forward";
+import { withRequestTelemetry, type RequestTelemetry } from "@/app/lib/telemetry/requestLog";
+import type { ApiResponse, BatchRequest, BatchResponse, RequestShape } from "@/app/lib/types";
+
+const DEFAULT_MAX_ITEMS = 25;
+const DEFAULT_CONCURRENCY = 4;
+const MAX_CONCURRENCY = 8;
+
+const getMaxItems = () => {
+  const parsed = Number.parseInt(process.env.MAPS_BATCH_MAX_ITEMS ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_MAX_ITEMS;
+};
+
+const batchError = (
+  status: number,
+  statusText: string,
+  message: string,
+  errorCode: ApiResponse["errorCode"]
+) =>
+  NextResponse.json(
+    {
+      meta: { status, statusText, headers: {}, durationMs: 0, url: "" },
+      body: { message },
+      raw: "",
+      errorCode,
+    } satisfies ApiResponse,
+    { status }
+  );
+
+const itemError = (message: string): ApiResponse => ({
+  meta: { status: 400, statusText: "Invalid Batch Item", headers: {}, durationMs: 0, url: "" },
+  body: { message },
+  raw: "",
+  errorCode: "invalid_batch",
+});
+
+const isStringRecord = (value: unknown) =>
+  Boolean(value) &&
+  typeof value === "object" &&
+  !Array.isArray(value) &&
+  Object.values(value as object).every((entry) => typeof entry === "string");
+
+// Checks the fields forwardMapsRequest reads, so one malformed item fails on its own.
+const validateItem = (item: unknown) => {
+  if (!item || typeof item !== "object" || typeof (item as RequestShape).path !== "string") {
+    return "Batch items must be request objects with a path.";
+  }
+  const { method, params, baseUrl, auth } = item as Record<string, unknown>;
+  if (method !== undefined && typeof method !== "string") return "Item method must be a string.";
+  if (params !== undefined && !isStringRecord(params)) {
+    return "Item params must be an object of string values.";
+  }
+  if (baseUrl !== undefined && typeof baseUrl !== "string") {
+    return "Item baseUrl must be a string.";
+  }
+  if (auth !== undefined && !isStringRecord(auth)) {
+    return "Item auth must be an object of string values.";
+  }
+  return null;
+};
+
+// Runs `worker` over `items` with at most `limit` in flight, keeping results in input order.
+const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+) => {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  await Promise.all(
+    Array.from({ length: Math.min(limit, items.length) }, async () => {
+      while (next < items.length) {
+        const index = next;
+        next += 1;
+        results[index] = await worker(items[index], index);
+      }
+    })
+  );
+  return results;
+};
+
+const handleBatch = async (request: NextRequest, telemetry: RequestTelemetry) => {
+  let payload: BatchRequest | null = null;
+  try {
+    payload = (await request.json()) as BatchRequest;
+  } catch {
+    return batchError(400, "Bad Request", "Invalid JSON body.", "invalid_json");
+  }
+
+  const items = payload?.items;
+  if (!Array.isArray(items) || items.length === 0) {
+    return batchError(400, "Invalid Batch", "Provide a non-empty items array.", "invalid_batch");
+  }
+  const maxItems = getMaxItems();
+  if (items.length > maxItems) {
+    return batchError(
+      400,
+      "Invalid Batch",
+      `A batch may contain at most ${maxItems} items.`,
+      "invalid_batch"
+    );
+  }
+  const requested = payload.concurrency ?? DEFAULT_CONCURRENCY;
+  if (typeof requested !== "number" || !Number.isFinite(requested)) {
+    return batchError(400, "Invalid Batch", "concurrency must be a number.", "invalid_batch");
+  }
+  const concurrency = Math.min(
+    Math.max(Math.round(requested), 1),
+    MAX_CONCURRENCY
+  );
+
+  // Items without their own key share a single token acquisition, including its failure.
+  let token: Promise<MapsAccessToken> | null = null;
+  const getToken = () => (token ??= getMapsToken());
+
+  const start = Date.now();
+  const results = await mapWithConcurrency(items, concurrency, async (item: RequestShape) => {
+    const invalid = validateItem(item);
+    if (invalid) return itemError(invalid);
+    const response = await withRequestTelemetry(
+      request,
+      "/api/maps/batch",
+      (itemTelemetry) =>
+        forwardMapsRequest(request, { ...item, passthrough: false }, itemTelemetry, { getToken }),
+      { parent: telemetry.span }
+    );
+    try {
+      return (await response.json()) as ApiResponse;
+    } catch {
+      return {
+        meta: {
+          status: response.status,
+          statusText: response.statusText,
+          headers: {},
+          durationMs: 0,
+          url: "",
+        },
+        body: { message: "Failed to read the item response." },
+        raw: "",
+        errorCode: "invalid_response",
+      } satisfies ApiResponse;
+    }
+  });
+
+  return NextResponse.json(
+    { items: results, durationMs: Date.now() - start } satisfies BatchResponse,
+    { headers: { "Cache-Control": "no-store" } }
+  );
+};
+
+export async function POST(request: NextRequest) {
+  // Only the items count towards metrics; the batch itself is still logged and traced.
+  return withRequestTelemetry(
+    request,
+    "/api/maps/batch",
+    (telemetry) => handleBatch(request, telemetry),
+    { recordMetrics: false }
+  );
+}
@@ -0,0 +1,21 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getRateLimitKeys, peekDailyQuota, peekRateLimit } from "@/app/lib/proxy/rateLimit";
+import type { BudgetSnapshot, EndpointFamily } from "@/app/lib/types";
+
+const FAMILIES: EndpointFamily[] = ["search", "route", "weather", "render"];
+
+export async function GET(request: NextRequest) {
+  const keys = getRateLimitKeys(request);
+  const daily = peekDailyQuota();
+
+  return NextResponse.json(
+    {
+      families: FAMILIES.map((family) => {
+        const status = peekRateLimit(keys, family);
+        return { ...status, resetAt: new Date(status.resetAt).toISOString() };
+      }),
+      daily: daily ? { ...daily, resetAt: new Date(daily.resetAt).toISOString() } : null,
+    } satisfies BudgetSnapshot,
+    { headers: { "Cache-Control": "no-store" } }
+  );
+}
@@ -0,0 +1,22 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { SESSION_COOKIE, renewSession, sessionCookieOptions } from "@/app/lib/auth/session";
+
+// Renews the session the page was served with; new sessions only come with the page.
+export async function POST(request: NextRequest) {
+  const renewed = renewSession(request, request.cookies.get(SESSION_COOKIE)?.value);
+  if (!renewed) {
+    return NextResponse.json(
+      {
+        message: "The explorer session can't be renewed. Reload the page.",
+        errorCode: "session_required",
+      },
+      { status: 401 }
+    );
+  }
+
+  const response = NextResponse.json({
+    expiresOn: new Date(renewed.session.expiresAt).toISOString(),
+  });
+  response.cookies.set(SESSION_COOKIE, renewed.cookieValue, sessionCookieOptions());
+  return response;
+}
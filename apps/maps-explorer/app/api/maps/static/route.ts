@@ -1,8 +1,21 @@
-import { NextResponse } from "next/server";
-import { getMapsAccessToken } from "@/app/lib/auth/token";
-
-const DEFAULT_BASE_URL =
-  process.env.AZURE_MAPS_BASE_URL ?? "https://atlas.microsoft.com";
+import { NextResponse, type NextRequest } from "next/server";
+import { describeTokenError } from "@/app/lib/auth/errors";
+import { getMapsToken } from "@/app/lib/auth/token";
+import { resolveBaseUrl, upstreamFetchInit } from "@/app/lib/proxy/baseUrl";
+import {
+  consumeDailyQuota,
+  consumeRateLimit,
+  getRateLimitKeys,
+  rateLimitHeaders,
+  rateLimitedResponse,
+} from "@/app/lib/proxy/rateLimit";
+import { createUpstreamAbort, getUpstreamTimeoutMs } from "@/app/lib/proxy/upstream";
+import {
+  redactUrl,
+  withRequestTelemetry,
+  type RequestTelemetry,
+} from "@/app/lib/telemetry/requestLog";
+import { toTraceparent, withSpan } from "@/app/lib/telemetry/tracing";
 
 const clamp = (value: number, min: number, max: number) =>
   Math.min(Math.max(value, min), max);
@@ -13,18 +26,6 @@ const toNumber = (value: string | null) => {
   return Number.isFinite(parsed) ? parsed : null;
 };
 
-const getSafeBaseUrl = (value?: string) => {
-  const candidate = value ?? DEFAULT_BASE_URL;
-  try {
-    const parsed = new URL(candidate);
-    if (parsed.protocol !== "https:") throw new Error("invalid_base_url");
-    if (parsed.search || parsed.hash) throw new Error("invalid_base_url");
-    return `${parsed.origin}${parsed.pathname}`.replace(/\/$/, "");
-  } catch {
-    return null;
-  }
-};
-
 type MapRequestBody = {
   lat?: number;
   lon?: number;
@@ -39,6 +40,8 @@ type MapRequestBody = {
 };
 
 const buildMapResponse = async (input: {
+  request: NextRequest;
+  telemetry: RequestTelemetry;
   lat: number | null;
   lon: number | null;
   zoomRaw: number;
@@ -47,7 +50,22 @@ const buildMapResponse = async (input: {
   baseUrl?: string;
   auth?: MapRequestBody["auth"];
 }) => {
-  const { lat, lon, zoomRaw, widthRaw, heightRaw, baseUrl, auth } = input;
+  const { request, telemetry, lat, lon, zoomRaw, widthRaw, heightRaw, baseUrl, auth } = input;
+  telemetry.annotate({
+    endpoint: "map-static-png",
+    family: "render",
+    path: "map/static/png",
+    method: "GET",
+  });
+
+  const rateLimit = consumeRateLimit(getRateLimitKeys(request), "render");
+  if (!rateLimit.allowed) {
+    return rateLimitedResponse(
+      "Rate limit for render requests exceeded.",
+      rateLimit.resetAt,
+      rateLimitHeaders(rateLimit, null)
+    );
+  }
 
   if (lat === null || lon === null) {
     return NextResponse.json(
@@ -60,15 +78,15 @@ const buildMapResponse = async (input: {
   const width = clamp(Math.round(widthRaw), 240, 1280);
   const height = clamp(Math.round(heightRaw), 160, 960);
 
-  const safeBaseUrl = getSafeBaseUrl(baseUrl);
-  if (!safeBaseUrl) {
+  const safeBaseUrl = await resolveBaseUrl(baseUrl);
+  if (!safeBaseUrl.ok) {
     return NextResponse.json(
-      { message: "AZURE_MAPS_BASE_URL must be a valid https URL." },
-      { status: 500 }
+      { message: safeBaseUrl.message, errorCode: safeBaseUrl.errorCode },
+      { status: safeBaseUrl.errorCode === "base_url_not_allowed" ? 403 : 400 }
     );
   }
 
-  const mapUrl = new URL(`${safeBaseUrl}/map/static/png`);
+  const mapUrl = new URL(`${safeBaseUrl.baseUrl}/map/static/png`);
   mapUrl.searchParams.set("api-version", "2022-08-01");
   mapUrl.searchParams.set("format", "png");
   mapUrl.searchParams.set("center", `${lon},${lat}`);
@@ -82,8 +100,10 @@ const buildMapResponse = async (input: {
   const mapsClientId = auth?.clientId ?? process.env.AZURE_MAPS_CLIENT_ID;
 
   let authHeaders: Record<string, string> = {};
+  let authSource = "subscription-key";
   if (mapsKey) {
     authHeaders = { "subscription-key": mapsKey };
+    telemetry.annotate({ authSource });
   } else {
     if (!mapsClientId) {
       return NextResponse.json(
@@ -93,37 +113,107 @@ const buildMapResponse = async (input: {
     }
 
     try {
-      const token = await getMapsAccessToken();
+      const token = await withSpan("maps.token", {}, telemetry.span, async (span) => {
+        const acquired = await getMapsToken();
+        span.setAttribute("maps.auth_source", acquired.provider);
+        return acquired;
+      });
       authHeaders = {
-        Authorization: `Bearer ${token}`,
+        Authorization: `Bearer ${token.accessToken}`,
         "x-ms-client-id": mapsClientId,
       };
+      authSource = token.provider;
+      telemetry.annotate({ authSource });
     } catch (error) {
-      const message = error instanceof Error ? error.message : "token_error";
+      const { message, errorCode } = describeTokenError(error);
       return NextResponse.json(
-        { message },
+        { message, errorCode },
         { status: 500 }
       );
     }
   }
 
-  const upstream = await fetch(mapUrl.toString(), {
-    method: "GET",
-    headers: {
-      ...authHeaders,
-    },
-    cache: "no-store",
-  });
+  const dailyQuota = consumeDailyQuota();
+  if (!dailyQuota.allowed && dailyQuota.quota) {
+    return rateLimitedResponse(
+      "Daily Azure Maps transaction cap reached.",
+      dailyQuota.quota.resetAt,
+      rateLimitHeaders(rateLimit, dailyQuota.quota)
+    );
+  }
 
-  if (!upstream.ok) {
-    const text = await upstream.text();
+  const timeoutMs = getUpstreamTimeoutMs("render");
+  const abort = createUpstreamAbort(request.signal, timeoutMs);
+  let upstream: Response;
+  let buffer: ArrayBuffer;
+  try {
+    upstream = await withSpan(
+      "maps.upstream",
+      {
+        "http.request.method": "GET",
+        "url.full": redactUrl(mapUrl.toString()),
+        "maps.family": "render",
+      },
+      telemetry.span,
+      async (span) => {
+        const response = await fetch(
+          mapUrl.toString(),
+          upstreamFetchInit({
+            method: "GET",
+            headers: {
+              ...authHeaders,
+              traceparent: toTraceparent(span),
+            },
+            signal: abort.signal,
+            cache: "no-store",
+          })
+        );
+        span.setAttribute("http.response.status_code", response.status);
+        return response;
+      }
+    );
+    telemetry.annotate({
+      attempts: 1,
+      upstreamStatus: upstream.status,
+      upstreamRequestId: upstream.headers.get("x-ms-request-id") ?? undefined,
+      trackingId: upstream.headers.get("x-ms-azuremaps-tracking-id") ?? undefined,
+    });
+
+    if (!upstream.ok) {
+      const text = await upstream.text();
+      return NextResponse.json(
+        { message: "Failed to fetch map image.", details: text },
+        { status: upstream.status }
+      );
+    }
+    buffer = await upstream.arrayBuffer();
+  } catch (error) {
+    const abortReason = abort.reason();
+    if (abortReason === "timeout") {
+      return NextResponse.json(
+        {
+          message: `Upstream request timed out after ${timeoutMs}ms.`,
+          errorCode: "upstream_timeout",
+        },
+        { status: 504 }
+      );
+    }
     return NextResponse.json(
-      { message: "Failed to fetch map image.", details: text },
-      { status: upstream.status }
+      {
+        message:
+          abortReason === "client"
+            ? "Client closed the request."
+            : error instanceof Error
+            ? error.message
+            : "request_failed",
+        errorCode: "request_failed",
+      },
+      { status: abortReason === "client" ? 499 : 502 }
     );
+  } finally {
+    abort.dispose();
   }
 
-  const buffer = await upstream.arrayBuffer();
   const contentType = upstream.headers.get("content-type") ?? "image/png";
 
   return new NextResponse(buffer, {
@@ -131,11 +221,12 @@ const buildMapResponse = async (input: {
     headers: {
       "Content-Type": contentType,
       "Cache-Control": "public, max-age=60",
+      "x-maps-auth-source": authSource,
     },
   });
 };
 
-export async function GET(request: Request) {
+export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url);
   const lat = toNumber(searchParams.get("lat"));
   const lon = toNumber(searchParams.get("lon"));
@@ -143,16 +234,20 @@ export async function GET(request: Request) {
   const widthRaw = toNumber(searchParams.get("width")) ?? 640;
   const heightRaw = toNumber(searchParams.get("height")) ?? 320;
 
-  return buildMapResponse({
-    lat,
-    lon,
-    zoomRaw,
-    widthRaw,
-    heightRaw,
-  });
+  return withRequestTelemetry(request, "/api/maps/static", (telemetry) =>
+    buildMapResponse({
+      request,
+      telemetry,
+      lat,
+      lon,
+      zoomRaw,
+      widthRaw,
+      heightRaw,
+    })
+  );
 }
 
-export async function POST(request: Request) {
+export async function POST(request: NextRequest) {
   let payload: MapRequestBody | null = null;
   try {
     payload = (await request.json()) as MapRequestBody;
@@ -166,13 +261,17 @@ export async function POST(request: Request) {
   const widthRaw = typeof payload?.width === "number" ? payload.width : 640;
   const heightRaw = typeof payload?.height === "number" ? payload.height : 320;
 
-  return buildMapResponse({
-    lat,
-    lon,
-    zoomRaw,
-    widthRaw,
-    heightRaw,
-    baseUrl: payload?.baseUrl,
-    auth: payload?.auth,
-  });
+  return withRequestTelemetry(request, "/api/maps/static", (telemetry) =>
+    buildMapResponse({
+      request,
+      telemetry,
+      lat,
+      lon,
+      zoomRaw,
+      widthRaw,
+      heightRaw,
+      baseUrl: payload?.baseUrl,
+      auth: payload?.auth,
+    })
+  );
 }
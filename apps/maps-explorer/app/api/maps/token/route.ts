@@ -1,12 +1,89 @@
-import { NextResponse } from "next/server";
-import { getMapsAccessToken } from "@/app/lib/auth/token";
+import { NextResponse, type NextRequest } from "next/server";
+import { describeTokenError } from "@/app/lib/auth/errors";
+import { getMapsToken, getDefaultMapsScope } from "@/app/lib/auth/token";
+import {
+  SESSION_COOKIE,
+  getClientIp,
+  hasValidCsrfToken,
+  isSameOriginRequest,
+  verifySession,
+} from "@/app/lib/auth/session";
+import { withRequestTelemetry, type RequestTelemetry } from "@/app/lib/telemetry/requestLog";
+import { withSpan } from "@/app/lib/telemetry/tracing";
+
+const getBrowserTokenTtlMs = () => {
+  const parsed = Number.parseInt(process.env.AZURE_MAPS_BROWSER_TOKEN_TTL_SECONDS ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed * 1000 : null;
+};
+
+const issueBrowserToken = async (request: NextRequest, telemetry: RequestTelemetry) => {
+  if (!isSameOriginRequest(request)) {
+    return NextResponse.json(
+      { message: "Cross-origin token requests are not allowed.", errorCode: "forbidden_origin" },
+      { status: 403 }
+    );
+  }
+
+  const session = verifySession(request.cookies.get(SESSION_COOKIE)?.value);
+  if (!session) {
+    return NextResponse.json(
+      { message: "A valid explorer session is required.", errorCode: "session_required" },
+      { status: 401 }
+    );
+  }
+  if (!hasValidCsrfToken(request, session)) {
+    return NextResponse.json(
+      { message: "Token requests must come from the explorer page.", errorCode: "invalid_csrf" },
+      { status: 403 }
+    );
+  }
+
+  const scope = process.env.AZURE_MAPS_BROWSER_SCOPE ?? getDefaultMapsScope();
 
-export async function GET() {
   try {
-    const token = await getMapsAccessToken();
-    return NextResponse.json({ token });
+    const { accessToken, expiresAt, provider } = await withSpan(
+      "maps.token",
+      { "maps.scope": scope },
+      telemetry.span,
+      async (span) => {
+        const acquired = await getMapsToken({ scope });
+        span.setAttribute("maps.auth_source", acquired.provider);
+        return acquired;
+      }
+    );
+    telemetry.annotate({ authSource: provider });
+    // The reported expiry only tells the browser when to refresh: the token
+    // itself stays valid for its full Entra lifetime.
+    const ttlMs = getBrowserTokenTtlMs();
+    const expiresOn = Math.min(
+      expiresAt,
+      session.expiresAt,
+      ttlMs ? Date.now() + ttlMs : expiresAt
+    );
+
+    console.info(
+      JSON.stringify({
+        event: "maps_token_issued",
+        sessionId: session.id,
+        clientIp: getClientIp(request),
+        scope,
+        provider,
+        expiresOn: new Date(expiresOn).toISOString(),
+      })
+    );
+
+    return NextResponse.json(
+      { token: accessToken, expiresOn: new Date(expiresOn).toISOString() },
+      { headers: { "Cache-Control": "no-store" } }
+    );
   } catch (error) {
-    const message = error instanceof Error ? error.message : "token_error";
-    return NextResponse.json({ message }, { status: 500 });
+    const { message, errorCode } = describeTokenError(error);
+    return NextResponse.json({ message, errorCode }, { status: 500 });
   }
+};
+
+export async function GET(request: NextRequest) {
+  return withRequestTelemetry(request, "/api/maps/token", (telemetry) =>
+    issueBrowserToken(request, telemetry)
+  );
 }
@@ -0,0 +1,15 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getFinishedSpans } from "@/app/lib/telemetry/tracing";
+
+// Only served with MAPS_TRACE_EXPORTER=memory, for offline tests and local debugging.
+export async function GET(request: NextRequest) {
+  const spans = getFinishedSpans();
+  if (!spans) {
+    return NextResponse.json({ message: "Not found." }, { status: 404 });
+  }
+  const traceId = request.nextUrl.searchParams.get("traceId");
+  return NextResponse.json(
+    { spans: traceId ? spans.filter((span) => span.traceId === traceId) : spans },
+    { headers: { "Cache-Control": "no-store" } }
+  );
+}
@@ -0,0 +1,15 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { hasMetricsToken, renderPrometheus } from "@/app/lib/telemetry/metrics";
+
+// Scrapers authenticate with MAPS_METRICS_TOKEN when it is set.
+export async function GET(request: NextRequest) {
+  if (process.env.MAPS_METRICS_TOKEN && !hasMetricsToken(request)) {
+    return NextResponse.json({ message: "Unauthorized." }, { status: 401 });
+  }
+  return new NextResponse(renderPrometheus(), {
+    headers: {
+      "Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+      "Cache-Control": "no-store",
+    },
+  });
+}
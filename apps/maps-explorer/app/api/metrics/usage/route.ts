@@ -0,0 +1,23 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { SESSION_COOKIE, hasValidCsrfToken, verifySession } from "@/app/lib/auth/session";
+import { hasMetricsToken, summarizeUsage } from "@/app/lib/telemetry/metrics";
+
+// The Usage panel reads this with the page's session; scrapers can use MAPS_METRICS_TOKEN.
+export async function GET(request: NextRequest) {
+  if (!hasMetricsToken(request)) {
+    const session = verifySession(request.cookies.get(SESSION_COOKIE)?.value);
+    if (!session) {
+      return NextResponse.json(
+        { message: "A valid explorer session is required.", errorCode: "session_required" },
+        { status: 401 }
+      );
+    }
+    if (!hasValidCsrfToken(request, session)) {
+      return NextResponse.json(
+        { message: "Usage requests must come from the explorer page.", errorCode: "invalid_csrf" },
+        { status: 403 }
+      );
+    }
+  }
+  return NextResponse.json(summarizeUsage(), { headers: { "Cache-Control": "no-store" } });
+}
@@ -1,62 +1,34 @@
 import { NextResponse } from "next/server";
+import { applyMockScenario, readMockScenario } from "@/app/lib/mock/faults";
+import { mockMapsResponse } from "@/app/lib/mock/maps";
+import { decodeUpstreamBody } from "@/app/lib/proxy/body";
 import type { ApiResponse, RequestShape } from "@/app/lib/types";
 import { normalizePath } from "@/app/lib/validation";
 
-const sampleGeocode = {
-  summary: {
-    query: "1 Microsoft Way, Redmond, WA",
-    type: "Geocode",
-    numResults: 1,
-    offset: 0,
-    totalResults: 1,
-    fuzzyLevel: 1,
-  },
-  results: [
-    {
-      type: "Point Address",
-      position: {
-        lat: 47.6396,
-        lon: -122.1282,
-      },
-      address: {
-        streetNumber: "1",
-        streetName: "Microsoft Way",
-        municipality: "Redmond",
-        countrySubdivision: "WA",
-        postalCode: "98052",
-        countryCode: "US",
-        country: "United States",
-      },
-    },
-  ],
+const STATUS_TEXT: Record<number, string> = {
+  200: "OK",
+  400: "Bad Request",
+  401: "Unauthorized",
+  403: "Forbidden",
+  404: "Not Found",
+  429: "Too Many Requests",
+  500: "Internal Server Error",
 };
 
-const sampleReverse = {
-  summary: {
-    query: "47.6396,-122.1282",
-    type: "Reverse Geocode",
-    numResults: 1,
-    offset: 0,
-    totalResults: 1,
-  },
-  addresses: [
-    {
-      address: {
-        streetNumber: "1",
-        streetName: "Microsoft Way",
-        municipality: "Redmond",
-        countrySubdivision: "WA",
-        postalCode: "98052",
-        countryCode: "US",
-        country: "United States",
-      },
-      position: {
-        lat: 47.6396,
-        lon: -122.1282,
-      },
-    },
-  ],
-};
+// Resolves false when the client disconnects first.
+const wait = (ms: number, signal: AbortSignal) =>
+  new Promise<boolean>((resolve) => {
+    if (signal.aborted) return resolve(false);
+    const onAbort = () => {
+      clearTimeout(handle);
+      resolve(false);
+    };
+    const handle = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve(true);
+    }, ms);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
 
 export async function POST(request: Request) {
   let payload: RequestShape | null = null;
@@ -66,24 +38,89 @@ export async function POST(request: Request) {
     payload = null;
   }
 
-  const path = normalizePath(payload?.path ?? "");
-  const isReverse = path.includes("reverse");
   const start = Date.now();
+  const path = normalizePath(payload?.path ?? "");
+  const url = `mock://${path}`;
+  const selection = readMockScenario(request);
+  if (!selection.ok) {
+    return NextResponse.json(
+      {
+        meta: { status: 400, statusText: "Bad Request", headers: {}, durationMs: 0, url },
+        body: { message: selection.message },
+        raw: "",
+      } satisfies ApiResponse,
+      { status: 400 }
+    );
+  }
 
-  const body = isReverse ? sampleReverse : sampleGeocode;
+  const { scenario, latencyMs } = selection;
+  if (scenario === "slow" || scenario === "timeout") {
+    const completed = await wait(latencyMs, request.signal);
+    if (!completed) {
+      return NextResponse.json(
+        {
+          meta: {
+            status: 499,
+            statusText: "Client Closed Request",
+            headers: {},
+            durationMs: Date.now() - start,
+            url,
+          },
+          body: { message: "Client closed the request." },
+          raw: "",
+          errorCode: "request_failed",
+        } satisfies ApiResponse,
+        { status: 499 }
+      );
+    }
+  }
+  // Same envelope the proxy returns when the upstream family timeout elapses.
+  if (scenario === "timeout") {
+    return NextResponse.json(
+      {
+        meta: {
+          status: 504,
+          statusText: "Upstream Timeout",
+          headers: {},
+          durationMs: Date.now() - start,
+          url,
+        },
+        body: { message: `Upstream request timed out after ${latencyMs}ms.` },
+        raw: "",
+        errorCode: "upstream_timeout",
+      } satisfies ApiResponse,
+      { status: 504 }
+    );
+  }
+
+  const mock = applyMockScenario(
+    scenario,
+    await mockMapsResponse({
+      path,
+      params: payload?.params ?? {},
+      method: payload?.method ?? "GET",
+      body: payload?.body,
+    })
+  );
+  const decoded = Buffer.isBuffer(mock.body)
+    ? decodeUpstreamBody(mock.body, mock.contentType)
+    : { body: mock.body, raw: JSON.stringify(mock.body, null, 2) };
 
   return NextResponse.json(
     {
       meta: {
-        status: 200,
-        statusText: "OK",
-        headers: { "content-type": "application/json" },
+        status: mock.status,
+        statusText: STATUS_TEXT[mock.status] ?? "",
+        headers: {
+          ...mock.headers,
+          "content-type": mock.contentType,
+          "x-ms-request-id": crypto.randomUUID(),
+        },
         durationMs: Date.now() - start,
-        url: `mock://${path || "search/address/json"}`,
+        url,
       },
-      body,
-      raw: JSON.stringify(body, null, 2),
+      ...decoded,
     } satisfies ApiResponse,
-    { status: 200 }
+    { status: mock.status }
   );
 }
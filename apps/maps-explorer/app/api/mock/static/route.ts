@@ -0,0 +1,70 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { renderMockStaticMap } from "@/app/lib/mock/maps";
+
+const toNumber = (value: string | null) => {
+  if (!value) return null;
+  const parsed = Number.parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+type MapRequestBody = {
+  lat?: number;
+  lon?: number;
+  zoom?: number;
+  width?: number;
+  height?: number;
+};
+
+// Offline stand-in for /api/maps/static: same parameters, placeholder image.
+const buildMapResponse = (input: {
+  lat: number | null;
+  lon: number | null;
+  zoom: number;
+  width: number;
+  height: number;
+}) => {
+  const { lat, lon, zoom, width, height } = input;
+  if (lat === null || lon === null) {
+    return NextResponse.json(
+      { message: "lat and lon query params are required." },
+      { status: 400 }
+    );
+  }
+
+  const image = renderMockStaticMap({ lat, lon }, zoom, width, height);
+  return new NextResponse(new Uint8Array(image), {
+    status: 200,
+    headers: {
+      "Content-Type": "image/png",
+      "Cache-Control": "public, max-age=60",
+    },
+  });
+};
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  return buildMapResponse({
+    lat: toNumber(searchParams.get("lat")),
+    lon: toNumber(searchParams.get("lon")),
+    zoom: toNumber(searchParams.get("zoom")) ?? 14,
+    width: toNumber(searchParams.get("width")) ?? 640,
+    height: toNumber(searchParams.get("height")) ?? 320,
+  });
+}
+
+export async function POST(request: NextRequest) {
+  let payload: MapRequestBody | null = null;
+  try {
+    payload = (await request.json()) as MapRequestBody;
+  } catch {
+    payload = null;
+  }
+
+  return buildMapResponse({
+    lat: typeof payload?.lat === "number" ? payload.lat : null,
+    lon: typeof payload?.lon === "number" ? payload.lon : null,
+    zoom: typeof payload?.zoom === "number" ? payload.zoom : 14,
+    width: typeof payload?.width === "number" ? payload.width : 640,
+    height: typeof payload?.height === "number" ? payload.height : 320,
+  });
+}
@@ -1,11 +1,18 @@
 import type { Metadata } from "next";
+import { cookies } from "next/headers";
+import { SESSION_COOKIE, csrfTokenFor, verifySession } from "./lib/auth/session";
 import "./globals.css";
 
-export const metadata: Metadata = {
-  title: "Azure Maps API Explorer",
-  description:
-    "Explore geocoding, reverse geocoding, autocomplete, routing, weather, and IP geolocation scenarios.",
-};
+export async function generateMetadata(): Promise<Metadata> {
+  // proxy.ts starts the session; its CSRF token is what lets the page fetch map tokens.
+  const session = verifySession((await cookies()).get(SESSION_COOKIE)?.value);
+  return {
+    title: "Azure Maps API Explorer",
+    description:
+      "Explore geocoding, reverse geocoding, autocomplete, routing, weather, and IP geolocation scenarios.",
+    ...(session ? { other: { "maps-csrf": csrfTokenFor(session) } } : {}),
+  };
+}
 
 export default function RootLayout({
   children,
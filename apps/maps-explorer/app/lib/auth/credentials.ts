@@ -0,0 +1,261 @@
+import "server-only";
+import { readFile } from "node:fs/promises";
+import { X509Certificate, createPrivateKey, createSign, randomUUID } from "node:crypto";
+import type { CredentialProviderName } from "../types";
+import { TokenError, tokenErrorFromResponse } from "./errors";
+
+export type AcquiredToken = {
+  accessToken: string;
+  expiresAt: number;
+};
+
+export type CredentialProvider = {
+  name: CredentialProviderName;
+  isAvailable: () => boolean;
+  getToken: (scope: string) => Promise<AcquiredToken>;
+};
+
+const IMDS_ENDPOINT = "http://169.254.169.254/metadata/identity/oauth2/token";
+const CLIENT_ASSERTION_TYPE = "urn:ietf:params:oauth:client-assertion-type:jwt-bearer";
+
+const getAuthorityHost = () =>
+  (process.env.AZURE_AUTHORITY_HOST ?? "https://login.microsoftonline.com").replace(/\/$/, "");
+
+const getTokenEndpoint = (tenantId: string) =>
+  `${getAuthorityHost()}/${tenantId}/oauth2/v2.0/token`;
+
+const requireEnv = (name: string) => {
+  const value = process.env[name];
+  if (!value) {
+    throw new TokenError("missing_credentials", `${name} is not set.`);
+  }
+  return value;
+};
+
+// Managed identity endpoints take a resource, not a v2 scope.
+const scopeToResource = (scope: string) => scope.replace(/\/\.default$/, "");
+
+const fetchTokenEndpoint = async (
+  provider: CredentialProviderName,
+  input: string | URL,
+  init: RequestInit
+) => {
+  let response: Response;
+  try {
+    response = await fetch(input, { ...init, cache: "no-store" });
+  } catch (error) {
+    throw new TokenError("token_endpoint_unreachable", "Token endpoint could not be reached.", {
+      provider,
+      retryable: true,
+      details: error instanceof Error ? error.message : undefined,
+    });
+  }
+
+  if (!response.ok) {
+    throw tokenErrorFromResponse(response.status, await response.text(), provider);
+  }
+
+  const payload = (await response.json().catch(() => null)) as {
+    access_token?: string;
+    expires_in?: string | number;
+    expires_on?: string | number;
+  } | null;
+  if (!payload?.access_token) {
+    throw new TokenError("invalid_token_response", "Token endpoint returned no access token.", {
+      provider,
+    });
+  }
+
+  // Managed identity endpoints report expires_on (epoch seconds); AAD reports expires_in.
+  const expiresOn = Number(payload.expires_on);
+  const expiresIn = Number(payload.expires_in);
+  return {
+    accessToken: payload.access_token,
+    expiresAt: Number.isFinite(expiresOn)
+      ? expiresOn * 1000
+      : Date.now() + (Number.isFinite(expiresIn) ? expiresIn : 3600) * 1000,
+  };
+};
+
+const requestClientCredentials = (
+  provider: CredentialProviderName,
+  tenantId: string,
+  params: Record<string, string>
+): Promise<AcquiredToken> =>
+  fetchTokenEndpoint(provider, getTokenEndpoint(tenantId), {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/x-www-form-urlencoded",
+    },
+    body: new URLSearchParams({ grant_type: "client_credentials", ...params }),
+  });
+
+const managedIdentity: CredentialProvider = {
+  name: "managed-identity",
+  isAvailable: () =>
+    Boolean(
+      (process.env.IDENTITY_ENDPOINT && process.env.IDENTITY_HEADER) ||
+        process.env.AZURE_IMDS_ENDPOINT ||
+        process.env.AZURE_MANAGED_IDENTITY_CLIENT_ID
+    ),
+  getToken: async (scope) => {
+    const identityClientId = process.env.AZURE_MANAGED_IDENTITY_CLIENT_ID;
+    const appServiceEndpoint = process.env.IDENTITY_ENDPOINT;
+    const appServiceHeader = process.env.IDENTITY_HEADER;
+
+    let url: URL;
+    let headers: Record<string, string>;
+    if (appServiceEndpoint && appServiceHeader) {
+      url = new URL(appServiceEndpoint);
+      url.searchParams.set("api-version", "2019-08-01");
+      headers = { "X-IDENTITY-HEADER": appServiceHeader };
+    } else {
+      url = new URL(process.env.AZURE_IMDS_ENDPOINT ?? IMDS_ENDPOINT);
+      url.searchParams.set("api-version", "2018-02-01");
+      headers = { Metadata: "true" };
+    }
+    url.searchParams.set("resource", scopeToResource(scope));
+    if (identityClientId) {
+      url.searchParams.set("client_id", identityClientId);
+    }
+
+    return fetchTokenEndpoint("managed-identity", url, {
+      headers,
+      signal: AbortSignal.timeout(5_000),
+    });
+  },
+};
+
+const workloadIdentity: CredentialProvider = {
+  name: "workload-identity",
+  isAvailable: () =>
+    Boolean(
+      process.env.AZURE_FEDERATED_TOKEN_FILE &&
+        process.env.AZURE_CLIENT_ID &&
+        process.env.AZURE_TENANT_ID
+    ),
+  getToken: async (scope) => {
+    // The projected token is rotated on disk, so read it for every request.
+    const assertion = (await readFile(requireEnv("AZURE_FEDERATED_TOKEN_FILE"), "utf8")).trim();
+    return requestClientCredentials("workload-identity", requireEnv("AZURE_TENANT_ID"), {
+      client_id: requireEnv("AZURE_CLIENT_ID"),
+      client_assertion: assertion,
+      client_assertion_type: CLIENT_ASSERTION_TYPE,
+      scope,
+    });
+  },
+};
+
+const toBase64Url = (value: string | Buffer) => Buffer.from(value).toString("base64url");
+
+const buildClientAssertion = (pem: string, clientId: string, audience: string) => {
+  const certificateMatch = pem.match(
+    /-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/
+  );
+  if (!certificateMatch) {
+    throw new TokenError("missing_credentials", "Client certificate PEM has no certificate block.");
+  }
+  const certificate = new X509Certificate(certificateMatch[0]);
+  const privateKey = createPrivateKey({
+    key: pem,
+    passphrase: process.env.AZURE_CLIENT_CERTIFICATE_PASSWORD,
+  });
+
+  const thumbprint = Buffer.from(certificate.fingerprint.replace(/:/g, ""), "hex");
+  const now = Math.floor(Date.now() / 1000);
+  const header = toBase64Url(JSON.stringify({ alg: "RS256", typ: "JWT", x5t: toBase64Url(thumbprint) }));
+  const claims = toBase64Url(
+    JSON.stringify({
+      aud: audience,
+      iss: clientId,
+      sub: clientId,
+      jti: randomUUID(),
+      nbf: now,
+      iat: now,
+      exp: now + 600,
+    })
+  );
+  const signature = createSign("RSA-SHA256").update(`${header}.${claims}`).sign(privateKey);
+  return `${header}.${claims}.${toBase64Url(signature)}`;
+};
+
+const certificate: CredentialProvider = {
+  name: "certificate",
+  isAvailable: () =>
+    Boolean(
+      process.env.AZURE_CLIENT_CERTIFICATE_PATH &&
+        process.env.AZURE_CLIENT_ID &&
+        process.env.AZURE_TENANT_ID
+    ),
+  getToken: async (scope) => {
+    const tenantId = requireEnv("AZURE_TENANT_ID");
+    const clientId = requireEnv("AZURE_CLIENT_ID");
+    const pem = await readFile(requireEnv("AZURE_CLIENT_CERTIFICATE_PATH"), "utf8");
+    return requestClientCredentials("certificate", tenantId, {
+      client_id: clientId,
+      client_assertion: buildClientAssertion(pem, clientId, getTokenEndpoint(tenantId)),
+      client_assertion_type: CLIENT_ASSERTION_TYPE,
+      scope,
+    });
+  },
+};
+
+const clientSecret: CredentialProvider = {
+  name: "client-secret",
+  isAvailable: () =>
+    Boolean(
+      process.env.AZURE_CLIENT_SECRET && process.env.AZURE_CLIENT_ID && process.env.AZURE_TENANT_ID
+    ),
+  getToken: async (scope) =>
+    requestClientCredentials("client-secret", requireEnv("AZURE_TENANT_ID"), {
+      client_id: requireEnv("AZURE_CLIENT_ID"),
+      client_secret: requireEnv("AZURE_CLIENT_SECRET"),
+      scope,
+    }),
+};
+
+const providers: CredentialProvider[] = [
+  managedIdentity,
+  workloadIdentity,
+  certificate,
+  clientSecret,
+];
+
+/**
+ * Returns the providers to try, in order. AZURE_CREDENTIAL_CHAIN can restrict
+ * or reorder them, e.g. "workload-identity,client-secret".
+ */
+export const getCredentialChain = () => {
+  const configured = (process.env.AZURE_CREDENTIAL_CHAIN ?? "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+  if (configured.length === 0) return providers;
+  return configured
+    .map((name) => providers.find((provider) => provider.name === name))
+    .filter((provider): provider is CredentialProvider => Boolean(provider));
+};
+
+export const acquireToken = async (
+  scope: string
+): Promise<AcquiredToken & { provider: CredentialProviderName }> => {
+  const available = getCredentialChain().filter((provider) => provider.isAvailable());
+  if (available.length === 0) {
+    throw new TokenError("missing_credentials", "No Entra credential provider is configured.");
+  }
+
+  let lastError: unknown = null;
+  for (const provider of available) {
+    try {
+      const token = await provider.getToken(scope);
+      return { ...token, provider: provider.name };
+    } catch (error) {
+      lastError = error;
+    }
+  }
+  throw lastError instanceof TokenError
+    ? lastError
+    : new TokenError("token_request_failed", "Failed to acquire an access token.", {
+        details: lastError instanceof Error ? lastError.message : undefined,
+      });
+};
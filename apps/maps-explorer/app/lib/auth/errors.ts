@@ -0,0 +1,75 @@
+import type { ApiErrorCode, CredentialProviderName } from "../types";
+
+export type TokenErrorCode =
+  | "missing_credentials"
+  | "token_request_failed"
+  | "token_endpoint_unreachable"
+  | "invalid_token_response";
+
+/**
+ * Failure while acquiring an Entra token. `message` is safe to return to the
+ * browser; the raw token endpoint response stays in `details` for server logs.
+ */
+export class TokenError extends Error {
+  readonly code: TokenErrorCode;
+  readonly status?: number;
+  readonly provider?: CredentialProviderName;
+  readonly retryable: boolean;
+  readonly details?: string;
+
+  constructor(
+    code: TokenErrorCode,
+    message: string,
+    options: {
+      status?: number;
+      provider?: CredentialProviderName;
+      retryable?: boolean;
+      details?: string;
+    } = {}
+  ) {
+    super(message);
+    this.name = "TokenError";
+    this.code = code;
+    this.status = options.status;
+    this.provider = options.provider;
+    this.retryable = options.retryable ?? false;
+    this.details = options.details;
+  }
+}
+
+// AAD error bodies carry trace and correlation ids; only the error code is surfaced.
+export const tokenErrorFromResponse = (
+  status: number,
+  text: string,
+  provider: CredentialProviderName
+) => {
+  let reason = "";
+  try {
+    const payload = JSON.parse(text) as { error?: string; error_codes?: number[] };
+    reason = payload.error_codes?.[0] ? `AADSTS${payload.error_codes[0]}` : payload.error ?? "";
+  } catch {
+    reason = "";
+  }
+  return new TokenError(
+    "token_request_failed",
+    `Token request failed with status ${status}${reason ? ` (${reason})` : ""}.`,
+    {
+      status,
+      provider,
+      retryable: status === 429 || status >= 500,
+      details: text,
+    }
+  );
+};
+
+export const describeTokenError = (
+  error: unknown
+): { message: string; errorCode: Extract<ApiErrorCode, "missing_credentials" | "token_error"> } => {
+  if (error instanceof TokenError) {
+    return {
+      message: error.message,
+      errorCode: error.code === "missing_credentials" ? "missing_credentials" : "token_error",
+    };
+  }
+  return { message: "Failed to acquire an access token.", errorCode: "token_error" };
+};
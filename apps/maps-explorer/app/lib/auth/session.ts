@@ -0,0 +1,161 @@
+import "server-only";
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from "node:crypto";
+
+export const SESSION_COOKIE = "maps-explorer-session";
+
+const DEFAULT_SESSION_TTL_SECONDS = 15 * 60;
+
+// Without a configured secret, sessions only survive for the life of this process.
+// proxy.ts is bundled apart from the routes, so the fallback is shared via globalThis.
+const FALLBACK_SECRET = Symbol.for("maps-explorer.session-secret");
+
+const getSecret = () => {
+  if (process.env.MAPS_SESSION_SECRET) return process.env.MAPS_SESSION_SECRET;
+  const shared = globalThis as typeof globalThis & { [FALLBACK_SECRET]?: string };
+  shared[FALLBACK_SECRET] ??= randomBytes(32).toString("hex");
+  return shared[FALLBACK_SECRET];
+};
+
+export const getSessionTtlSeconds = () => {
+  const parsed = Number.parseInt(process.env.MAPS_SESSION_TTL_SECONDS ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_SESSION_TTL_SECONDS;
+};
+
+// Header the page's fetches carry the CSRF token in.
+export const CSRF_HEADER = "x-maps-csrf";
+
+// A page's session can be renewed for this long after the page was served.
+const MAX_SESSION_AGE_MS = 12 * 60 * 60 * 1000;
+
+export type MapsSession = {
+  id: string;
+  issuedAt: number;
+  expiresAt: number;
+};
+
+const sign = (payload: string) =>
+  createHmac("sha256", getSecret()).update(payload).digest("base64url");
+
+const safeEqual = (a: string, b: string) => {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+};
+
+const toCookieValue = (session: MapsSession) => {
+  const payload = Buffer.from(JSON.stringify(session)).toString("base64url");
+  return `${payload}.${sign(payload)}`;
+};
+
+/** Sessions are only minted when the page is served; see proxy.ts. */
+export const createSession = (): { session: MapsSession; cookieValue: string } => {
+  const now = Date.now();
+  const session = {
+    id: randomUUID(),
+    issuedAt: now,
+    expiresAt: now + getSessionTtlSeconds() * 1000,
+  };
+  return { session, cookieValue: toCookieValue(session) };
+};
+
+// Checks the signature only; callers decide whether an expired session is usable.
+const readSignedSession = (cookieValue?: string): MapsSession | null => {
+  if (!cookieValue) return null;
+  const [payload, signature] = cookieValue.split(".");
+  if (!payload || !signature || !safeEqual(sign(payload), signature)) return null;
+
+  try {
+    const session = JSON.parse(Buffer.from(payload, "base64url").toString()) as MapsSession;
+    if (
+      typeof session.id !== "string" ||
+      typeof session.issuedAt !== "number" ||
+      typeof session.expiresAt !== "number"
+    ) {
+      return null;
+    }
+    return session;
+  } catch {
+    return null;
+  }
+};
+
+export const verifySession = (cookieValue?: string): MapsSession | null => {
+  const session = readSignedSession(cookieValue);
+  return session && session.expiresAt > Date.now() ? session : null;
+};
+
+/** The token embedded in the served page; only that page's scripts can read it. */
+export const csrfTokenFor = (session: MapsSession) => sign(`csrf.${session.id}`);
+
+export const hasValidCsrfToken = (request: Request, session: MapsSession) =>
+  safeEqual(request.headers.get(CSRF_HEADER) ?? "", csrfTokenFor(session));
+
+/**
+ * Accepts requests the browser marks as same-origin. Falls back to comparing
+ * the Origin or Referer header with the request host when Sec-Fetch-Site is
+ * not sent, and rejects requests that carry none of them.
+ */
+export const isSameOriginRequest = (request: Request) => {
+  const fetchSite = request.headers.get("sec-fetch-site");
+  if (fetchSite) return fetchSite === "same-origin";
+
+  const host = request.headers.get("x-forwarded-host") ?? request.headers.get("host");
+  if (!host) return false;
+
+  const source = request.headers.get("origin") ?? request.headers.get("referer");
+  if (!source) return false;
+  try {
+    return new URL(source).host === host;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Extends a page's session, keeping its id so the page's CSRF token stays
+ * valid. Expired sessions qualify until MAX_SESSION_AGE_MS after the page was
+ * served; after that the page has to be reloaded.
+ */
+export const renewSession = (request: Request, cookieValue?: string) => {
+  const current = readSignedSession(cookieValue);
+  if (!current || current.issuedAt + MAX_SESSION_AGE_MS <= Date.now()) return null;
+  if (!hasValidCsrfToken(request, current)) return null;
+  const session = { ...current, expiresAt: Date.now() + getSessionTtlSeconds() * 1000 };
+  return { session, cookieValue: toCookieValue(session) };
+};
+
+// The cookie outlives the session's expiry so the page can still renew it. It is
+// scoped to /api so the Usage panel's metrics route receives it too.
+export const sessionCookieOptions = () => ({
+  httpOnly: true,
+  sameSite: "strict" as const,
+  secure: process.env.NODE_ENV === "production",
+  path: "/api",
+  maxAge: Math.floor(MAX_SESSION_AGE_MS / 1000),
+});
+
+const getTrustedProxyHops = () => {
+  const parsed = Number.parseInt(process.env.MAPS_TRUSTED_PROXY_HOPS ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 1;
+};
+
+/**
+ * The client address as seen by the nearest trusted proxy. Each of the
+ * MAPS_TRUSTED_PROXY_HOPS proxies appends to X-Forwarded-For, so only the
+ * entry that many places from the right is trustworthy; anything left of it
+ * came from the client. Next.js fills the header with the socket address when
+ * the request arrives without one. MAPS_CLIENT_IP_HEADER names a platform
+ * header to use instead.
+ */
+export const getClientIp = (request: Request) => {
+  const platformHeader = process.env.MAPS_CLIENT_IP_HEADER?.trim();
+  if (platformHeader) return request.headers.get(platformHeader)?.trim() || "unknown";
+
+  const hops = getTrustedProxyHops();
+  const forwarded = (request.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  if (forwarded.length === 0) return "unknown";
+  return forwarded[Math.max(0, forwarded.length - hops)];
+};
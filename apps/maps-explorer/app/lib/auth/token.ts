@@ -1,60 +1,99 @@
 import "server-only";
+import type { CredentialProviderName } from "../types";
+import { acquireToken } from "./credentials";
+import { TokenError } from "./errors";
 
-let cachedToken: { accessToken: string; expiresAt: number } | null = null;
-
-const getRequiredEnv = (name: string) => {
-  const value = process.env[name];
-  if (!value) {
-    throw new Error(`missing_${name}`);
-  }
-  return value;
+export type MapsAccessToken = {
+  accessToken: string;
+  expiresAt: number;
+  provider: CredentialProviderName;
 };
 
-export const getMapsAccessToken = async () => {
-  if (cachedToken && cachedToken.expiresAt > Date.now() + 60_000) {
-    return cachedToken.accessToken;
-  }
+// Tokens are never handed out inside this window before expiry.
+const EXPIRY_BUFFER_MS = 60_000;
+// Inside this window the cached token is still served while a refresh runs in the background.
+const REFRESH_WINDOW_MS = 5 * 60_000;
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 400;
 
-  const tenantId = getRequiredEnv("AZURE_TENANT_ID");
-  const clientId = process.env.AZURE_CLIENT_ID;
-  const clientSecret = process.env.AZURE_CLIENT_SECRET;
-  const scope = process.env.AZURE_MAPS_SCOPE ?? "https://atlas.microsoft.com/.default";
+const tokenCache = new Map<string, MapsAccessToken>();
+const inflight = new Map<string, Promise<MapsAccessToken>>();
 
-  if (!clientId || !clientSecret) {
-    throw new Error("missing_client_credentials");
-  }
+export const getDefaultMapsScope = () =>
+  process.env.AZURE_MAPS_SCOPE ?? "https://atlas.microsoft.com/.default";
 
-  const tokenUrl = `https://login.microsoftonline.com/${tenantId}/oauth2/v2.0/token`;
-  const body = new URLSearchParams({
-    grant_type: "client_credentials",
-    client_id: clientId,
-    client_secret: clientSecret,
+const getCacheKey = (scope: string) =>
+  [
+    process.env.AZURE_TENANT_ID ?? "",
+    process.env.AZURE_MANAGED_IDENTITY_CLIENT_ID ?? process.env.AZURE_CLIENT_ID ?? "",
     scope,
-  });
-
-  const response = await fetch(tokenUrl, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/x-www-form-urlencoded",
-    },
-    body,
-    cache: "no-store",
-  });
-
-  if (!response.ok) {
-    const text = await response.text();
-    throw new Error(`token_error:${response.status}:${text}`);
+  ].join("|");
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const acquireWithRetry = async (scope: string) => {
+  for (let attempt = 1; ; attempt += 1) {
+    try {
+      return await acquireToken(scope);
+    } catch (error) {
+      const retryable = error instanceof TokenError && error.retryable;
+      if (!retryable || attempt >= MAX_ATTEMPTS) {
+        if (error instanceof TokenError) {
+          console.error(
+            JSON.stringify({
+              event: "maps_token_failed",
+              code: error.code,
+              status: error.status,
+              provider: error.provider,
+              attempts: attempt,
+              details: error.details,
+            })
+          );
+        }
+        throw error;
+      }
+      // Full jitter keeps concurrent instances from retrying in lockstep.
+      await sleep(Math.random() * RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+    }
   }
+};
+
+const refreshToken = (key: string, scope: string) => {
+  const pending = inflight.get(key);
+  if (pending) return pending;
 
-  const payload = (await response.json()) as {
-    access_token: string;
-    expires_in: number;
-  };
+  const request = acquireWithRetry(scope)
+    .then((token) => {
+      tokenCache.set(key, token);
+      return token;
+    })
+    .finally(() => {
+      inflight.delete(key);
+    });
+  inflight.set(key, request);
+  return request;
+};
 
-  cachedToken = {
-    accessToken: payload.access_token,
-    expiresAt: Date.now() + payload.expires_in * 1000,
-  };
+/**
+ * Returns a token for the scope, sharing one in-flight request per
+ * tenant/client/scope and refreshing ahead of expiry.
+ */
+export const getMapsToken = async (
+  options: { scope?: string } = {}
+): Promise<MapsAccessToken> => {
+  const scope = options.scope ?? getDefaultMapsScope();
+  const key = getCacheKey(scope);
+  const cached = tokenCache.get(key);
+  const now = Date.now();
+
+  if (cached && cached.expiresAt > now + EXPIRY_BUFFER_MS) {
+    if (cached.expiresAt <= now + REFRESH_WINDOW_MS) {
+      refreshToken(key, scope).catch(() => {
+        // the next caller retries once the cached token leaves the buffer
+      });
+    }
+    return cached;
+  }
 
-  return payload.access_token;
+  return refreshToken(key, scope);
 };
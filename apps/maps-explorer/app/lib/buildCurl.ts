@@ -1,23 +1,90 @@
+import { SNIPPET_ENV } from "./snippets";
 import type { RequestShape } from "./types";
 import { buildQueryString, normalizePath } from "./validation";
 
-export const buildCurl = (
-  request: RequestShape,
-  baseUrl = "https://atlas.microsoft.com",
-  tokenPlaceholder = "Bearer ***"
-) => {
+export const curlShells = [
+  { id: "bash", label: "bash / zsh" },
+  { id: "powershell", label: "PowerShell" },
+  { id: "cmd", label: "cmd.exe" },
+] as const;
+
+export type CurlShell = (typeof curlShells)[number]["id"];
+
+export type CurlOptions = {
+  baseUrl?: string;
+  shell?: CurlShell;
+  // One option per line, joined with the shell's line continuation.
+  multiline?: boolean;
+  // Writes the request's subscription key instead of an environment variable.
+  includeKey?: boolean;
+};
+
+type ShellSyntax = {
+  program: string;
+  quote: (value: string) => string;
+  // Quoted so the shell still expands the variable.
+  withVariable: (prefix: string, name: string) => string;
+  continuation: string;
+};
+
+/**
+ * bash and PowerShell take single-quoted strings literally, with the quote
+ * itself escaped as '\'' and '' respectively. cmd.exe only has double quotes;
+ * curl's Windows runtime reads "" inside them as one literal quote, and
+ * backslashes right before a quote (or the closing one) must be doubled.
+ * PowerShell output uses curl.exe (plain curl is an Invoke-WebRequest alias in
+ * Windows PowerShell) and assumes 7.3+ native argument passing.
+ */
+const SHELLS: Record<CurlShell, ShellSyntax> = {
+  bash: {
+    program: "curl",
+    quote: (value) => `'${value.replace(/'/g, `'\\''`)}'`,
+    withVariable: (prefix, name) => `"${prefix}$${name}"`,
+    continuation: " \\\n  ",
+  },
+  powershell: {
+    program: "curl.exe",
+    quote: (value) => `'${value.replace(/'/g, "''")}'`,
+    withVariable: (prefix, name) => `"${prefix}$env:${name}"`,
+    continuation: " `\n  ",
+  },
+  cmd: {
+    program: "curl",
+    quote: (value) => `"${value.replace(/(\\*)"/g, '$1$1""').replace(/(\\+)$/, "$1$1")}"`,
+    withVariable: (prefix, name) => `"${prefix}%${name}%"`,
+    continuation: " ^\n  ",
+  },
+};
+
+export const buildCurl = (request: RequestShape, options: CurlOptions = {}) => {
+  const shell = SHELLS[options.shell ?? "bash"];
   const path = normalizePath(request.path);
   const query = buildQueryString(request.params);
-  const url = `${baseUrl.replace(/\/$/, "")}/${path}${
+  const url = `${(options.baseUrl ?? "https://atlas.microsoft.com").replace(/\/$/, "")}/${path}${
     query ? `?${query}` : ""
   }`;
 
-  const authHeader = request.auth?.apiKey
-    ? "subscription-key: ***"
-    : `Authorization: ${tokenPlaceholder}`;
-
-  const body = request.body ? JSON.stringify(request.body) : "";
-  const bodyArg = body ? ` -H "content-type: application/json" -d '${body}'` : "";
+  const auth = request.auth ?? {};
+  const authHeaders =
+    "apiKey" in auth
+      ? [
+          options.includeKey && auth.apiKey
+            ? shell.quote(`subscription-key: ${auth.apiKey}`)
+            : shell.withVariable("subscription-key: ", SNIPPET_ENV.key),
+        ]
+      : [
+          shell.withVariable("Authorization: Bearer ", SNIPPET_ENV.token),
+          auth.clientId?.trim()
+            ? shell.quote(`x-ms-client-id: ${auth.clientId.trim()}`)
+            : shell.withVariable("x-ms-client-id: ", SNIPPET_ENV.clientId),
+        ];
 
-  return `curl -X ${request.method} "${url}" -H "${authHeader}"${bodyArg}`;
+  const body =
+    request.body === undefined || request.body === null ? "" : JSON.stringify(request.body);
+  const args = [
+    `${shell.program} -X ${request.method} ${shell.quote(url)}`,
+    ...authHeaders.map((header) => `-H ${header}`),
+    ...(body ? [`-H ${shell.quote("content-type: application/json")}`, `--data-raw ${shell.quote(body)}`] : []),
+  ];
+  return args.join(options.multiline ? shell.continuation : " ");
 };
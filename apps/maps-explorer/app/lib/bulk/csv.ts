@@ -0,0 +1,80 @@
+const DELIMITERS = [",", ";", "\t"] as const;
+
+// Picks the delimiter that splits the header line into the most columns.
+const detectDelimiter = (text: string) => {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  let best: string = DELIMITERS[0];
+  let bestCount = 0;
+  DELIMITERS.forEach((delimiter) => {
+    const count = firstLine.split(delimiter).length - 1;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  });
+  return best;
+};
+
+/**
+ * RFC 4180 parser: quoted fields may contain delimiters, doubled quotes and
+ * line breaks. Comma, semicolon and tab files are detected from the header.
+ * Blank lines are dropped.
+ */
+export const parseCsv = (input: string) => {
+  const text = input.replace(/^\uFEFF/, "");
+  const delimiter = detectDelimiter(text);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some((value) => value.trim())) rows.push(row);
+    row = [];
+    field = "";
+  };
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && !field) {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[index + 1] === "\n") index += 1;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) endRow();
+  return rows;
+};
+
+// Spreadsheets evaluate cells starting with these as formulas; plain numbers such as
+// negative longitudes are left alone.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const PLAIN_NUMBER = /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i;
+
+const neutralizeFormula = (value: string) =>
+  FORMULA_PREFIX.test(value) && !PLAIN_NUMBER.test(value) ? `'${value}` : value;
+
+const escapeCsvField = (value: string) =>
+  /[",\r\n]/.test(value) || /^\s|\s$/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/** Serializes rows as CSV, prefixing cells that would open as formulas with `'`. */
+export const toCsv = (rows: string[][]) =>
+  rows
+    .map((row) => row.map((value) => escapeCsvField(neutralizeFormula(value))).join(","))
+    .join("\r\n");
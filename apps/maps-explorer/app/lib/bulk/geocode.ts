@@ -0,0 +1,194 @@
+import type { ApiResponse } from "../types";
+import { toCsv } from "./csv";
+import { parseResponseBody, responseErrorMessage, type BulkRowStatus } from "./runner";
+import type { BulkTable } from "./table";
+
+// Structured geocode params a column can be mapped to.
+export const bulkGeocodeFields = [
+  { key: "query", label: "Freeform address" },
+  { key: "addressLine", label: "Street line" },
+  { key: "locality", label: "City" },
+  { key: "adminDistrict", label: "State/province" },
+  { key: "postalCode", label: "Postal code" },
+  { key: "countryRegion", label: "Country/region" },
+] as const;
+
+export type BulkGeocodeField = (typeof bulkGeocodeFields)[number]["key"];
+
+export type ColumnMapping = Partial<Record<BulkGeocodeField, number>>;
+
+const COLUMN_HINTS: Record<BulkGeocodeField, RegExp> = {
+  query: /^(query|full.?address|address|location)$/i,
+  addressLine: /^(address.?line|address.?1|street|street.?address)$/i,
+  locality: /^(locality|city|town|municipality)$/i,
+  adminDistrict: /^(admin.?district|state|province|region|county)$/i,
+  postalCode: /^(postal.?code|post.?code|zip|zip.?code)$/i,
+  countryRegion: /^(country.?region|country|country.?code)$/i,
+};
+
+/** Maps columns whose header looks like a known field, each column at most once. */
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  const used = new Set<number>();
+  bulkGeocodeFields.forEach(({ key }) => {
+    const index = headers.findIndex(
+      (header, position) => !used.has(position) && COLUMN_HINTS[key].test(header.trim())
+    );
+    if (index >= 0) {
+      mapping[key] = index;
+      used.add(index);
+    }
+  });
+  // A lone address column is freeform unless structured parts sit next to it.
+  if (
+    mapping.query === undefined &&
+    mapping.addressLine !== undefined &&
+    mapping.locality === undefined
+  ) {
+    mapping.query = mapping.addressLine;
+    delete mapping.addressLine;
+  }
+  return mapping;
+};
+
+export const buildGeocodeParams = (row: string[], mapping: ColumnMapping) => {
+  const params: Record<string, string> = {};
+  bulkGeocodeFields.forEach(({ key }) => {
+    const index = mapping[key];
+    const value = index === undefined ? "" : row[index]?.trim();
+    if (value) params[key] = value;
+  });
+  return params;
+};
+
+export type GeocodeMatch = {
+  lat: number;
+  lon: number;
+  confidence: string;
+  matchCodes: string[];
+  formattedAddress: string;
+};
+
+export type BulkGeocodeRow = {
+  status: BulkRowStatus;
+  match?: GeocodeMatch;
+  error?: string;
+};
+
+/**
+ * Reads the top match from a geocode response: GeoJSON features from the
+ * 2023+ API or `results` from search/address, including the mock route.
+ */
+export const readGeocodeMatch = (body: unknown): GeocodeMatch | null => {
+  const root = parseResponseBody(body) as {
+    features?: {
+      geometry?: { coordinates?: unknown };
+      properties?: {
+        confidence?: string;
+        matchCodes?: string[];
+        address?: { formattedAddress?: string };
+      };
+    }[];
+    results?: {
+      position?: { lat?: unknown; lon?: unknown };
+      score?: number;
+      matchConfidence?: { score?: number };
+      address?: { freeformAddress?: string };
+      type?: string;
+    }[];
+  } | null;
+  if (!root || typeof root !== "object") return null;
+
+  const feature = root.features?.[0];
+  if (feature) {
+    const coords = feature.geometry?.coordinates;
+    if (!Array.isArray(coords) || typeof coords[0] !== "number" || typeof coords[1] !== "number") {
+      return null;
+    }
+    return {
+      lon: coords[0],
+      lat: coords[1],
+      confidence: feature.properties?.confidence ?? "",
+      matchCodes: feature.properties?.matchCodes ?? [],
+      formattedAddress: feature.properties?.address?.formattedAddress ?? "",
+    };
+  }
+
+  const result = root.results?.[0];
+  const lat = result?.position?.lat;
+  const lon = result?.position?.lon;
+  if (!result || typeof lat !== "number" || typeof lon !== "number") return null;
+  const score = result.matchConfidence?.score ?? result.score;
+  return {
+    lat,
+    lon,
+    confidence: score === undefined ? "" : String(score),
+    matchCodes: result.type ? [result.type] : [],
+    formattedAddress: result.address?.freeformAddress ?? "",
+  };
+};
+
+export const toBulkGeocodeRow = (response: ApiResponse): BulkGeocodeRow => {
+  if (response.meta.status >= 400) {
+    return { status: "failed", error: responseErrorMessage(response) };
+  }
+  const match = readGeocodeMatch(response.body);
+  return match ? { status: "matched", match } : { status: "no_match" };
+};
+
+const RESULT_COLUMNS = [
+  "latitude",
+  "longitude",
+  "confidence",
+  "matchCodes",
+  "formattedAddress",
+  "status",
+  "error",
+];
+
+/** Original columns followed by the match details for each row. */
+export const toGeocodeCsv = (table: BulkTable, results: (BulkGeocodeRow | undefined)[]) =>
+  toCsv([
+    [...table.headers, ...RESULT_COLUMNS],
+    ...table.rows.map((row, index) => {
+      const result = results[index];
+      const match = result?.match;
+      return [
+        ...row,
+        match ? String(match.lat) : "",
+        match ? String(match.lon) : "",
+        match?.confidence ?? "",
+        match?.matchCodes.join(";") ?? "",
+        match?.formattedAddress ?? "",
+        result?.status ?? "pending",
+        result?.error ?? "",
+      ];
+    }),
+  ]);
+
+/** Matched rows as Point features carrying the original columns as properties. */
+export const toGeocodeGeoJson = (table: BulkTable, results: (BulkGeocodeRow | undefined)[]) =>
+  JSON.stringify(
+    {
+      type: "FeatureCollection",
+      features: table.rows.flatMap((row, index) => {
+        const match = results[index]?.match;
+        if (!match) return [];
+        return [
+          {
+            type: "Feature",
+            geometry: { type: "Point", coordinates: [match.lon, match.lat] },
+            properties: {
+              ...Object.fromEntries(table.headers.map((header, column) => [header, row[column]])),
+              rowNumber: index + 1,
+              confidence: match.confidence,
+              matchCodes: match.matchCodes,
+              formattedAddress: match.formattedAddress,
+            },
+          },
+        ];
+      }),
+    },
+    null,
+    2
+  );
@@ -0,0 +1,206 @@
+import type { ApiResponse } from "../types";
+import { toCsv } from "./csv";
+import { parseResponseBody, responseErrorMessage, type BulkRowStatus } from "./runner";
+import type { BulkTable } from "./table";
+
+export type CoordinateColumns = {
+  lat?: number;
+  lon?: number;
+};
+
+const LAT_HINT = /^(lat|latitude|y|gps.?lat(itude)?)$/i;
+const LON_HINT = /^(lon|lng|long|longitude|x|gps.?lon(gitude)?|gps.?lng)$/i;
+
+export const guessCoordinateColumns = (headers: string[]): CoordinateColumns => {
+  const lat = headers.findIndex((header) => LAT_HINT.test(header.trim()));
+  const lon = headers.findIndex((header) => LON_HINT.test(header.trim()));
+  return { lat: lat >= 0 ? lat : undefined, lon: lon >= 0 ? lon : undefined };
+};
+
+/** Parses and range-checks a row's coordinate; returns an error message when invalid. */
+export const readRowCoordinate = (
+  row: string[],
+  columns: CoordinateColumns
+): { lat: number; lon: number } | { error: string } => {
+  if (columns.lat === undefined || columns.lon === undefined) {
+    return { error: "Map the latitude and longitude columns." };
+  }
+  const latText = row[columns.lat]?.trim() ?? "";
+  const lonText = row[columns.lon]?.trim() ?? "";
+  const lat = Number(latText);
+  const lon = Number(lonText);
+  if (!latText || !Number.isFinite(lat)) return { error: "Latitude is not a number." };
+  if (!lonText || !Number.isFinite(lon)) return { error: "Longitude is not a number." };
+  if (lat < -90 || lat > 90) return { error: `Latitude ${lat} is outside -90..90.` };
+  if (lon < -180 || lon > 180) return { error: `Longitude ${lon} is outside -180..180.` };
+  return { lat, lon };
+};
+
+export type ReverseMatch = {
+  lat: number;
+  lon: number;
+  resultType: string;
+  formattedAddress: string;
+  addressLine: string;
+  neighborhood: string;
+  locality: string;
+  adminDistrict: string;
+  adminDistrict2: string;
+  postalCode: string;
+  countryRegion: string;
+};
+
+export type BulkReverseRow = {
+  status: BulkRowStatus;
+  match?: ReverseMatch;
+  error?: string;
+};
+
+/**
+ * Reads the first address from a reverse geocode response: GeoJSON features
+ * from reverseGeocode or `addresses` from search/address/reverse (and the
+ * mock route). `lat`/`lon` are the input point.
+ */
+export const readReverseMatch = (
+  body: unknown,
+  point: { lat: number; lon: number }
+): ReverseMatch | null => {
+  const root = parseResponseBody(body) as {
+    features?: {
+      properties?: {
+        type?: string;
+        address?: {
+          formattedAddress?: string;
+          addressLine?: string;
+          neighborhood?: string;
+          locality?: string;
+          postalCode?: string;
+          adminDistricts?: { name?: string; shortName?: string }[];
+          countryRegion?: { ISO?: string; name?: string };
+        };
+      };
+    }[];
+    addresses?: {
+      entityType?: string;
+      address?: {
+        freeformAddress?: string;
+        streetNumber?: string;
+        streetName?: string;
+        municipality?: string;
+        municipalitySubdivision?: string;
+        countrySubdivision?: string;
+        countrySecondarySubdivision?: string;
+        postalCode?: string;
+        countryCode?: string;
+      };
+    }[];
+  } | null;
+  if (!root || typeof root !== "object") return null;
+
+  const properties = root.features?.[0]?.properties;
+  if (properties) {
+    const address = properties.address ?? {};
+    return {
+      ...point,
+      resultType: properties.type ?? "",
+      formattedAddress: address.formattedAddress ?? "",
+      addressLine: address.addressLine ?? "",
+      neighborhood: address.neighborhood ?? "",
+      locality: address.locality ?? "",
+      adminDistrict:
+        address.adminDistricts?.[0]?.shortName ?? address.adminDistricts?.[0]?.name ?? "",
+      adminDistrict2: address.adminDistricts?.[1]?.name ?? "",
+      postalCode: address.postalCode ?? "",
+      countryRegion: address.countryRegion?.ISO ?? address.countryRegion?.name ?? "",
+    };
+  }
+
+  const legacy = root.addresses?.[0];
+  if (!legacy?.address) return null;
+  const address = legacy.address;
+  return {
+    ...point,
+    resultType: legacy.entityType ?? "Address",
+    formattedAddress: address.freeformAddress ?? "",
+    addressLine: [address.streetNumber, address.streetName].filter(Boolean).join(" "),
+    neighborhood: address.municipalitySubdivision ?? "",
+    locality: address.municipality ?? "",
+    adminDistrict: address.countrySubdivision ?? "",
+    adminDistrict2: address.countrySecondarySubdivision ?? "",
+    postalCode: address.postalCode ?? "",
+    countryRegion: address.countryCode ?? "",
+  };
+};
+
+export const toBulkReverseRow = (
+  response: ApiResponse,
+  point: { lat: number; lon: number }
+): BulkReverseRow => {
+  if (response.meta.status >= 400) {
+    return { status: "failed", error: responseErrorMessage(response) };
+  }
+  const match = readReverseMatch(response.body, point);
+  return match ? { status: "matched", match } : { status: "no_match" };
+};
+
+const ADDRESS_FIELDS = [
+  "resultType",
+  "formattedAddress",
+  "addressLine",
+  "neighborhood",
+  "locality",
+  "adminDistrict",
+  "adminDistrict2",
+  "postalCode",
+  "countryRegion",
+] as const;
+
+/** Original columns followed by the address components for each row. */
+export const toReverseCsv = (
+  table: BulkTable,
+  results: (BulkReverseRow | undefined)[],
+  resultTypes: string
+) =>
+  toCsv([
+    [...table.headers, ...ADDRESS_FIELDS, "requestedResultTypes", "status", "error"],
+    ...table.rows.map((row, index) => {
+      const result = results[index];
+      return [
+        ...row,
+        ...ADDRESS_FIELDS.map((field) => result?.match?.[field] ?? ""),
+        resultTypes,
+        result?.status ?? "pending",
+        result?.error ?? "",
+      ];
+    }),
+  ]);
+
+/** Rows with an address as Point features carrying the original columns and components. */
+export const toReverseGeoJson = (
+  table: BulkTable,
+  results: (BulkReverseRow | undefined)[],
+  resultTypes: string
+) =>
+  JSON.stringify(
+    {
+      type: "FeatureCollection",
+      features: table.rows.flatMap((row, index) => {
+        const match = results[index]?.match;
+        if (!match) return [];
+        return [
+          {
+            type: "Feature",
+            geometry: { type: "Point", coordinates: [match.lon, match.lat] },
+            properties: {
+              ...Object.fromEntries(table.headers.map((header, column) => [header, row[column]])),
+              rowNumber: index + 1,
+              ...Object.fromEntries(ADDRESS_FIELDS.map((field) => [field, match[field]])),
+              requestedResultTypes: resultTypes,
+            },
+          },
+        ];
+      }),
+    },
+    null,
+    2
+  );
@@ -0,0 +1,158 @@
+import type { ApiResponse, RequestShape } from "../types";
+
+export type BulkRowStatus = "pending" | "matched" | "no_match" | "failed";
+
+export type BulkRunOutcome =
+  | { state: "completed" }
+  | { state: "stopped" }
+  | { state: "interrupted"; message: string };
+
+// The proxy's request budget for the rows' endpoint family, from /api/maps/budget.
+export type BulkBudget = {
+  remaining: number;
+  // Epoch milliseconds when the per-minute window resets.
+  resetAt: number;
+  // Transactions left today, when a daily cap is configured.
+  dailyRemaining: number | null;
+};
+
+type BulkRunOptions = {
+  indices: number[];
+  buildRequest: (index: number) => RequestShape;
+  runBatch: (requests: RequestShape[]) => Promise<ApiResponse[]>;
+  onResponse: (index: number, response: ApiResponse) => void;
+  onProgress?: (completed: number) => void;
+  // Called before pausing for the rate limit window to reset.
+  onWait?: (waitMs: number) => void;
+  // Chunks are sized to the remaining budget when this resolves one.
+  getBudget?: () => Promise<BulkBudget | null>;
+  signal: AbortSignal;
+  chunkSize?: number;
+  delayMs?: number;
+};
+
+export const parseResponseBody = (body: unknown) => {
+  if (typeof body !== "string") return body;
+  try {
+    return JSON.parse(body) as unknown;
+  } catch {
+    return null;
+  }
+};
+
+export const responseErrorMessage = (response: ApiResponse) => {
+  const body = response.body as { message?: string; error?: { message?: string } } | undefined;
+  return body?.message || body?.error?.message || response.meta.statusText;
+};
+
+const MAX_RETRY_AFTER_MS = 60_000;
+
+const sleep = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    if (signal.aborted) return resolve();
+    const done = () => {
+      clearTimeout(handle);
+      signal.removeEventListener("abort", done);
+      resolve();
+    };
+    const handle = setTimeout(done, ms);
+    signal.addEventListener("abort", done);
+  });
+
+const isRateLimited = (response: ApiResponse) =>
+  response.errorCode === "rate_limited" || response.meta.status === 429;
+
+const retryAfterMs = (responses: ApiResponse[]) => {
+  const seconds = Math.max(
+    1,
+    ...responses.map((response) => Number(response.meta.headers["retry-after"]) || 1)
+  );
+  return Math.min(seconds * 1000, MAX_RETRY_AFTER_MS);
+};
+
+const untilReset = (resetAt: number) =>
+  Math.min(Math.max(resetAt - Date.now(), 1000), MAX_RETRY_AFTER_MS);
+
+// A budget that can't be read leaves pacing to the fixed chunk size and retry-after.
+const readBudget = async (getBudget: BulkRunOptions["getBudget"]) => {
+  try {
+    return (await getBudget?.()) ?? null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Sends rows through the batch proxy in chunks with a pause between chunks.
+ * Each chunk is sized to the remaining rate limit budget, waiting for the
+ * window to reset when none is left. Rate-limited rows stay pending and are
+ * re-sent after `retry-after`; any other response is handed to `onResponse`.
+ * A failed batch call or an exhausted daily cap interrupts the run so the
+ * caller can resume with the rows that are still pending.
+ */
+export const runBulk = async ({
+  indices,
+  buildRequest,
+  runBatch,
+  onResponse,
+  onProgress,
+  onWait,
+  getBudget,
+  signal,
+  chunkSize = 10,
+  delayMs = 500,
+}: BulkRunOptions): Promise<BulkRunOutcome> => {
+  let pending = indices.slice();
+  let completed = 0;
+  while (pending.length > 0) {
+    if (signal.aborted) return { state: "stopped" };
+    let size = chunkSize;
+    const budget = await readBudget(getBudget);
+    if (budget) {
+      if (budget.dailyRemaining === 0) {
+        return { state: "interrupted", message: "Daily Azure Maps transaction cap reached." };
+      }
+      if (budget.remaining <= 0) {
+        const waitMs = untilReset(budget.resetAt);
+        onWait?.(waitMs);
+        await sleep(waitMs, signal);
+        continue;
+      }
+      size = Math.min(size, budget.remaining);
+    }
+
+    const chunk = pending.slice(0, size);
+    let responses: ApiResponse[];
+    try {
+      responses = await runBatch(chunk.map(buildRequest));
+    } catch (error) {
+      if (signal.aborted) return { state: "stopped" };
+      return {
+        state: "interrupted",
+        message: error instanceof Error ? error.message : "Batch request failed.",
+      };
+    }
+    const limited = responses.filter(isRateLimited);
+    const retry: number[] = [];
+    chunk.forEach((index, position) => {
+      const response = responses[position];
+      if (response && isRateLimited(response)) {
+        retry.push(index);
+        return;
+      }
+      if (response) onResponse(index, response);
+      completed += 1;
+    });
+    onProgress?.(completed);
+    pending = [...retry, ...pending.slice(size)];
+    if (pending.length === 0) break;
+    if (limited.length > 0) {
+      const waitMs = retryAfterMs(limited);
+      onWait?.(waitMs);
+      await sleep(waitMs, signal);
+    } else {
+      await sleep(delayMs, signal);
+    }
+  }
+  return signal.aborted ? { state: "stopped" } : { state: "completed" };
+};
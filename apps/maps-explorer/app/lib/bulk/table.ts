@@ -0,0 +1,85 @@
+import { parseCsv } from "./csv";
+import { readXlsx } from "./xlsx";
+
+export type BulkTable = {
+  fileName: string;
+  headers: string[];
+  rows: string[][];
+};
+
+export const MAX_BULK_ROWS = 5000;
+
+type GeoJsonFeature = {
+  geometry?: { type?: string; coordinates?: unknown } | null;
+  properties?: Record<string, unknown> | null;
+};
+
+// Point features become longitude/latitude columns followed by their properties.
+const geoJsonToRows = (text: string) => {
+  let parsed: { type?: string; features?: GeoJsonFeature[] } & GeoJsonFeature;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid GeoJSON.");
+  }
+  const features = parsed.type === "FeatureCollection" ? parsed.features ?? [] : [parsed];
+  const keys = Array.from(
+    new Set(features.flatMap((feature) => Object.keys(feature.properties ?? {})))
+  ).filter((key) => key !== "longitude" && key !== "latitude");
+  const rows = features.map((feature) => {
+    const coords =
+      feature.geometry?.type === "Point" && Array.isArray(feature.geometry.coordinates)
+        ? feature.geometry.coordinates
+        : [];
+    return [
+      coords[0] === undefined ? "" : String(coords[0]),
+      coords[1] === undefined ? "" : String(coords[1]),
+      ...keys.map((key) => {
+        const value = feature.properties?.[key];
+        if (value === undefined || value === null) return "";
+        return typeof value === "object" ? JSON.stringify(value) : String(value);
+      }),
+    ];
+  });
+  return [["longitude", "latitude", ...keys], ...rows];
+};
+
+/**
+ * Reads a CSV, XLSX or GeoJSON upload. For CSV and XLSX the first non-empty
+ * row holds the column names.
+ */
+export const readTableFile = async (file: File): Promise<BulkTable> => {
+  const rows = /\.xlsx$/i.test(file.name)
+    ? await readXlsx(await file.arrayBuffer())
+    : /\.(geo)?json$/i.test(file.name)
+    ? geoJsonToRows(await file.text())
+    : parseCsv(await file.text());
+  const [headerRow = [], ...dataRows] = rows;
+  if (dataRows.length === 0) throw new Error("The file has no data rows.");
+  if (dataRows.length > MAX_BULK_ROWS) {
+    throw new Error(`Files are limited to ${MAX_BULK_ROWS} rows.`);
+  }
+  const width = Math.max(headerRow.length, ...dataRows.map((row) => row.length));
+  const headers = Array.from(
+    { length: width },
+    (_, index) => headerRow[index]?.trim() || `Column ${index + 1}`
+  );
+  return {
+    fileName: file.name,
+    headers,
+    rows: dataRows.map((row) => headers.map((_, index) => row[index] ?? "")),
+  };
+};
+
+export const downloadFile = (fileName: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// "stores.xlsx" -> "stores-geocoded.csv"
+export const exportFileName = (source: string, suffix: string, extension: string) =>
+  `${source.replace(/\.[^.]+$/, "") || "results"}-${suffix}.${extension}`;
@@ -0,0 +1,159 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { ApiResponse, BudgetSnapshot, EndpointFamily, RequestShape } from "../types";
+import { getEndpointFamily } from "../validation";
+import { runBulk, type BulkBudget, type BulkRowStatus } from "./runner";
+
+export type BulkRowResult = {
+  status: BulkRowStatus;
+  error?: string;
+};
+
+export type BulkRunSettings = {
+  chunkSize: number;
+  setChunkSize: (value: number) => void;
+  delayMs: number;
+  setDelayMs: (value: number) => void;
+};
+
+type StartOptions<T extends BulkRowResult> = {
+  rowCount: number;
+  statuses: BulkRowStatus[];
+  // Returns an error for rows that should fail without a request.
+  validate: (index: number) => string | null;
+  buildRequest: (index: number) => RequestShape;
+  runBatch: (requests: RequestShape[]) => Promise<ApiResponse[]>;
+  toResult: (response: ApiResponse, index: number) => T;
+};
+
+const fetchBudget = async (family: EndpointFamily): Promise<BulkBudget | null> => {
+  const res = await fetch("/api/maps/budget", { cache: "no-store" });
+  if (!res.ok) return null;
+  const snapshot = (await res.json()) as BudgetSnapshot;
+  const status = snapshot.families.find((item) => item.family === family);
+  if (!status) return null;
+  return {
+    remaining: status.remaining,
+    resetAt: Date.parse(status.resetAt),
+    dailyRemaining: snapshot.daily?.remaining ?? null,
+  };
+};
+
+/**
+ * Row results and run state for a bulk upload. Results live in a ref while a
+ * run is in flight and are published once per batch, so stopping or a failed
+ * batch keeps every finished row and the next run only picks up the rest.
+ */
+export const useBulkJob = <T extends BulkRowResult>() => {
+  const [results, setResults] = useState<(T | undefined)[]>([]);
+  const resultsRef = useRef<(T | undefined)[]>([]);
+  const [chunkSize, setChunkSize] = useState(10);
+  const [delayMs, setDelayMs] = useState(500);
+  const [running, setRunning] = useState(false);
+  const [total, setTotal] = useState(0);
+  const [completed, setCompleted] = useState(0);
+  const [message, setMessage] = useState("");
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const reset = useCallback(() => {
+    abortRef.current?.abort();
+    resultsRef.current = [];
+    setResults([]);
+    setMessage("");
+  }, []);
+
+  const stop = useCallback(() => abortRef.current?.abort(), []);
+
+  const start = async ({
+    rowCount,
+    statuses,
+    validate,
+    buildRequest,
+    runBatch,
+    toResult,
+  }: StartOptions<T>) => {
+    if (running) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    const indices: number[] = [];
+    for (let index = 0; index < rowCount; index += 1) {
+      if (!statuses.includes(resultsRef.current[index]?.status ?? "pending")) continue;
+      const error = validate(index);
+      if (error) {
+        resultsRef.current[index] = { status: "failed", error } as T;
+        continue;
+      }
+      indices.push(index);
+    }
+    setResults(resultsRef.current.slice());
+    if (indices.length === 0) return;
+
+    setRunning(true);
+    setTotal(indices.length);
+    setCompleted(0);
+    setMessage("");
+    const family = getEndpointFamily(buildRequest(indices[0]).path);
+    const outcome = await runBulk({
+      indices,
+      buildRequest,
+      runBatch,
+      onResponse: (index, response) => {
+        resultsRef.current[index] = toResult(response, index);
+      },
+      onProgress: (count) => {
+        setCompleted(count);
+        setResults(resultsRef.current.slice());
+        setMessage("");
+      },
+      onWait: (waitMs) =>
+        setMessage(`Rate limit reached. Continuing in ${Math.ceil(waitMs / 1000)}s.`),
+      getBudget: () => fetchBudget(family),
+      signal: controller.signal,
+      chunkSize,
+      delayMs,
+    });
+    if (abortRef.current === controller) abortRef.current = null;
+    setRunning(false);
+    if (outcome.state === "interrupted") {
+      setMessage(`Paused: ${outcome.message} Resume to continue with the pending rows.`);
+    } else if (outcome.state === "stopped") {
+      setMessage("Stopped. Resume to continue with the pending rows.");
+    }
+  };
+
+  const countStatuses = useCallback(
+    (rowCount: number) => {
+      const counts: Record<BulkRowStatus, number> = {
+        pending: 0,
+        matched: 0,
+        no_match: 0,
+        failed: 0,
+      };
+      for (let index = 0; index < rowCount; index += 1) {
+        counts[results[index]?.status ?? "pending"] += 1;
+      }
+      return counts;
+    },
+    [results]
+  );
+
+  const settings: BulkRunSettings = useMemo(
+    () => ({ chunkSize, setChunkSize, delayMs, setDelayMs }),
+    [chunkSize, delayMs]
+  );
+
+  return {
+    results,
+    running,
+    total,
+    completed,
+    message,
+    settings,
+    start,
+    stop,
+    reset,
+    countStatuses,
+  };
+};
@@ -0,0 +1,131 @@
+// Minimal .xlsx reader for the first worksheet: unzips with the browser's
+// DecompressionStream and reads cell values from the sheet XML.
+
+type ZipEntry = {
+  name: string;
+  method: number;
+  compressedSize: number;
+  localOffset: number;
+};
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+const readZipEntries = (view: DataView) => {
+  let eocd = -1;
+  // The end-of-central-directory record sits in the last 22 bytes plus an optional comment.
+  const lowest = Math.max(0, view.byteLength - 65_557);
+  for (let offset = view.byteLength - 22; offset >= lowest; offset -= 1) {
+    if (view.getUint32(offset, true) === EOCD_SIGNATURE) {
+      eocd = offset;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error("Not a valid .xlsx file.");
+
+  const count = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder();
+  const entries = new Map<string, ZipEntry>();
+  for (let index = 0; index < count; index += 1) {
+    if (view.getUint32(offset, true) !== CENTRAL_SIGNATURE) break;
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(
+      new Uint8Array(view.buffer, view.byteOffset + offset + 46, nameLength)
+    );
+    entries.set(name, {
+      name,
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+};
+
+const readZipText = async (view: DataView, entry: ZipEntry) => {
+  const local = entry.localOffset;
+  if (view.getUint32(local, true) !== LOCAL_SIGNATURE) {
+    throw new Error(`Corrupt .xlsx entry: ${entry.name}`);
+  }
+  const start = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true);
+  const data = new Uint8Array(view.buffer, view.byteOffset + start, entry.compressedSize);
+  if (entry.method === 0) return new TextDecoder().decode(data);
+  if (entry.method !== 8) throw new Error(`Unsupported .xlsx compression: ${entry.method}`);
+  const stream = new Blob([data.slice()])
+    .stream()
+    .pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Response(stream).text();
+};
+
+const parseXml = (text: string) => new DOMParser().parseFromString(text, "application/xml");
+
+const textOf = (node: Element) =>
+  Array.from(node.getElementsByTagName("t"))
+    .map((item) => item.textContent ?? "")
+    .join("");
+
+// "AB12" -> 27
+const columnIndex = (ref: string) => {
+  const letters = ref.replace(/[^A-Z]/gi, "").toUpperCase();
+  let index = 0;
+  for (const letter of letters) index = index * 26 + (letter.charCodeAt(0) - 64);
+  return index - 1;
+};
+
+const resolveFirstSheet = async (view: DataView, entries: Map<string, ZipEntry>) => {
+  const fallback = "xl/worksheets/sheet1.xml";
+  const workbook = entries.get("xl/workbook.xml");
+  const rels = entries.get("xl/_rels/workbook.xml.rels");
+  if (!workbook || !rels) return fallback;
+  const sheet = parseXml(await readZipText(view, workbook)).getElementsByTagName("sheet")[0];
+  const relId = sheet?.getAttribute("r:id");
+  if (!relId) return fallback;
+  const target = Array.from(
+    parseXml(await readZipText(view, rels)).getElementsByTagName("Relationship")
+  )
+    .find((item) => item.getAttribute("Id") === relId)
+    ?.getAttribute("Target");
+  if (!target) return fallback;
+  return target.startsWith("/") ? target.slice(1) : `xl/${target}`;
+};
+
+/**
+ * Reads the first worksheet of an .xlsx file as rows of strings. Shared and
+ * inline strings are resolved; numbers and booleans keep their stored text.
+ */
+export const readXlsx = async (buffer: ArrayBuffer) => {
+  const view = new DataView(buffer);
+  const entries = readZipEntries(view);
+  const sheetEntry = entries.get(await resolveFirstSheet(view, entries));
+  if (!sheetEntry) throw new Error("The workbook has no worksheets.");
+
+  const sharedEntry = entries.get("xl/sharedStrings.xml");
+  const shared = sharedEntry
+    ? Array.from(parseXml(await readZipText(view, sharedEntry)).getElementsByTagName("si")).map(
+        textOf
+      )
+    : [];
+
+  const rows: string[][] = [];
+  const sheet = parseXml(await readZipText(view, sheetEntry));
+  Array.from(sheet.getElementsByTagName("row")).forEach((rowNode) => {
+    const row: string[] = [];
+    Array.from(rowNode.getElementsByTagName("c")).forEach((cell) => {
+      const type = cell.getAttribute("t");
+      const raw = cell.getElementsByTagName("v")[0]?.textContent ?? "";
+      const value =
+        type === "s" ? shared[Number(raw)] ?? "" : type === "inlineStr" ? textOf(cell) : raw;
+      const ref = cell.getAttribute("r");
+      const index = ref ? columnIndex(ref) : row.length;
+      while (row.length < index) row.push("");
+      row[index] = value;
+    });
+    if (row.some((value) => value.trim())) rows.push(row);
+  });
+  return rows;
+};
@@ -0,0 +1,154 @@
+import type { EndpointCatalogEntry } from "./types";
+
+// Read-only Azure Maps data-plane endpoints the proxy forwards. Patterns match
+// normalized paths case-insensitively; `*` matches a single path segment of
+// unreserved URL characters, so it never spans `?`, `#`, escapes or dot-segments.
+export const endpointCatalog: EndpointCatalogEntry[] = [
+  {
+    id: "geocode",
+    pattern: "geocode",
+    methods: ["GET"],
+    apiVersions: ["2023-06-01", "2025-01-01", "2025-06-01-preview"],
+    anyOfParams: ["query", "addressLine", "locality", "postalCode", "adminDistrict", "countryRegion"],
+  },
+  {
+    id: "geocode-batch",
+    pattern: "geocode:batch",
+    methods: ["POST"],
+    apiVersions: ["2023-06-01", "2025-01-01"],
+  },
+  {
+    id: "geocode-autocomplete",
+    pattern: "geocode:autocomplete",
+    methods: ["GET"],
+    apiVersions: ["2025-06-01-preview"],
+    requiredParams: ["query"],
+  },
+  {
+    id: "reverse-geocode",
+    pattern: "reverseGeocode",
+    methods: ["GET"],
+    apiVersions: ["2023-06-01", "2025-01-01"],
+    requiredParams: ["coordinates"],
+  },
+  {
+    id: "reverse-geocode-batch",
+    pattern: "reverseGeocode:batch",
+    methods: ["POST"],
+    apiVersions: ["2023-06-01", "2025-01-01"],
+  },
+  {
+    id: "search-polygon",
+    pattern: "search/polygon",
+    methods: ["GET"],
+    apiVersions: ["2023-06-01"],
+    requiredParams: ["coordinates"],
+  },
+  {
+    id: "search-v1",
+    pattern: "search/*/json",
+    methods: ["GET"],
+    apiVersions: ["1.0"],
+    requiredParams: ["query"],
+  },
+  {
+    id: "search-v1-reverse",
+    pattern: "search/address/reverse/json",
+    methods: ["GET"],
+    apiVersions: ["1.0"],
+    requiredParams: ["query"],
+  },
+  {
+    id: "route-directions",
+    pattern: "route/directions",
+    methods: ["POST"],
+    apiVersions: ["2025-01-01"],
+  },
+  {
+    id: "route-directions-v1",
+    pattern: "route/directions/json",
+    methods: ["GET", "POST"],
+    apiVersions: ["1.0"],
+    requiredParams: ["query"],
+  },
+  {
+    id: "route-range-v1",
+    pattern: "route/range/json",
+    methods: ["GET"],
+    apiVersions: ["1.0"],
+    requiredParams: ["query"],
+  },
+  {
+    id: "weather-historical",
+    pattern: "weather/historical/*/daily/json",
+    methods: ["GET"],
+    apiVersions: ["1.1"],
+    requiredParams: ["query", "startDate", "endDate"],
+  },
+  {
+    id: "weather-current",
+    pattern: "weather/currentConditions/json",
+    methods: ["GET"],
+    apiVersions: ["1.1"],
+    requiredParams: ["query"],
+  },
+  {
+    id: "weather-forecast",
+    pattern: "weather/forecast/*/json",
+    methods: ["GET"],
+    apiVersions: ["1.1"],
+    requiredParams: ["query"],
+  },
+  {
+    id: "geolocation-ip",
+    pattern: "geolocation/ip/json",
+    methods: ["GET"],
+    apiVersions: ["1.0"],
+    requiredParams: ["ip"],
+  },
+  {
+    id: "timezone",
+    pattern: "timezone/*/json",
+    methods: ["GET"],
+    apiVersions: ["1.0"],
+    requiredParams: ["query"],
+  },
+  {
+    id: "map-static",
+    pattern: "map/static",
+    methods: ["GET"],
+    apiVersions: ["2024-04-01"],
+  },
+  {
+    id: "map-static-png",
+    pattern: "map/static/png",
+    methods: ["GET"],
+    apiVersions: ["1.0", "2022-08-01"],
+  },
+  {
+    id: "map-tile",
+    pattern: "map/tile",
+    methods: ["GET"],
+    apiVersions: ["2.1", "2022-08-01", "2024-04-01"],
+    requiredParams: ["tilesetId", "zoom", "x", "y"],
+  },
+];
+
+const WILDCARD_SEGMENT = "(?!\\.\\.?(?:/|$))[a-z0-9._~-]+";
+
+const toPatternRegex = (pattern: string) =>
+  new RegExp(
+    `^${pattern
+      .toLowerCase()
+      .split("/")
+      .map((segment) =>
+        segment === "*" ? WILDCARD_SEGMENT : segment.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+      )
+      .join("/")}$`
+  );
+
+export const matchesCatalogPattern = (pattern: string, path: string) =>
+  toPatternRegex(pattern).test(path.toLowerCase());
+
+export const findCatalogEntry = (catalog: EndpointCatalogEntry[], path: string) =>
+  catalog.find((entry) => matchesCatalogPattern(entry.pattern, path)) ?? null;
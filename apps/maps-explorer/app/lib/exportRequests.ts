@@ -0,0 +1,285 @@
+import { SNIPPET_ENV } from "./snippets";
+import type { HistoryEntry } from "./types";
+import { buildQueryString, normalizePath } from "./validation";
+
+export const exportFormats = [
+  { id: "postman", label: "Postman v2.1" },
+  { id: "har", label: "HAR" },
+  { id: "http", label: "REST Client (.http)" },
+] as const;
+
+export type ExportFormat = (typeof exportFormats)[number]["id"];
+
+export type ExportFile = {
+  fileName: string;
+  content: string;
+  type: string;
+};
+
+const DEFAULT_BASE_URL = "https://atlas.microsoft.com";
+
+const POSTMAN_SCHEMA = "https://schema.getpostman.com/json/collection/v2.1.0/collection.json";
+
+// Variable names shared by the Postman environment and the .http file.
+const VARIABLES = {
+  baseUrl: "baseUrl",
+  key: "subscriptionKey",
+  token: "accessToken",
+  clientId: "clientId",
+} as const;
+
+type ExportedRequest = {
+  entry: HistoryEntry;
+  name: string;
+  method: string;
+  baseUrl: string;
+  path: string;
+  query: string;
+  body: string | null;
+  entra: boolean;
+  clientId: string | null;
+};
+
+const toExported = (entry: HistoryEntry): ExportedRequest => {
+  const { request } = entry;
+  const path = normalizePath(request.path);
+  return {
+    entry,
+    name: `${request.method} ${path}`,
+    method: request.method,
+    baseUrl: (request.baseUrl || DEFAULT_BASE_URL).replace(/\/$/, ""),
+    path,
+    query: buildQueryString(request.params),
+    body:
+      request.body === undefined || request.body === null
+        ? null
+        : JSON.stringify(request.body, null, 2),
+    entra: entry.authMode ? entry.authMode === "entra" : !request.auth || !("apiKey" in request.auth),
+    clientId: request.auth?.clientId?.trim() || null,
+  };
+};
+
+/**
+ * The base URL most requests share becomes the {{baseUrl}} variable; requests
+ * against another geography keep their own host.
+ */
+const sharedBaseUrl = (requests: ExportedRequest[]) => {
+  const counts = new Map<string, number>();
+  requests.forEach(({ baseUrl }) => counts.set(baseUrl, (counts.get(baseUrl) ?? 0) + 1));
+  return Array.from(counts).sort((a, b) => b[1] - a[1])[0]?.[0] ?? DEFAULT_BASE_URL;
+};
+
+const collectionName = (entries: HistoryEntry[]) =>
+  `Maps Explorer ${new Date(Math.max(...entries.map((entry) => entry.timestamp))).toISOString().slice(0, 10)}`;
+
+const buildPostman = (requests: ExportedRequest[], name: string): ExportFile[] => {
+  const baseUrl = sharedBaseUrl(requests);
+  const clientId = requests.find((request) => request.clientId)?.clientId ?? "";
+  const items = requests.map((request) => {
+    const host = request.baseUrl === baseUrl ? `{{${VARIABLES.baseUrl}}}` : request.baseUrl;
+    const headers = [
+      ...(request.entra
+        ? [{ key: "x-ms-client-id", value: `{{${VARIABLES.clientId}}}` }]
+        : []),
+      ...(request.body ? [{ key: "Content-Type", value: "application/json" }] : []),
+    ];
+    return {
+      name: request.name,
+      request: {
+        method: request.method,
+        header: headers,
+        auth: request.entra
+          ? { type: "bearer", bearer: [{ key: "token", value: `{{${VARIABLES.token}}}`, type: "string" }] }
+          : {
+              type: "apikey",
+              apikey: [
+                { key: "key", value: "subscription-key", type: "string" },
+                { key: "value", value: `{{${VARIABLES.key}}}`, type: "string" },
+                { key: "in", value: "header", type: "string" },
+              ],
+            },
+        url: {
+          raw: `${host}/${request.path}${request.query ? `?${request.query}` : ""}`,
+          host: [host],
+          path: request.path.split("/"),
+          query: Object.entries(request.entry.request.params).map(([key, value]) => ({
+            key,
+            value,
+          })),
+        },
+        ...(request.body
+          ? { body: { mode: "raw", raw: request.body, options: { raw: { language: "json" } } } }
+          : {}),
+      },
+      // Checks the status recorded in history, as a starting point for a test suite.
+      event: [
+        {
+          listen: "test",
+          script: {
+            type: "text/javascript",
+            exec: [
+              `pm.test("Status is ${request.entry.status}", () => {`,
+              `  pm.response.to.have.status(${request.entry.status});`,
+              "});",
+            ],
+          },
+        },
+      ],
+    };
+  });
+
+  const usesKey = requests.some((request) => !request.entra);
+  const usesEntra = requests.some((request) => request.entra);
+  const environment = {
+    name,
+    values: [
+      { key: VARIABLES.baseUrl, value: baseUrl, type: "default", enabled: true },
+      ...(usesKey ? [{ key: VARIABLES.key, value: "", type: "secret", enabled: true }] : []),
+      ...(usesEntra
+        ? [
+            { key: VARIABLES.token, value: "", type: "secret", enabled: true },
+            { key: VARIABLES.clientId, value: clientId, type: "default", enabled: true },
+          ]
+        : []),
+    ],
+    _postman_variable_scope: "environment",
+  };
+  const collection = {
+    info: { name, schema: POSTMAN_SCHEMA },
+    item: items,
+    // Lets the collection run without the environment; credentials stay in the environment.
+    variable: [{ key: VARIABLES.baseUrl, value: baseUrl }],
+  };
+  return [
+    {
+      fileName: "maps-explorer.postman_collection.json",
+      content: JSON.stringify(collection, null, 2),
+      type: "application/json",
+    },
+    {
+      fileName: "maps-explorer.postman_environment.json",
+      content: JSON.stringify(environment, null, 2),
+      type: "application/json",
+    },
+  ];
+};
+
+const toNameValues = (values: Record<string, string>) =>
+  Object.entries(values).map(([name, value]) => ({ name, value }));
+
+/**
+ * A HAR 1.2 log with the recorded responses. Credentials are left out of the
+ * request headers; bodies too large for history are noted in the content comment.
+ */
+const buildHar = (requests: ExportedRequest[]): ExportFile[] => {
+  const entries = requests.map((request) => {
+    const { entry } = request;
+    const response = entry.response;
+    const requestHeaders: Record<string, string> = {
+      ...(request.entra && request.clientId ? { "x-ms-client-id": request.clientId } : {}),
+      ...(request.body ? { "content-type": "application/json" } : {}),
+    };
+    const bodySize = request.body ? new TextEncoder().encode(request.body).byteLength : 0;
+    return {
+      startedDateTime: new Date(entry.timestamp).toISOString(),
+      time: entry.durationMs,
+      request: {
+        method: request.method,
+        url: `${request.baseUrl}/${request.path}${request.query ? `?${request.query}` : ""}`,
+        httpVersion: "HTTP/1.1",
+        cookies: [],
+        headers: toNameValues(requestHeaders),
+        queryString: toNameValues(entry.request.params),
+        ...(request.body ? { postData: { mimeType: "application/json", text: request.body } } : {}),
+        headersSize: -1,
+        bodySize,
+      },
+      response: {
+        status: entry.status,
+        statusText: response?.statusText ?? "",
+        httpVersion: "HTTP/1.1",
+        cookies: [],
+        headers: toNameValues(response?.headers ?? {}),
+        content: {
+          size: response?.size ?? 0,
+          mimeType: response?.headers["content-type"] ?? "",
+          ...(response?.raw ? { text: response.raw } : {}),
+          ...(response?.raw && response.encoding ? { encoding: response.encoding } : {}),
+          ...(!response
+            ? { comment: "The response was not recorded." }
+            : response.omitted
+              ? { comment: "The response body was too large to keep in history." }
+              : {}),
+        },
+        redirectURL: "",
+        headersSize: -1,
+        bodySize: response?.size ?? -1,
+      },
+      cache: {},
+      timings: { send: 0, wait: entry.durationMs, receive: 0 },
+    };
+  });
+  return [
+    {
+      fileName: "maps-explorer.har",
+      content: JSON.stringify(
+        { log: { version: "1.2", creator: { name: "maps-explorer", version: "0.1.0" }, entries } },
+        null,
+        2
+      ),
+      type: "application/json",
+    },
+  ];
+};
+
+/**
+ * A VS Code REST Client file. Credentials come from the same environment
+ * variables as the code snippets, read with $processEnv.
+ */
+const buildHttp = (requests: ExportedRequest[]): ExportFile[] => {
+  const baseUrl = sharedBaseUrl(requests);
+  const usesKey = requests.some((request) => !request.entra);
+  const usesEntra = requests.some((request) => request.entra);
+  const clientId = requests.find((request) => request.clientId)?.clientId;
+  const variables = [
+    `@${VARIABLES.baseUrl} = ${baseUrl}`,
+    ...(usesKey ? [`@${VARIABLES.key} = {{$processEnv ${SNIPPET_ENV.key}}}`] : []),
+    ...(usesEntra
+      ? [
+          `@${VARIABLES.token} = {{$processEnv ${SNIPPET_ENV.token}}}`,
+          `@${VARIABLES.clientId} = ${clientId ?? `{{$processEnv ${SNIPPET_ENV.clientId}}}`}`,
+        ]
+      : []),
+  ];
+  const blocks = requests.map((request) => {
+    const host = request.baseUrl === baseUrl ? `{{${VARIABLES.baseUrl}}}` : request.baseUrl;
+    const lines = [
+      `### ${request.name} (${request.entry.status})`,
+      `${request.method} ${host}/${request.path}${request.query ? `?${request.query}` : ""}`,
+      ...(request.entra
+        ? [
+            `Authorization: Bearer {{${VARIABLES.token}}}`,
+            `x-ms-client-id: {{${VARIABLES.clientId}}}`,
+          ]
+        : [`subscription-key: {{${VARIABLES.key}}}`]),
+      ...(request.body ? ["Content-Type: application/json", "", request.body] : []),
+    ];
+    return lines.join("\n");
+  });
+  return [
+    {
+      fileName: "maps-explorer.http",
+      content: `${[variables.join("\n"), ...blocks].join("\n\n")}\n`,
+      type: "text/plain",
+    },
+  ];
+};
+
+/** Exports history entries, oldest first, as the files for the given format. */
+export const exportHistory = (format: ExportFormat, entries: HistoryEntry[]): ExportFile[] => {
+  if (entries.length === 0) return [];
+  const requests = [...entries].sort((a, b) => a.timestamp - b.timestamp).map(toExported);
+  if (format === "postman") return buildPostman(requests, collectionName(entries));
+  if (format === "har") return buildHar(requests);
+  return buildHttp(requests);
+};
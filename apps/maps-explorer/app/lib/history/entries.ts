@@ -0,0 +1,137 @@
+import type { ApiResponse, HistoryEntry, RequestShape } from "../types";
+
+export type HistoryRetention = {
+  maxEntries: number;
+  maxAgeDays: number;
+  // Response bodies larger than this are dropped; the entry keeps status and size.
+  maxBodyKb: number;
+};
+
+export const DEFAULT_RETENTION: HistoryRetention = {
+  maxEntries: 5000,
+  maxAgeDays: 30,
+  maxBodyKb: 256,
+};
+
+export const statusClasses = ["2xx", "3xx", "4xx", "5xx"] as const;
+
+export type StatusClass = (typeof statusClasses)[number];
+
+export type HistoryQuery = {
+  text: string;
+  preset: string;
+  status: StatusClass | "";
+  // Inclusive bounds in epoch milliseconds.
+  from: number | null;
+  to: number | null;
+  pinnedOnly: boolean;
+};
+
+export const EMPTY_QUERY: HistoryQuery = {
+  text: "",
+  preset: "",
+  status: "",
+  from: null,
+  to: null,
+  pinnedOnly: false,
+};
+
+export const toHistoryEntry = (
+  request: RequestShape,
+  response: ApiResponse,
+  options: { authMode: HistoryEntry["authMode"]; preset?: string; maxBodyKb: number }
+): HistoryEntry => {
+  const omitted = response.raw.length > options.maxBodyKb * 1024;
+  return {
+    id: `${Date.now()}-${Math.random().toString(16).slice(2)}`,
+    request,
+    timestamp: Date.now(),
+    status: response.meta.status,
+    durationMs: response.meta.durationMs,
+    authMode: options.authMode,
+    ...(options.preset ? { preset: options.preset } : {}),
+    response: {
+      statusText: response.meta.statusText,
+      headers: response.meta.headers,
+      raw: omitted ? "" : response.raw,
+      ...(response.encoding ? { encoding: response.encoding } : {}),
+      size: response.size ?? response.raw.length,
+      ...(omitted ? { omitted } : {}),
+    },
+  };
+};
+
+/** Rebuilds the response panel's view of a stored entry. */
+export const toApiResponse = (entry: HistoryEntry): ApiResponse | null => {
+  const { response } = entry;
+  if (!response) return null;
+  let body: unknown = response.raw;
+  if (response.encoding) {
+    body = { contentType: response.headers["content-type"] ?? "", size: response.size, encoding: "base64" };
+  } else if (response.omitted) {
+    body = { message: `The ${response.size}-byte body was too large to keep in history.` };
+  } else if ((response.headers["content-type"] ?? "").includes("json")) {
+    try {
+      body = JSON.parse(response.raw);
+    } catch {
+      body = response.raw;
+    }
+  }
+  return {
+    meta: {
+      status: entry.status,
+      statusText: response.statusText,
+      headers: response.headers,
+      durationMs: entry.durationMs,
+      url: "",
+    },
+    body,
+    raw: response.raw,
+    ...(response.encoding ? { encoding: response.encoding } : {}),
+    size: response.size,
+  };
+};
+
+// Lowercased text the search runs against; base64 bodies are not searchable.
+const searchableText = (entry: HistoryEntry) => {
+  const { request, response } = entry;
+  return [
+    request.path,
+    ...Object.entries(request.params).map(([key, value]) => `${key}=${value}`),
+    request.body === undefined ? "" : JSON.stringify(request.body),
+    response && !response.encoding ? response.raw : "",
+    entry.note ?? "",
+  ]
+    .join("\n")
+    .toLowerCase();
+};
+
+/** Every whitespace-separated search term must appear somewhere in the entry. */
+export const matchesHistoryQuery = (entry: HistoryEntry, query: HistoryQuery) => {
+  if (query.pinnedOnly && !entry.pinned) return false;
+  if (query.preset && entry.preset !== query.preset) return false;
+  if (query.status && `${Math.floor(entry.status / 100)}xx` !== query.status) return false;
+  if (query.from !== null && entry.timestamp < query.from) return false;
+  if (query.to !== null && entry.timestamp > query.to) return false;
+  const terms = query.text.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return true;
+  const text = searchableText(entry);
+  return terms.every((term) => text.includes(term));
+};
+
+/**
+ * Ids of entries past the retention limits: older than maxAgeDays, or beyond
+ * the newest maxEntries. Pinned entries are kept and don't count toward the cap.
+ */
+export const expiredHistoryIds = (
+  entries: Pick<HistoryEntry, "id" | "timestamp" | "pinned">[],
+  retention: HistoryRetention,
+  now = Date.now()
+) => {
+  const cutoff = now - retention.maxAgeDays * 24 * 60 * 60 * 1000;
+  return entries
+    .filter((entry) => !entry.pinned)
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .filter((entry, index) => index >= retention.maxEntries || entry.timestamp < cutoff)
+    .map((entry) => entry.id);
+};
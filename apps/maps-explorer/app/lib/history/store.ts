@@ -0,0 +1,230 @@
+import type { HistoryEntry } from "../types";
+import { expiredHistoryIds, matchesHistoryQuery, type HistoryQuery, type HistoryRetention } from "./entries";
+
+const DB_NAME = "maps-explorer-history";
+const DB_VERSION = 2;
+const STORE = "entries";
+// Pinned entries first, each group newest first; pages are read without a scan.
+const ORDER_INDEX = "pinnedTimestamp";
+// The localStorage history kept before IndexedDB; moved over once on open.
+export const LEGACY_HISTORY_KEY = "maps-explorer-history";
+
+export type HistoryPage = {
+  entries: HistoryEntry[];
+  total: number;
+};
+
+// IndexedDB can't index booleans, so records carry the pin as a number too.
+type StoredEntry = HistoryEntry & { pinRank: 0 | 1 };
+
+const toStored = (entry: HistoryEntry): StoredEntry => ({
+  ...entry,
+  pinRank: entry.pinned ? 1 : 0,
+});
+
+const promised = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const completed = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+// Visits entries newest first; the cursor value is only held for the callback.
+const eachEntry = (database: IDBDatabase, visit: (entry: HistoryEntry) => void) =>
+  new Promise<void>((resolve, reject) => {
+    const request = database
+      .transaction(STORE)
+      .objectStore(STORE)
+      .index("timestamp")
+      .openCursor(null, "prev");
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve();
+        return;
+      }
+      visit(cursor.value as HistoryEntry);
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+
+const migrateLegacyHistory = async (database: IDBDatabase) => {
+  const stored = localStorage.getItem(LEGACY_HISTORY_KEY);
+  if (!stored) return;
+  try {
+    const entries = JSON.parse(stored) as HistoryEntry[];
+    const transaction = database.transaction(STORE, "readwrite");
+    entries.forEach((entry) => transaction.objectStore(STORE).put(toStored(entry)));
+    await completed(transaction);
+  } catch {
+    // Unreadable legacy history is dropped rather than blocking the new store.
+  }
+  localStorage.removeItem(LEGACY_HISTORY_KEY);
+};
+
+export const openHistoryStore = async () => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = (event) => {
+    const store =
+      event.oldVersion < 1
+        ? request.result.createObjectStore(STORE, { keyPath: "id" })
+        : request.transaction?.objectStore(STORE);
+    if (!store) return;
+    if (event.oldVersion < 1) store.createIndex("timestamp", "timestamp");
+    if (event.oldVersion < 2) {
+      store.createIndex(ORDER_INDEX, ["pinRank", "timestamp"]);
+      // Entries written before version 2 gain their pin rank.
+      const cursorRequest = store.openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) return;
+        cursor.update(toStored(cursor.value as HistoryEntry));
+        cursor.continue();
+      };
+    }
+  };
+  const database = await promised(request);
+  await migrateLegacyHistory(database);
+  return database;
+};
+
+export const putHistoryEntry = async (database: IDBDatabase, entry: HistoryEntry) => {
+  const transaction = database.transaction(STORE, "readwrite");
+  transaction.objectStore(STORE).put(toStored(entry));
+  await completed(transaction);
+};
+
+export const updateHistoryEntry = async (
+  database: IDBDatabase,
+  id: string,
+  patch: Partial<Pick<HistoryEntry, "pinned" | "note">>
+) => {
+  const transaction = database.transaction(STORE, "readwrite");
+  const store = transaction.objectStore(STORE);
+  const entry = (await promised(store.get(id))) as HistoryEntry | undefined;
+  if (entry) store.put(toStored({ ...entry, ...patch }));
+  await completed(transaction);
+};
+
+export const deleteHistoryEntries = async (database: IDBDatabase, ids: string[]) => {
+  if (ids.length === 0) return;
+  const transaction = database.transaction(STORE, "readwrite");
+  ids.forEach((id) => transaction.objectStore(STORE).delete(id));
+  await completed(transaction);
+};
+
+export const getHistoryEntries = async (database: IDBDatabase, ids: string[]) => {
+  const store = database.transaction(STORE).objectStore(STORE);
+  const entries = await Promise.all(ids.map((id) => promised(store.get(id))));
+  return entries.filter(Boolean) as HistoryEntry[];
+};
+
+export const countHistoryEntries = (database: IDBDatabase) =>
+  promised(database.transaction(STORE).objectStore(STORE).count());
+
+// Entries with one pin rank inside the query's date bounds.
+const orderRange = (pinRank: 0 | 1, query: HistoryQuery) =>
+  IDBKeyRange.bound([pinRank, query.from ?? -Infinity], [pinRank, query.to ?? Infinity]);
+
+// Reads up to `limit` entries of a range, newest first, after skipping `offset`.
+const readOrderRange = (
+  database: IDBDatabase,
+  range: IDBKeyRange,
+  offset: number,
+  limit: number
+) =>
+  new Promise<HistoryEntry[]>((resolve, reject) => {
+    const entries: HistoryEntry[] = [];
+    const request = database
+      .transaction(STORE)
+      .objectStore(STORE)
+      .index(ORDER_INDEX)
+      .openCursor(range, "prev");
+    let skipped = offset === 0;
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve(entries);
+        return;
+      }
+      if (!skipped) {
+        skipped = true;
+        cursor.advance(offset);
+        return;
+      }
+      entries.push(cursor.value as HistoryEntry);
+      if (entries.length < limit) cursor.continue();
+      else resolve(entries);
+    };
+    request.onerror = () => reject(request.error);
+  });
+
+/** A page straight from the order index: counts per pin rank, then only the page is read. */
+const readIndexedPage = async (
+  database: IDBDatabase,
+  query: HistoryQuery,
+  offset: number,
+  limit: number
+): Promise<HistoryPage> => {
+  const entries: HistoryEntry[] = [];
+  let total = 0;
+  let skip = offset;
+  for (const pinRank of query.pinnedOnly ? ([1] as const) : ([1, 0] as const)) {
+    const range = orderRange(pinRank, query);
+    const count = await promised(
+      database.transaction(STORE).objectStore(STORE).index(ORDER_INDEX).count(range)
+    );
+    total += count;
+    if (skip >= count) {
+      skip -= count;
+      continue;
+    }
+    if (entries.length < limit) {
+      entries.push(...(await readOrderRange(database, range, skip, limit - entries.length)));
+    }
+    skip = 0;
+  }
+  return { entries, total };
+};
+
+/**
+ * One page of matching entries, pinned first and then newest first. Date and
+ * pinned filters are answered from the order index; text, preset and status
+ * filters scan every entry, keeping only ids so thousands of stored bodies
+ * never sit in memory at once.
+ */
+export const queryHistory = async (
+  database: IDBDatabase,
+  query: HistoryQuery,
+  offset: number,
+  limit: number
+): Promise<HistoryPage> => {
+  if (!query.text.trim() && !query.preset && !query.status) {
+    return readIndexedPage(database, query, offset, limit);
+  }
+  const pinned: string[] = [];
+  const rest: string[] = [];
+  await eachEntry(database, (entry) => {
+    if (matchesHistoryQuery(entry, query)) (entry.pinned ? pinned : rest).push(entry.id);
+  });
+  const ids = [...pinned, ...rest];
+  return {
+    entries: await getHistoryEntries(database, ids.slice(offset, offset + limit)),
+    total: ids.length,
+  };
+};
+
+export const pruneHistory = async (database: IDBDatabase, retention: HistoryRetention) => {
+  const summaries: Pick<HistoryEntry, "id" | "timestamp" | "pinned">[] = [];
+  await eachEntry(database, ({ id, timestamp, pinned }) => summaries.push({ id, timestamp, pinned }));
+  const expired = expiredHistoryIds(summaries, retention);
+  await deleteHistoryEntries(database, expired);
+  return expired.length;
+};
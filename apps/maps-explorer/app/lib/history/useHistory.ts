@@ -0,0 +1,170 @@
+import { useCallback, useEffect, useState } from "react";
+import type { ApiResponse, HistoryEntry, RequestShape } from "../types";
+import {
+  DEFAULT_RETENTION,
+  EMPTY_QUERY,
+  toHistoryEntry,
+  type HistoryQuery,
+  type HistoryRetention,
+} from "./entries";
+import {
+  countHistoryEntries,
+  deleteHistoryEntries,
+  getHistoryEntries,
+  openHistoryStore,
+  pruneHistory,
+  putHistoryEntry,
+  queryHistory,
+  updateHistoryEntry,
+  type HistoryPage,
+} from "./store";
+
+const RETENTION_KEY = "maps-explorer-history-retention";
+
+export const HISTORY_PAGE_SIZE = 20;
+
+const readRetention = (): HistoryRetention => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(RETENTION_KEY) ?? "{}") as Partial<HistoryRetention>;
+    return { ...DEFAULT_RETENTION, ...stored };
+  } catch {
+    return DEFAULT_RETENTION;
+  }
+};
+
+/**
+ * IndexedDB-backed request history: the current page for a search, plus
+ * recording, pinning, notes and retention. Every write bumps `version` so the
+ * page reloads; expired entries are pruned on open and when the cap is hit.
+ */
+export const useHistory = () => {
+  const [database, setDatabase] = useState<IDBDatabase | null>(null);
+  const [error, setError] = useState("");
+  const [retention, setRetentionState] = useState<HistoryRetention>(DEFAULT_RETENTION);
+  const [query, setQueryState] = useState<HistoryQuery>(EMPTY_QUERY);
+  const [pageIndex, setPageIndex] = useState(0);
+  const [page, setPage] = useState<HistoryPage>({ entries: [], total: 0 });
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    let opened: IDBDatabase | null = null;
+    let cancelled = false;
+    openHistoryStore()
+      .then(async (result) => {
+        opened = result;
+        if (cancelled) {
+          result.close();
+          return;
+        }
+        const stored = readRetention();
+        await pruneHistory(result, stored);
+        if (cancelled) return;
+        setRetentionState(stored);
+        setDatabase(result);
+      })
+      .catch(() => {
+        if (!cancelled) setError("History is unavailable: this browser blocked IndexedDB.");
+      });
+    return () => {
+      cancelled = true;
+      opened?.close();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!database) return;
+    let cancelled = false;
+    queryHistory(database, query, pageIndex * HISTORY_PAGE_SIZE, HISTORY_PAGE_SIZE)
+      .then((result) => {
+        if (cancelled) return;
+        // A delete can leave the current page past the end.
+        if (result.entries.length === 0 && pageIndex > 0) setPageIndex(pageIndex - 1);
+        else setPage(result);
+      })
+      .catch(() => {
+        if (!cancelled) setError("Failed to read history.");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [database, query, pageIndex, version]);
+
+  // Runs a write and reloads the page; failures show in the panel instead of rejecting.
+  const write = useCallback(
+    async (action: (database: IDBDatabase) => Promise<unknown>) => {
+      if (!database) return;
+      try {
+        await action(database);
+      } catch {
+        setError("Failed to save history.");
+      }
+      setVersion((value) => value + 1);
+    },
+    [database]
+  );
+
+  const setQuery = useCallback((next: HistoryQuery) => {
+    setQueryState(next);
+    setPageIndex(0);
+  }, []);
+
+  const record = useCallback(
+    (
+      request: RequestShape,
+      response: ApiResponse,
+      options: { authMode: HistoryEntry["authMode"]; preset?: string }
+    ) =>
+      write(async (opened) => {
+        await putHistoryEntry(
+          opened,
+          toHistoryEntry(request, response, { ...options, maxBodyKb: retention.maxBodyKb })
+        );
+        if ((await countHistoryEntries(opened)) > retention.maxEntries) {
+          await pruneHistory(opened, retention);
+        }
+      }),
+    [write, retention]
+  );
+
+  const update = useCallback(
+    (id: string, patch: Partial<Pick<HistoryEntry, "pinned" | "note">>) =>
+      write((opened) => updateHistoryEntry(opened, id, patch)),
+    [write]
+  );
+
+  const remove = useCallback(
+    (ids: string[]) => write((opened) => deleteHistoryEntries(opened, ids)),
+    [write]
+  );
+
+  const getEntries = useCallback(
+    async (ids: string[]) => (database ? getHistoryEntries(database, ids) : []),
+    [database]
+  );
+
+  const setRetention = useCallback(
+    (next: HistoryRetention) => {
+      setRetentionState(next);
+      localStorage.setItem(RETENTION_KEY, JSON.stringify(next));
+      return write((opened) => pruneHistory(opened, next));
+    },
+    [write]
+  );
+
+  return {
+    error,
+    retention,
+    setRetention,
+    query,
+    setQuery,
+    pageIndex,
+    setPageIndex,
+    page,
+    record,
+    update,
+    remove,
+    getEntries,
+  };
+};
+
+export type HistoryState = ReturnType<typeof useHistory>;
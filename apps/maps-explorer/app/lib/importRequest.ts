@@ -0,0 +1,347 @@
+import { endpointCatalog, findCatalogEntry } from "./endpointCatalog";
+import { parseCurl } from "./parseCurl";
+import type { HttpMethod, RequestShape } from "./types";
+import { isBaseUrlSafe, isPathSafe, normalizePath } from "./validation";
+
+export type ImportFormat = "curl" | "postman" | "har";
+
+export type ImportedAuth = "key" | "entra" | "sas" | "none";
+
+export type ImportedRequest = {
+  format: ImportFormat;
+  name: string;
+  request: RequestShape;
+  auth: ImportedAuth;
+  // What the proxy would reject, and what could not be carried over.
+  issues: string[];
+};
+
+export type ImportResult =
+  | { ok: true; requests: ImportedRequest[]; skipped: string[] }
+  | { ok: false; message: string };
+
+type Header = { name: string; value: string };
+
+type RawRequest = {
+  name?: string;
+  method: string;
+  url: string;
+  headers: Header[];
+  body?: string;
+  issues?: string[];
+};
+
+const METHODS: HttpMethod[] = ["GET", "POST", "PUT", "PATCH", "DELETE"];
+
+const AZURE_MAPS_HOST = /(^|\.)atlas\.microsoft\.com$/i;
+
+const header = (headers: Header[], name: string) =>
+  headers.find((item) => item.name.toLowerCase() === name)?.value.trim();
+
+const decodePath = (pathname: string) => {
+  try {
+    return normalizePath(decodeURIComponent(pathname));
+  } catch {
+    return normalizePath(pathname);
+  }
+};
+
+/**
+ * Turns a raw method/URL/headers/body into the proxy's request shape. Credentials
+ * are detected but never copied: replays use the explorer's own key or sign-in.
+ */
+const toImportedRequest = (
+  format: ImportFormat,
+  raw: RawRequest
+): ImportedRequest | string => {
+  let url: URL;
+  try {
+    url = new URL(raw.url);
+  } catch {
+    return `"${raw.url}" is not an absolute URL.`;
+  }
+  const issues = [...(raw.issues ?? [])];
+  const baseUrl = `${url.protocol}//${url.host}`;
+  const path = decodePath(url.pathname);
+
+  const params: Record<string, string> = {};
+  let queryKey = false;
+  url.searchParams.forEach((value, key) => {
+    if (key.toLowerCase() === "subscription-key") queryKey = true;
+    else params[key] = value;
+  });
+
+  const authorization = header(raw.headers, "authorization") ?? "";
+  const auth: ImportedAuth =
+    queryKey || header(raw.headers, "subscription-key")
+      ? "key"
+      : /^bearer\s/i.test(authorization)
+        ? "entra"
+        : /^jwt-sas\s/i.test(authorization)
+          ? "sas"
+          : "none";
+  if (auth === "key" || auth === "entra") {
+    issues.push(
+      `The ${auth === "key" ? "subscription key" : "bearer token"} was not imported; the request uses the explorer's own credentials.`
+    );
+  }
+  if (auth === "sas") {
+    issues.push("SAS token auth is not supported by the proxy; use Entra or a subscription key.");
+  }
+  const clientId = header(raw.headers, "x-ms-client-id");
+
+  const requested = raw.method.toUpperCase();
+  const method = METHODS.find((item) => item === requested) ?? "GET";
+  if (method !== requested) {
+    issues.push(`${requested} is not supported by the proxy; imported as GET.`);
+  }
+
+  let body: unknown;
+  if (raw.body?.trim()) {
+    try {
+      body = JSON.parse(raw.body);
+    } catch {
+      body = raw.body;
+      issues.push("The body is not JSON; the proxy forwards JSON bodies only.");
+    }
+  }
+
+  if (!isPathSafe(path)) {
+    issues.push(`Path "${path}" will be rejected by the proxy.`);
+  } else {
+    const entry = findCatalogEntry(endpointCatalog, path);
+    if (!entry) {
+      issues.push(`"${path}" is not in the built-in endpoint catalog.`);
+    } else if (!entry.methods.includes(method)) {
+      issues.push(`${method} is not allowed for "${path}" (allowed: ${entry.methods.join(", ")}).`);
+    }
+  }
+  if (!isBaseUrlSafe(baseUrl)) {
+    issues.push(`Base URL "${baseUrl}" will be rejected by the proxy; it must use https.`);
+  } else if (!AZURE_MAPS_HOST.test(url.hostname)) {
+    issues.push(`${url.host} is not an Azure Maps geography; the proxy only accepts it if allowlisted.`);
+  }
+
+  return {
+    format,
+    name: raw.name || `${method} ${path}`,
+    request: {
+      path,
+      params,
+      method,
+      baseUrl,
+      ...(body === undefined ? {} : { body }),
+      ...(clientId ? { auth: { clientId } } : {}),
+    },
+    auth,
+    issues,
+  };
+};
+
+const collect = (format: ImportFormat, raws: RawRequest[]): ImportResult => {
+  const requests: ImportedRequest[] = [];
+  const skipped: string[] = [];
+  raws.forEach((raw) => {
+    const imported = toImportedRequest(format, raw);
+    if (typeof imported === "string") skipped.push(imported);
+    else requests.push(imported);
+  });
+  if (requests.length === 0) {
+    return { ok: false, message: skipped[0] ?? "No requests found." };
+  }
+  return { ok: true, requests, skipped };
+};
+
+const fromCurl = (command: string): ImportResult => {
+  const parsed = parseCurl(command);
+  if (!parsed.ok) return parsed;
+  const { method, url, headers, body } = parsed.curl;
+  return collect("curl", [
+    {
+      method,
+      url,
+      headers: Object.entries(headers).map(([name, value]) => ({ name, value })),
+      body,
+    },
+  ]);
+};
+
+type PostmanKeyValue = { key?: string | null; value?: unknown; disabled?: boolean };
+
+type PostmanAuth = {
+  type?: string;
+  apikey?: PostmanKeyValue[];
+  bearer?: PostmanKeyValue[];
+};
+
+type PostmanUrl =
+  | string
+  | {
+      raw?: string;
+      protocol?: string;
+      host?: string | string[];
+      path?: string | string[];
+      query?: PostmanKeyValue[];
+    };
+
+type PostmanRequest =
+  | string
+  | {
+      method?: string;
+      header?: PostmanKeyValue[];
+      url?: PostmanUrl;
+      body?: { mode?: string; raw?: string; urlencoded?: PostmanKeyValue[] };
+      auth?: PostmanAuth;
+    };
+
+type PostmanItem = {
+  name?: string;
+  request?: PostmanRequest;
+  item?: PostmanItem[];
+  auth?: PostmanAuth;
+};
+
+type PostmanCollection = PostmanItem & {
+  info?: { schema?: string };
+  variable?: PostmanKeyValue[];
+};
+
+const enabled = (items: PostmanKeyValue[] | undefined) =>
+  (items ?? []).filter((item) => !item.disabled && item.key);
+
+const authValue = (items: PostmanKeyValue[] | undefined, key: string) =>
+  String(items?.find((item) => item.key === key)?.value ?? "");
+
+const postmanUrl = (url: PostmanUrl | undefined) => {
+  if (typeof url === "string") return url;
+  if (!url) return "";
+  if (url.raw) return url.raw;
+  const join = (value: string | string[] | undefined, separator: string) =>
+    Array.isArray(value) ? value.join(separator) : (value ?? "");
+  const query = enabled(url.query)
+    .map((item) => `${item.key}=${String(item.value ?? "")}`)
+    .join("&");
+  return `${url.protocol ?? "https"}://${join(url.host, ".")}/${join(url.path, "/")}${
+    query ? `?${query}` : ""
+  }`;
+};
+
+/**
+ * Requests from a Postman v2.1 collection (folders included) or a single item.
+ * {{variables}} resolve from the collection; auth is inherited from folders.
+ */
+const fromPostman = (collection: PostmanCollection): ImportResult => {
+  const variables = new Map(
+    enabled(collection.variable).map((item) => [item.key as string, String(item.value ?? "")])
+  );
+  const raws: RawRequest[] = [];
+
+  const visit = (item: PostmanItem, inheritedAuth?: PostmanAuth) => {
+    const auth = item.auth ?? inheritedAuth;
+    item.item?.forEach((child) => visit(child, auth));
+    if (!item.request) return;
+
+    const unresolved = new Set<string>();
+    const resolve = (value: string) =>
+      value.replace(/\{\{([^}]+)\}\}/g, (match, name: string) => {
+        const resolved = variables.get(name.trim());
+        if (resolved === undefined) unresolved.add(name.trim());
+        return resolved ?? match;
+      });
+
+    const request = typeof item.request === "string" ? { url: item.request } : item.request;
+    const requestAuth = request.auth ?? auth;
+    const headers: Header[] = enabled(request.header).map((entry) => ({
+      name: resolve(String(entry.key)),
+      value: resolve(String(entry.value ?? "")),
+    }));
+    let url = resolve(postmanUrl(request.url));
+    if (requestAuth?.type === "apikey") {
+      const name = resolve(authValue(requestAuth.apikey, "key"));
+      const value = resolve(authValue(requestAuth.apikey, "value"));
+      if (authValue(requestAuth.apikey, "in") === "query") {
+        url = `${url}${url.includes("?") ? "&" : "?"}${encodeURIComponent(name)}=${encodeURIComponent(value)}`;
+      } else {
+        headers.push({ name, value });
+      }
+    } else if (requestAuth?.type === "bearer") {
+      headers.push({
+        name: "Authorization",
+        value: `Bearer ${resolve(authValue(requestAuth.bearer, "token"))}`,
+      });
+    }
+
+    const issues: string[] = [];
+    let body: string | undefined;
+    const mode = request.body?.mode;
+    if (mode === "raw") body = resolve(request.body?.raw ?? "");
+    else if (mode) issues.push(`Postman body mode "${mode}" was not imported.`);
+    if (unresolved.size > 0) {
+      issues.push(`Unresolved variables: ${Array.from(unresolved, (name) => `{{${name}}}`).join(", ")}.`);
+    }
+    raws.push({ name: item.name, method: request.method ?? "GET", url, headers, body, issues });
+  };
+
+  visit(collection, collection.auth);
+  return collect("postman", raws);
+};
+
+type HarEntry = {
+  request?: {
+    method?: string;
+    url?: string;
+    headers?: { name?: string; value?: string }[];
+    postData?: { text?: string };
+  };
+};
+
+/**
+ * HAR entries, limited to Azure Maps hosts when the capture has any, so a
+ * whole-page recording doesn't list every script and image.
+ */
+const fromHar = (entries: HarEntry[]): ImportResult => {
+  const raws = entries
+    .map((entry) => entry.request)
+    .filter((request) => /^https?:/i.test(request?.url ?? ""))
+    .map((request) => ({
+      method: request?.method ?? "GET",
+      url: request?.url ?? "",
+      headers: (request?.headers ?? []).map((item) => ({
+        name: item.name ?? "",
+        value: item.value ?? "",
+      })),
+      body: request?.postData?.text,
+    }));
+  const maps = raws.filter((raw) => {
+    try {
+      return AZURE_MAPS_HOST.test(new URL(raw.url).hostname);
+    } catch {
+      return false;
+    }
+  });
+  return collect("har", maps.length > 0 ? maps : raws);
+};
+
+/** Detects curl, Postman v2.1 or HAR input and imports every request in it. */
+export const importRequests = (input: string): ImportResult => {
+  const text = input.trim();
+  if (/^curl(\.exe)?\s/i.test(text)) return fromCurl(text);
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return {
+      ok: false,
+      message: "Paste a curl command, a Postman v2.1 collection or item, or a HAR file.",
+    };
+  }
+  const document = (parsed ?? {}) as PostmanCollection & { log?: { entries?: HarEntry[] } };
+  if (Array.isArray(document.log?.entries)) return fromHar(document.log.entries);
+  const schema = document.info?.schema ?? "";
+  if (schema && !schema.includes("v2.1")) {
+    return { ok: false, message: "Only Postman v2.1 collections are supported." };
+  }
+  if (Array.isArray(document.item) || document.request) return fromPostman(document);
+  return { ok: false, message: "The JSON is neither a Postman collection nor a HAR file." };
+};
@@ -0,0 +1,114 @@
+import "server-only";
+import type { MockMapsResponse } from "./maps";
+import {
+  DEFAULT_MOCK_LATENCY_MS,
+  MAX_MOCK_LATENCY_MS,
+  MOCK_LATENCY_HEADER,
+  MOCK_SCENARIO_HEADER,
+  isMockScenario,
+  type MockScenario,
+} from "./scenarios";
+
+export const MOCK_RETRY_AFTER_SECONDS = 2;
+
+export type MockScenarioSelection =
+  | { ok: true; scenario: MockScenario; latencyMs: number }
+  | { ok: false; message: string };
+
+/** Reads the scenario and latency from headers, falling back to query params. */
+export const readMockScenario = (request: Request): MockScenarioSelection => {
+  const { searchParams } = new URL(request.url);
+  const scenario =
+    request.headers.get(MOCK_SCENARIO_HEADER) ?? searchParams.get("scenario") ?? "none";
+  if (!isMockScenario(scenario)) {
+    return { ok: false, message: `Unknown mock scenario "${scenario}".` };
+  }
+  const latency = Number.parseInt(
+    request.headers.get(MOCK_LATENCY_HEADER) ?? searchParams.get("latencyMs") ?? "",
+    10
+  );
+  const latencyMs = Number.isFinite(latency)
+    ? Math.min(Math.max(latency, 0), MAX_MOCK_LATENCY_MS)
+    : DEFAULT_MOCK_LATENCY_MS;
+  return { ok: true, scenario, latencyMs };
+};
+
+const mapsError = (
+  status: number,
+  code: string,
+  message: string,
+  headers?: Record<string, string>
+): MockMapsResponse => ({
+  status,
+  contentType: "application/json; charset=utf-8",
+  body: { error: { code, message } },
+  headers,
+});
+
+// Error bodies as Azure Maps returns them for each failure.
+const FAULTS: Partial<Record<MockScenario, MockMapsResponse>> = {
+  "invalid-key": mapsError(
+    401,
+    "401 Unauthorized",
+    "Access denied due to invalid subscription key or wrong API endpoint. Make sure to provide a valid key for an active subscription and use a correct regional API endpoint for your resource."
+  ),
+  "rbac-missing": mapsError(
+    403,
+    "403 Forbidden",
+    "The principal does not have permission to perform this operation. Assign the Azure Maps Data Reader role (or a role granting Microsoft.Maps/accounts/services/data/read) to the identity on the Azure Maps account."
+  ),
+  "rate-limited": mapsError(
+    429,
+    "429 TooManyRequests",
+    `Rate limit is exceeded. Try again in ${MOCK_RETRY_AFTER_SECONDS} seconds.`,
+    { "retry-after": String(MOCK_RETRY_AFTER_SECONDS) }
+  ),
+  "server-error": mapsError(
+    500,
+    "500 InternalServerError",
+    "An internal error occurred. Please retry the request."
+  ),
+};
+
+// Keeps the response shape but drops every result: arrays are emptied,
+// counts zeroed and IP geolocation loses its country.
+const emptyBody = (body: Record<string, unknown>) =>
+  Object.fromEntries(
+    Object.entries(body).map(([key, value]) => {
+      if (Array.isArray(value)) return [key, []];
+      if (key === "countryRegion") return [key, null];
+      if (key === "summary" && value && typeof value === "object") {
+        return [key, { ...value, numResults: 0, totalResults: 0 }];
+      }
+      return [key, value];
+    })
+  );
+
+/**
+ * Applies a fault to a fixture response. Timeouts and delays are handled by
+ * the route, since they are about when (or whether) it answers.
+ */
+export const applyMockScenario = (
+  scenario: MockScenario,
+  response: MockMapsResponse
+): MockMapsResponse => {
+  const fault = FAULTS[scenario];
+  if (fault) return fault;
+  const isJsonSuccess =
+    response.status < 300 &&
+    !Buffer.isBuffer(response.body) &&
+    response.body !== null &&
+    typeof response.body === "object";
+  if (scenario === "empty-results" && isJsonSuccess) {
+    return { ...response, body: emptyBody(response.body as Record<string, unknown>) };
+  }
+  if (scenario === "malformed-json" && isJsonSuccess) {
+    // Cut the document off mid-way, like a connection dropped by a gateway.
+    const text = JSON.stringify(response.body);
+    return {
+      ...response,
+      body: Buffer.from(text.slice(0, Math.max(1, Math.floor(text.length / 2)))),
+    };
+  }
+  return response;
+};
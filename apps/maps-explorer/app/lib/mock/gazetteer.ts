@@ -0,0 +1,319 @@
+import "server-only";
+import { readFile, stat } from "node:fs/promises";
+import { resolve } from "node:path";
+import { parseCsv } from "../bulk/csv";
+import {
+  distanceMeters,
+  formatPlace,
+  mockPlaces,
+  mockPlaceTypes,
+  placeAddressLine,
+  type MockPlace,
+  type MockPlaceType,
+} from "./places";
+
+export type PlaceMatch = {
+  place: MockPlace;
+  // How well the query matches the place, 0..1.
+  score: number;
+};
+
+export type StructuredQuery = {
+  addressLine?: string;
+  locality?: string;
+  adminDistrict?: string;
+  postalCode?: string;
+};
+
+export type Gazetteer = {
+  places: MockPlace[];
+  search: (query: string, options?: { prefix?: boolean; countryIso?: string }) => PlaceMatch[];
+  searchStructured: (query: StructuredQuery, options?: { countryIso?: string }) => PlaceMatch[];
+  nearest: (point: { lat: number; lon: number }, type: MockPlaceType) => MockPlace | null;
+};
+
+// Matches scoring below this are not returned at all.
+const MIN_SCORE = 0.5;
+
+// Street types and directions are compared in their short form on both sides.
+const ABBREVIATIONS: Record<string, string> = {
+  avenue: "ave",
+  street: "st",
+  boulevard: "blvd",
+  drive: "dr",
+  lane: "ln",
+  parkway: "pkwy",
+  road: "rd",
+  court: "ct",
+  highway: "hwy",
+  north: "n",
+  south: "s",
+  east: "e",
+  west: "w",
+  northeast: "ne",
+  northwest: "nw",
+  southeast: "se",
+  southwest: "sw",
+};
+
+const COUNTRY_ALIASES: Record<string, string> = { US: "USA", GB: "UK" };
+
+// "# 20", "Suite 300", "Apt 4B": the gazetteer has no units, so they are ignored.
+const UNIT_DESIGNATOR = /(?:#|\b(?:suite|ste|apt|unit)\b\.?)\s*[a-z0-9-]+/gi;
+
+const tokenize = (value: string) =>
+  (value.toLowerCase().match(/[a-z0-9]+/g) ?? []).map((token) => ABBREVIATIONS[token] ?? token);
+
+const tokenizeQuery = (value: string) => tokenize(value.replace(UNIT_DESIGNATOR, " "));
+
+// Optimal string alignment distance: insertions, deletions, substitutions and
+// swaps of adjacent letters each cost one edit.
+const editDistance = (a: string, b: string) => {
+  const d = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  for (let i = 1; i <= a.length; i += 1) {
+    for (let j = 1; j <= b.length; j += 1) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+};
+
+// Short words must match exactly; longer ones tolerate one or two typos.
+const allowedEdits = (token: string) => (token.length >= 7 ? 2 : token.length >= 4 ? 1 : 0);
+
+/**
+ * 1 for an exact match, 0.9 for a prefix (when allowed) and 0.9 or 0.8 for one
+ * or two typos. Numbers are never fuzzy: "6301" must not find "6310".
+ */
+const tokenScore = (token: string, candidate: string, allowPrefix: boolean) => {
+  if (token === candidate) return 1;
+  if (allowPrefix && token.length >= 2 && candidate.startsWith(token)) return 0.9;
+  if (/\d/.test(token) || /\d/.test(candidate)) return 0;
+  const allowed = allowedEdits(token);
+  if (allowed === 0 || Math.abs(token.length - candidate.length) > allowed) return 0;
+  const distance = editDistance(token, candidate);
+  return distance <= allowed ? 1 - 0.1 * distance : 0;
+};
+
+type PrefixMode = "none" | "last" | "all";
+
+// Average of each query token's best score against the candidate tokens.
+const scoreTokens = (tokens: string[], candidates: string[], prefix: PrefixMode) =>
+  tokens.reduce((sum, token, index) => {
+    const allowPrefix = prefix === "all" || (prefix === "last" && index === tokens.length - 1);
+    return sum + Math.max(0, ...candidates.map((candidate) => tokenScore(token, candidate, allowPrefix)));
+  }, 0) / tokens.length;
+
+type IndexedPlace = {
+  place: MockPlace;
+  tokens: string[];
+  fields: Record<keyof StructuredQuery, string[]>;
+};
+
+const indexPlace = (place: MockPlace): IndexedPlace => ({
+  place,
+  tokens: tokenize(
+    [
+      formatPlace(place),
+      place.neighborhood,
+      place.adminDistrictName,
+      place.adminDistrict2,
+      place.countryIso,
+      place.countryName,
+      COUNTRY_ALIASES[place.countryIso],
+    ]
+      .filter(Boolean)
+      .join(" ")
+  ),
+  fields: {
+    addressLine: tokenize(placeAddressLine(place)),
+    locality: tokenize([place.locality, place.neighborhood].filter(Boolean).join(" ")),
+    adminDistrict: tokenize(
+      [place.adminDistrict, place.adminDistrictName, place.adminDistrict2].filter(Boolean).join(" ")
+    ),
+    postalCode: tokenize(place.postalCode ?? ""),
+  },
+});
+
+const placeRank = (place: MockPlace) => mockPlaceTypes.indexOf(place.type);
+
+/**
+ * Best matches first. Ties go to the place with the fewest extra tokens, so
+ * "Woodland Hills, CA" finds the city before its addresses.
+ */
+const rank = (scored: { entry: IndexedPlace; score: number }[]): PlaceMatch[] =>
+  scored
+    .filter((match) => match.score >= MIN_SCORE)
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        a.entry.tokens.length - b.entry.tokens.length ||
+        placeRank(a.entry.place) - placeRank(b.entry.place)
+    )
+    .map(({ entry, score }) => ({ place: entry.place, score }));
+
+/** Fuzzy, structured and nearest-neighbor lookups over a fixed set of places. */
+export const createGazetteer = (places: MockPlace[]): Gazetteer => {
+  const entries = places.map(indexPlace);
+  const inCountry = (countryIso?: string) => {
+    const country = countryIso?.toUpperCase();
+    return country ? entries.filter((entry) => entry.place.countryIso === country) : entries;
+  };
+
+  return {
+    places,
+    // With `prefix`, every token may be the start of a word (autocomplete);
+    // otherwise only the last one can, since it may still be being typed.
+    search: (query, options = {}) => {
+      const tokens = tokenizeQuery(query);
+      if (tokens.length === 0) return [];
+      const prefix = options.prefix ? "all" : "last";
+      return rank(
+        inCountry(options.countryIso).map((entry) => ({
+          entry,
+          score: scoreTokens(tokens, entry.tokens, prefix),
+        }))
+      );
+    },
+    // Each field is scored only against the matching part of the place, then averaged.
+    searchStructured: (query, options = {}) => {
+      const fields = (Object.keys(query) as (keyof StructuredQuery)[])
+        .map((field) => ({ field, tokens: tokenizeQuery(query[field] ?? "") }))
+        .filter(({ tokens }) => tokens.length > 0);
+      if (fields.length === 0) return [];
+      return rank(
+        inCountry(options.countryIso).map((entry) => ({
+          entry,
+          score:
+            fields.reduce(
+              (sum, { field, tokens }) =>
+                sum + scoreTokens(tokens, entry.fields[field], "last"),
+              0
+            ) / fields.length,
+        }))
+      );
+    },
+    nearest: (point, type) =>
+      places
+        .filter((place) => place.type === type)
+        .reduce<MockPlace | null>(
+          (best, place) =>
+            !best || distanceMeters(point, place) < distanceMeters(point, best) ? place : best,
+          null
+        ),
+  };
+};
+
+const countries = mockPlaces.filter((place) => place.type === "CountryRegion");
+
+const normalizeKey = (key: string) => key.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/**
+ * One gazetteer row or GeoJSON feature's properties as a place. Column names
+ * are matched loosely ("Postal Code", "postalCode", "zip"); the country may be
+ * an ISO code or a country the built-in gazetteer knows, and defaults to US.
+ */
+const toImportedPlace = (
+  record: Record<string, unknown>,
+  point?: { lat: number; lon: number }
+): MockPlace | null => {
+  const fields = new Map(
+    Object.entries(record).map(([key, value]) => [
+      normalizeKey(key),
+      value === null || value === undefined ? "" : String(value).trim(),
+    ])
+  );
+  const pick = (...keys: string[]) =>
+    keys.map((key) => fields.get(key)).find((value): value is string => Boolean(value));
+
+  const lat = point?.lat ?? Number.parseFloat(pick("latitude", "lat") ?? "");
+  const lon = point?.lon ?? Number.parseFloat(pick("longitude", "lon", "lng") ?? "");
+  if (!Number.isFinite(lat) || !Number.isFinite(lon) || Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+    return null;
+  }
+
+  const countryValue = pick("countryregion", "countryiso", "countrycode", "country") ?? "US";
+  const country = /^[a-z]{2}$/i.test(countryValue)
+    ? countries.find((place) => place.countryIso === countryValue.toUpperCase())
+    : countries.find((place) => place.countryName.toLowerCase() === countryValue.toLowerCase());
+  const countryIso = country?.countryIso ?? (countryValue.length === 2 ? countryValue.toUpperCase() : null);
+  if (!countryIso) return null;
+
+  const addressLine = pick("addressline", "address", "street");
+  const [, leadingNumber, rest] = /^(\d+[a-z]?)\s+(.+)$/i.exec(addressLine ?? "") ?? [];
+  const streetNumber = pick("streetnumber", "housenumber") ?? leadingNumber;
+  const streetName = pick("streetname") ?? (leadingNumber ? rest : addressLine);
+  const locality = pick("locality", "city", "town");
+  const type = pick("type");
+
+  return {
+    type: mockPlaceTypes.find((value) => value.toLowerCase() === type?.toLowerCase()) ??
+      (streetName ? "Address" : locality ? "PopulatedPlace" : "CountryRegion"),
+    lat,
+    lon,
+    streetNumber,
+    streetName,
+    neighborhood: pick("neighborhood", "neighbourhood"),
+    locality,
+    adminDistrict: pick("admindistrict", "state", "region"),
+    adminDistrictName: pick("admindistrictname", "statename"),
+    adminDistrict2: pick("admindistrict2", "county"),
+    postalCode: pick("postalcode", "postcode", "zip", "zipcode"),
+    countryIso,
+    countryName: pick("countryname") ?? country?.countryName ?? countryIso,
+  };
+};
+
+/** Places from a GeoJSON FeatureCollection of Points, or a CSV with latitude/longitude columns. */
+export const parseGazetteerFile = (text: string): MockPlace[] => {
+  if (text.trimStart().startsWith("{")) {
+    const { features } = JSON.parse(text) as { features?: unknown };
+    return (Array.isArray(features) ? features : [])
+      .map((feature) => {
+        const { geometry, properties } = feature as {
+          geometry?: { type?: string; coordinates?: unknown };
+          properties?: Record<string, unknown> | null;
+        };
+        if (geometry?.type !== "Point" || !Array.isArray(geometry.coordinates)) return null;
+        const [lon, lat] = geometry.coordinates.map(Number);
+        return toImportedPlace(properties ?? {}, { lat, lon });
+      })
+      .filter((place): place is MockPlace => place !== null);
+  }
+  const [header = [], ...rows] = parseCsv(text);
+  return rows
+    .map((row) => toImportedPlace(Object.fromEntries(header.map((key, index) => [key, row[index]]))))
+    .filter((place): place is MockPlace => place !== null);
+};
+
+let builtInGazetteer: Gazetteer | null = null;
+let loadedGazetteer: { path: string; mtimeMs: number; gazetteer: Gazetteer } | null = null;
+
+/**
+ * Built-in places plus the CSV or GeoJSON file at MAPS_MOCK_GAZETTEER. File
+ * places come first, so they win ties with built-in ones; the file is re-read
+ * whenever it changes.
+ */
+export const getGazetteer = async () => {
+  builtInGazetteer ??= createGazetteer(mockPlaces);
+  const filePath = process.env.MAPS_MOCK_GAZETTEER;
+  if (!filePath) return builtInGazetteer;
+  try {
+    const path = resolve(filePath);
+    const { mtimeMs } = await stat(path);
+    if (loadedGazetteer?.path !== path || loadedGazetteer.mtimeMs !== mtimeMs) {
+      const imported = parseGazetteerFile(await readFile(path, "utf8"));
+      loadedGazetteer = { path, mtimeMs, gazetteer: createGazetteer([...imported, ...mockPlaces]) };
+    }
+    return loadedGazetteer.gazetteer;
+  } catch {
+    console.error(JSON.stringify({ event: "maps_gazetteer_load_failed", path: filePath }));
+    return builtInGazetteer;
+  }
+};
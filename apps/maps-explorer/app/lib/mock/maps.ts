@@ -0,0 +1,572 @@
+import "server-only";
+import type { RequestShape } from "../types";
+import { normalizePath } from "../validation";
+import { getGazetteer, type PlaceMatch } from "./gazetteer";
+import {
+  distanceMeters,
+  formatPlace,
+  hashString,
+  placeAddressLine,
+  type MockPlace,
+} from "./places";
+import { renderPlaceholderMap } from "./png";
+
+export type MockMapsResponse = {
+  status: number;
+  contentType: string;
+  // JSON bodies are objects; rendered images are raw bytes.
+  body: unknown;
+  headers?: Record<string, string>;
+};
+
+type Position = { lat: number; lon: number };
+
+type MockHandler = (request: RequestShape) => MockMapsResponse | Promise<MockMapsResponse>;
+
+const json = (body: unknown, status = 200): MockMapsResponse => ({
+  status,
+  contentType: "application/json; charset=utf-8",
+  body,
+});
+
+// Azure Maps error envelope.
+const mapsError = (status: number, code: string, message: string) =>
+  json({ error: { code, message } }, status);
+
+const badRequest = (message: string) => mapsError(400, "BadRequest", message);
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(Math.max(value, min), max);
+
+const readCount = (value: string | undefined, fallback: number, max: number) => {
+  const parsed = Number.parseInt(value ?? "", 10);
+  return Number.isFinite(parsed) ? clamp(parsed, 1, max) : fallback;
+};
+
+const round = (value: number, digits = 6) => Number(value.toFixed(digits));
+
+const isValidPosition = ({ lat, lon }: Position) =>
+  Number.isFinite(lat) && Number.isFinite(lon) && Math.abs(lat) <= 90 && Math.abs(lon) <= 180;
+
+// "lon,lat" (GeoJSON order, used by the 2023+ APIs) or "lat,lon" (v1 and Weather).
+const parsePosition = (value: string | undefined, order: "lonlat" | "latlon") => {
+  const parts = (value ?? "").split(",").map((part) => Number.parseFloat(part.trim()));
+  if (parts.length !== 2) return null;
+  const position = order === "lonlat" ? { lon: parts[0], lat: parts[1] } : { lat: parts[0], lon: parts[1] };
+  return isValidPosition(position) ? position : null;
+};
+
+// Deterministic pseudo-random value in [0, 1) for a seed string.
+const noise = (seed: string) => hashString(seed) / 0x1_0000_0000;
+
+const countryFilter = (value: string | undefined) => {
+  const first = value?.split(",")[0]?.trim() ?? "";
+  return /^[a-z]{2}$/i.test(first) ? first : undefined;
+};
+
+const toAddress = (place: MockPlace) => ({
+  addressLine: placeAddressLine(place) || undefined,
+  streetNumber: place.streetNumber,
+  streetName: place.streetName,
+  neighborhood: place.neighborhood,
+  locality: place.locality,
+  postalCode: place.postalCode,
+  adminDistricts: [
+    place.adminDistrictName && { name: place.adminDistrictName, shortName: place.adminDistrict },
+    place.adminDistrict2 && { name: place.adminDistrict2, shortName: place.adminDistrict2 },
+  ].filter(Boolean),
+  countryRegion: { ISO: place.countryIso, name: place.countryName },
+  formattedAddress: formatPlace(place),
+});
+
+const BBOX_SPAN = { Address: 0.002, PopulatedPlace: 0.08, CountryRegion: 8 } as const;
+
+const toPlaceFeature = (place: MockPlace, properties: Record<string, unknown>) => {
+  const span = BBOX_SPAN[place.type];
+  return {
+    type: "Feature",
+    geometry: { type: "Point", coordinates: [place.lon, place.lat] },
+    bbox: [
+      round(place.lon - span),
+      round(place.lat - span),
+      round(place.lon + span),
+      round(place.lat + span),
+    ],
+    properties: {
+      type: place.type,
+      ...properties,
+      address: toAddress(place),
+      geocodePoints: [
+        {
+          calculationMethod: place.type === "Address" ? "Rooftop" : "None",
+          usageTypes: ["Display"],
+          geometry: { type: "Point", coordinates: [place.lon, place.lat] },
+        },
+      ],
+    },
+  };
+};
+
+const toConfidence = (score: number) => (score >= 0.95 ? "High" : score >= 0.75 ? "Medium" : "Low");
+
+/**
+ * Good for a solid match with no close runner-up, Ambiguous when another place
+ * scored about the same, UpHierarchy when a house number was asked for but the
+ * best answer is a city or country.
+ */
+const toMatchCodes = (match: PlaceMatch, matches: PlaceMatch[], wantsAddress: boolean) => {
+  const ambiguous = matches.some(
+    (other) => other !== match && Math.abs(other.score - match.score) < 0.05
+  );
+  const codes = [
+    ...(match.score >= 0.75 && !ambiguous ? ["Good"] : []),
+    ...(ambiguous ? ["Ambiguous"] : []),
+    ...(wantsAddress && match.place.type !== "Address" ? ["UpHierarchy"] : []),
+  ];
+  return codes.length > 0 ? codes : ["Ambiguous"];
+};
+
+const STRUCTURED_FIELDS = ["addressLine", "locality", "adminDistrict", "postalCode"] as const;
+
+const geocode: MockHandler = async ({ params }) => {
+  const query = params.query?.trim();
+  const structured = Object.fromEntries(
+    STRUCTURED_FIELDS.map((field) => [field, params[field]?.trim()]).filter(([, value]) => value)
+  );
+  const country = countryFilter(params.countryRegion ?? params.countrySet);
+  if (!query && Object.keys(structured).length === 0 && !country) {
+    return badRequest("Either query or at least one structured address field is required.");
+  }
+  const top = readCount(params.top ?? params.limit, 5, 20);
+  const gazetteer = await getGazetteer();
+  const matches = query
+    ? gazetteer.search(query, { countryIso: country })
+    : Object.keys(structured).length > 0
+      ? gazetteer.searchStructured(structured, { countryIso: country })
+      : gazetteer.search(country ?? "", { countryIso: country });
+  // A leading house number means the caller wanted a street address.
+  const wantsAddress = /^\s*\d+[a-z]?\s/i.test(query ?? structured.addressLine ?? "");
+  return json({
+    type: "FeatureCollection",
+    features: matches.slice(0, top).map((match) =>
+      toPlaceFeature(match.place, {
+        confidence: toConfidence(match.score),
+        matchCodes: toMatchCodes(match, matches, wantsAddress),
+      })
+    ),
+  });
+};
+
+const AUTOCOMPLETE_GROUPS: Record<MockPlace["type"], string> = {
+  Address: "Address",
+  PopulatedPlace: "Place",
+  CountryRegion: "Place",
+};
+
+const autocomplete: MockHandler = async ({ params }) => {
+  const query = params.query?.trim();
+  if (!query) return badRequest("The query parameter is required.");
+  const groups = (params.resultTypeGroups ?? "")
+    .split(",")
+    .map((group) => group.trim().toLowerCase())
+    .filter(Boolean);
+  const near = parsePosition(params.coordinates, "lonlat");
+  const top = readCount(params.top, 5, 20);
+  const matches = (await getGazetteer())
+    .search(query, {
+      prefix: true,
+      countryIso: countryFilter(params.countryRegion),
+    })
+    .filter(
+      ({ place }) =>
+        groups.length === 0 || groups.includes(AUTOCOMPLETE_GROUPS[place.type].toLowerCase())
+    )
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        (near ? distanceMeters(near, a.place) - distanceMeters(near, b.place) : 0)
+    );
+  return json({
+    type: "FeatureCollection",
+    features: matches.slice(0, top).map(({ place }) => ({
+      type: "Feature",
+      geometry: { type: "Point", coordinates: [place.lon, place.lat] },
+      properties: {
+        typeGroup: AUTOCOMPLETE_GROUPS[place.type],
+        type: place.type,
+        address: toAddress(place),
+      },
+    })),
+  });
+};
+
+// Reverse geocode result types and the place fields each one keeps.
+const REVERSE_TYPES: Record<string, (keyof MockPlace)[]> = {
+  Address: [],
+  Neighborhood: ["streetNumber", "streetName", "postalCode"],
+  PopulatedPlace: ["streetNumber", "streetName", "neighborhood", "postalCode"],
+  Postcode1: ["streetNumber", "streetName", "neighborhood"],
+  AdminDivision2: ["streetNumber", "streetName", "neighborhood", "locality", "postalCode"],
+  AdminDivision1: [
+    "streetNumber",
+    "streetName",
+    "neighborhood",
+    "locality",
+    "postalCode",
+    "adminDistrict2",
+  ],
+};
+
+const reverseGeocode: MockHandler = async ({ params }) => {
+  const point = parsePosition(params.coordinates, "lonlat");
+  if (!point) return badRequest("coordinates must be \"longitude,latitude\" within range.");
+  const requested = (params.resultTypes || "Address").split(",").map((type) => type.trim());
+  const resultType = requested.find((type) => type in REVERSE_TYPES || type === "CountryRegion");
+  if (!resultType) {
+    return badRequest(`Unsupported resultTypes value "${params.resultTypes}".`);
+  }
+
+  const place = (await getGazetteer()).nearest(
+    point,
+    resultType === "CountryRegion" ? "CountryRegion" : "Address"
+  );
+  if (!place) return json({ type: "FeatureCollection", features: [] });
+  const dropped = REVERSE_TYPES[resultType] ?? [];
+  const trimmed = { ...place };
+  dropped.forEach((field) => delete trimmed[field]);
+  return json({
+    type: "FeatureCollection",
+    features: [
+      toPlaceFeature(trimmed, { type: resultType, confidence: "High", matchCodes: ["Good"] }),
+    ],
+  });
+};
+
+const toLegacyAddress = (place: MockPlace) => ({
+  streetNumber: place.streetNumber,
+  streetName: place.streetName,
+  municipalitySubdivision: place.neighborhood,
+  municipality: place.locality,
+  countrySecondarySubdivision: place.adminDistrict2,
+  countrySubdivision: place.adminDistrict,
+  countrySubdivisionName: place.adminDistrictName,
+  postalCode: place.postalCode,
+  countryCode: place.countryIso,
+  country: place.countryName,
+  freeformAddress: formatPlace(place),
+});
+
+const LEGACY_TYPES: Record<MockPlace["type"], string> = {
+  Address: "Point Address",
+  PopulatedPlace: "Geography",
+  CountryRegion: "Geography",
+};
+
+const searchAddress: MockHandler = async ({ params }) => {
+  const query = params.query?.trim();
+  if (!query) return badRequest("The query parameter is required.");
+  const limit = readCount(params.limit, 10, 100);
+  const matches = (await getGazetteer()).search(query, {
+    countryIso: countryFilter(params.countrySet),
+  });
+  const results = matches.slice(0, limit).map(({ place, score }) => ({
+    type: LEGACY_TYPES[place.type],
+    id: `mock-${hashString(formatPlace(place)).toString(16)}`,
+    score: round(score * 10, 4),
+    address: toLegacyAddress(place),
+    position: { lat: place.lat, lon: place.lon },
+  }));
+  return json({
+    summary: {
+      query,
+      queryType: "NON_NEAR",
+      queryTime: 4,
+      numResults: results.length,
+      offset: 0,
+      totalResults: matches.length,
+      fuzzyLevel: 1,
+    },
+    results,
+  });
+};
+
+const searchAddressReverse: MockHandler = async ({ params }) => {
+  const point = parsePosition(params.query, "latlon");
+  if (!point) return badRequest("query must be \"latitude,longitude\" within range.");
+  const place = (await getGazetteer()).nearest(point, "Address");
+  return json({
+    summary: { queryTime: 3, numResults: place ? 1 : 0 },
+    addresses: place
+      ? [{ address: toLegacyAddress(place), position: { lat: place.lat, lon: place.lon } }]
+      : [],
+  });
+};
+
+const MAX_WEATHER_DAYS = 31;
+const DAY_MS = 86_400_000;
+
+const parseDate = (value: string | undefined) =>
+  /^\d{4}-\d{2}-\d{2}$/.test(value ?? "") ? Date.parse(`${value}T00:00:00Z`) : Number.NaN;
+
+/**
+ * Record highs and lows that depend on latitude, season and a per-day seed,
+ * so the same location and date always produce the same numbers.
+ */
+const weatherRecords: MockHandler = ({ params }) => {
+  // The API takes "lat,lon"; accept "lon,lat" too when the first value can't be a latitude.
+  const query = params.query ?? "";
+  const point =
+    parsePosition(query, "latlon") ?? parsePosition(query, "lonlat");
+  if (!point) return badRequest("query must be \"latitude,longitude\".");
+  const start = parseDate(params.startDate);
+  const end = parseDate(params.endDate);
+  if (Number.isNaN(start) || Number.isNaN(end)) {
+    return badRequest("startDate and endDate must be dates in YYYY-MM-DD format.");
+  }
+  if (end < start) return badRequest("endDate must not be earlier than startDate.");
+  const days = (end - start) / DAY_MS + 1;
+  if (days > MAX_WEATHER_DAYS) {
+    return badRequest(`The date range cannot exceed ${MAX_WEATHER_DAYS} days.`);
+  }
+
+  const imperial = params.unit === "imperial";
+  const temperature = (celsius: number) => ({
+    value: round(imperial ? celsius * 1.8 + 32 : celsius, 1),
+    unit: imperial ? "F" : "C",
+    unitType: imperial ? 18 : 17,
+  });
+  const length = (millimeters: number, metricUnit: "mm" | "cm") => ({
+    value: round(
+      imperial ? millimeters / 25.4 : metricUnit === "cm" ? millimeters / 10 : millimeters,
+      imperial ? 2 : 1
+    ),
+    unit: imperial ? "in" : metricUnit,
+    unitType: imperial ? 1 : metricUnit === "cm" ? 4 : 3,
+  });
+
+  const offsetHours = Math.round(point.lon / 15);
+  const offset = `${offsetHours < 0 ? "-" : "+"}${String(Math.abs(offsetHours)).padStart(2, "0")}:00`;
+  const hemisphere = point.lat >= 0 ? 1 : -1;
+  const results = Array.from({ length: days }, (_, index) => {
+    const date = new Date(start + index * DAY_MS);
+    const day = date.toISOString().slice(0, 10);
+    const seed = `${point.lat.toFixed(2)},${point.lon.toFixed(2)},${day}`;
+    const dayOfYear = (date.getTime() - Date.UTC(date.getUTCFullYear(), 0, 1)) / DAY_MS;
+    const season = Math.cos((2 * Math.PI * (dayOfYear - 200)) / 365) * hemisphere;
+    const average = 27 - 0.4 * Math.abs(point.lat) + season * Math.abs(point.lat) * 0.25;
+    const maximum = average + 10 + noise(`${seed}:max`) * 6;
+    const minimum = average - 10 - noise(`${seed}:min`) * 6;
+    return {
+      date: `${day}T00:00:00${offset}`,
+      temperature: {
+        average: temperature(average),
+        maximum: temperature(maximum),
+        minimum: temperature(minimum),
+      },
+      precipitation: { maximum: length(5 + noise(`${seed}:rain`) * 60, "mm") },
+      snowfall: {
+        maximum: length(minimum < 0 ? noise(`${seed}:snow`) * 300 : 0, "cm"),
+      },
+    };
+  });
+  return json({ results });
+};
+
+const GEOLOCATION_COUNTRIES = ["US", "GB", "DE", "JP", "FR", "CA", "AU"];
+
+// Well-known resolvers keep the countries their operators are known for.
+const KNOWN_IPS: Record<string, string> = {
+  "8.8.8.8": "US",
+  "8.8.4.4": "US",
+  "1.1.1.1": "AU",
+  "9.9.9.9": "US",
+};
+
+const IPV4 = /^(25[0-5]|2[0-4]\d|1?\d?\d)(\.(25[0-5]|2[0-4]\d|1?\d?\d)){3}$/;
+const IPV6 = /^[0-9a-f:]+$/i;
+
+const ipGeolocation: MockHandler = ({ params }) => {
+  const ip = params.ip?.trim() ?? "";
+  if (!IPV4.test(ip) && !(ip.includes(":") && IPV6.test(ip))) {
+    return badRequest(`"${ip}" is not a valid IPv4 or IPv6 address.`);
+  }
+  const isoCode =
+    KNOWN_IPS[ip] ?? GEOLOCATION_COUNTRIES[hashString(ip) % GEOLOCATION_COUNTRIES.length];
+  return json({ countryRegion: { isoCode }, ipAddress: ip });
+};
+
+const MANEUVERS = ["Turn left", "Turn right", "Keep left", "Keep right", "Bear left", "Bear right"];
+const LEG_POINTS = 24;
+
+// Points from `a` to `b` bowed sideways so the line looks like a road rather than a ruler.
+const legPath = (a: Position, b: Position) => {
+  const bow = (noise(`${a.lat},${a.lon}->${b.lat},${b.lon}`) - 0.5) * 0.3;
+  return Array.from({ length: LEG_POINTS + 1 }, (_, index) => {
+    const t = index / LEG_POINTS;
+    const side = Math.sin(Math.PI * t) * bow;
+    return [
+      round(a.lon + (b.lon - a.lon) * t - (b.lat - a.lat) * side),
+      round(a.lat + (b.lat - a.lat) * t + (b.lon - a.lon) * side),
+    ];
+  });
+};
+
+const pathLength = (coordinates: number[][], from = 0, to = coordinates.length - 1) => {
+  let meters = 0;
+  for (let index = from; index < to; index += 1) {
+    meters += distanceMeters(
+      { lon: coordinates[index][0], lat: coordinates[index][1] },
+      { lon: coordinates[index + 1][0], lat: coordinates[index + 1][1] }
+    );
+  }
+  return meters;
+};
+
+/**
+ * Route directions between the request's Point features: one bowed line per
+ * leg, waypoint and maneuver features with instructions, and a RoutePath
+ * summary whose distance follows the geometry.
+ */
+const routeDirections: MockHandler = ({ method, body }) => {
+  if (method !== "POST") return badRequest("Route directions must be requested with POST.");
+  const features = (body as { features?: unknown } | undefined)?.features;
+  const waypoints = (Array.isArray(features) ? features : [])
+    .map((feature) => {
+      const geometry = (feature as { geometry?: { type?: string; coordinates?: unknown } })
+        .geometry;
+      const coordinates = geometry?.type === "Point" ? geometry.coordinates : null;
+      if (!Array.isArray(coordinates)) return null;
+      return { lon: Number(coordinates[0]), lat: Number(coordinates[1]) };
+    })
+    .filter((point): point is Position => point !== null && isValidPosition(point));
+  if (waypoints.length < 2) {
+    return badRequest("The request body needs at least two Point features with valid coordinates.");
+  }
+
+  const departAt = new Date();
+  const legs = waypoints.slice(1).map((destination, legIndex) => {
+    const coordinates = legPath(waypoints[legIndex], destination);
+    const meters = pathLength(coordinates);
+    // Faster roads for longer legs.
+    const speed = meters > 20_000 ? 24 : 12;
+    return { coordinates, meters, speed, seconds: Math.round(meters / speed) };
+  });
+  const totalMeters = legs.reduce((sum, leg) => sum + leg.meters, 0);
+  const totalSeconds = legs.reduce((sum, leg) => sum + leg.seconds, 0);
+
+  const points = legs.flatMap((leg, legIndex) => {
+    const stops = [0, Math.round(LEG_POINTS / 3), Math.round((LEG_POINTS * 2) / 3)];
+    return stops.map((pointIndex, stop) => {
+      const next = stops[stop + 1] ?? LEG_POINTS;
+      const meters = pathLength(leg.coordinates, pointIndex, next);
+      const seed = `${legIndex}:${pointIndex}:${leg.coordinates[next].join(",")}`;
+      const text =
+        stop === 0
+          ? legIndex === 0
+            ? "Leave from the origin"
+            : `Leave from waypoint ${legIndex}`
+          : `${MANEUVERS[hashString(seed) % MANEUVERS.length]} and continue for ${(meters / 1000).toFixed(1)} km`;
+      return {
+        type: "Feature",
+        geometry: { type: "Point", coordinates: leg.coordinates[pointIndex] },
+        properties: {
+          type: stop === 0 ? "Waypoint" : "ManeuverPoint",
+          ...(stop === 0 ? { order: { inputIndex: legIndex } } : {}),
+          routePathPoint: { legIndex, pointIndex },
+          instruction: { text, maneuverType: stop === 0 ? "DepartStart" : "Turn" },
+          distanceInMeters: Math.round(meters),
+          durationInSeconds: Math.round(meters / leg.speed),
+          travelMode: "driving",
+        },
+      };
+    });
+  });
+  const lastLeg = legs.length - 1;
+  points.push({
+    type: "Feature",
+    geometry: { type: "Point", coordinates: legs[lastLeg].coordinates[LEG_POINTS] },
+    properties: {
+      type: "Waypoint",
+      order: { inputIndex: waypoints.length - 1 },
+      routePathPoint: { legIndex: lastLeg, pointIndex: LEG_POINTS },
+      instruction: { text: "You have arrived at your destination", maneuverType: "ArriveFinish" },
+      distanceInMeters: 0,
+      durationInSeconds: 0,
+      travelMode: "driving",
+    },
+  });
+
+  return json({
+    type: "FeatureCollection",
+    features: [
+      ...points,
+      {
+        type: "Feature",
+        geometry: {
+          type: "MultiLineString",
+          coordinates: legs.map((leg) => leg.coordinates),
+        },
+        properties: {
+          type: "RoutePath",
+          distanceInMeters: Math.round(totalMeters),
+          durationInSeconds: totalSeconds,
+          durationTrafficInSeconds: Math.round(totalSeconds * 1.1),
+          trafficCongestion: "Mild",
+          departureAt: departAt.toISOString(),
+          arrivalAt: new Date(departAt.getTime() + totalSeconds * 1000).toISOString(),
+        },
+      },
+    ],
+  });
+};
+
+const readNumber = (value: string | undefined, fallback: number) => {
+  const parsed = Number.parseFloat(value ?? "");
+  return Number.isFinite(parsed) ? parsed : fallback;
+};
+
+/** Placeholder PNG for map/static; same size and zoom limits as /api/maps/static. */
+export const renderMockStaticMap = (center: Position, zoom: number, width: number, height: number) =>
+  renderPlaceholderMap({
+    ...center,
+    zoom: clamp(Math.round(zoom), 1, 20),
+    width: clamp(Math.round(width), 240, 1280),
+    height: clamp(Math.round(height), 160, 960),
+  });
+
+const staticMap: MockHandler = ({ params }) => {
+  const center = parsePosition(params.center, "lonlat");
+  if (!center) return badRequest("center must be \"longitude,latitude\".");
+  return {
+    status: 200,
+    contentType: "image/png",
+    body: renderMockStaticMap(
+      center,
+      readNumber(params.zoom, 12),
+      readNumber(params.width, 512),
+      readNumber(params.height, 512)
+    ),
+  };
+};
+
+const handlers: { pattern: RegExp; handle: MockHandler }[] = [
+  { pattern: /^geocode$/i, handle: geocode },
+  { pattern: /^geocode:autocomplete$/i, handle: autocomplete },
+  { pattern: /^reversegeocode$/i, handle: reverseGeocode },
+  { pattern: /^search\/address\/reverse\/json$/i, handle: searchAddressReverse },
+  { pattern: /^search\/(address|fuzzy)\/json$/i, handle: searchAddress },
+  { pattern: /^weather\/historical\/records\/daily\/json$/i, handle: weatherRecords },
+  { pattern: /^geolocation\/ip\/json$/i, handle: ipGeolocation },
+  { pattern: /^route\/directions$/i, handle: routeDirections },
+  { pattern: /^map\/static(\/png)?$/i, handle: staticMap },
+];
+
+/** Answers a proxy request from fixtures, shaped like the real Azure Maps response. */
+export const mockMapsResponse = async (request: RequestShape): Promise<MockMapsResponse> => {
+  const path = normalizePath(request.path ?? "");
+  const handler = handlers.find((entry) => entry.pattern.test(path));
+  if (!handler) {
+    return mapsError(404, "NotFound", `The mock server has no fixture for "${path}".`);
+  }
+  return handler.handle({ ...request, params: request.params ?? {} });
+};
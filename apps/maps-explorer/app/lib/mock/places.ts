@@ -0,0 +1,358 @@
+import "server-only";
+
+export const mockPlaceTypes = ["Address", "PopulatedPlace", "CountryRegion"] as const;
+
+export type MockPlaceType = (typeof mockPlaceTypes)[number];
+
+export type MockPlace = {
+  type: MockPlaceType;
+  lat: number;
+  lon: number;
+  streetNumber?: string;
+  streetName?: string;
+  neighborhood?: string;
+  locality?: string;
+  adminDistrict?: string;
+  adminDistrictName?: string;
+  adminDistrict2?: string;
+  postalCode?: string;
+  countryIso: string;
+  countryName: string;
+};
+
+const US = { countryIso: "US", countryName: "United States" };
+
+// Built-in gazetteer entries: every address in certifiedLocations and testAddresses,
+// a few well-known addresses elsewhere, and the cities and countries they sit in.
+export const mockPlaces: MockPlace[] = [
+  {
+    type: "Address",
+    lat: 34.184559,
+    lon: -118.60213,
+    streetNumber: "6301",
+    streetName: "Owensmouth Ave",
+    neighborhood: "Warner Center",
+    locality: "Woodland Hills",
+    adminDistrict: "CA",
+    adminDistrictName: "California",
+    adminDistrict2: "Los Angeles County",
+    postalCode: "91367",
+    ...US,
+  },
+  {
+    type: "Address",
+    lat: 34.168467,
+    lon: -118.598963,
+    streetNumber: "21347",
+    streetName: "Ventura Blvd",
+    locality: "Woodland Hills",
+    adminDistrict: "CA",
+    adminDistrictName: "California",
+    adminDistrict2: "Los Angeles County",
+    postalCode: "91364",
+    ...US,
+  },
+  {
+    type: "Address",
+    lat: 34.175092,
+    lon: -118.602054,
+    streetNumber: "5760",
+    streetName: "Owensmouth Ave",
+    neighborhood: "Warner Center",
+    locality: "Woodland Hills",
+    adminDistrict: "CA",
+    adminDistrictName: "California",
+    adminDistrict2: "Los Angeles County",
+    postalCode: "91367",
+    ...US,
+  },
+  {
+    type: "Address",
+    lat: 34.173501,
+    lon: -118.611716,
+    streetNumber: "5650",
+    streetName: "Shoup Ave",
+    locality: "Woodland Hills",
+    adminDistrict: "CA",
+    adminDistrictName: "California",
+    adminDistrict2: "Los Angeles County",
+    postalCode: "91367",
+    ...US,
+  },
+  {
+    type: "Address",
+    lat: 34.171838,
+    lon: -118.589744,
+    streetNumber: "20940",
+    streetName: "Burbank Blvd",
+    locality: "Woodland Hills",
+    adminDistrict: "CA",
+    adminDistrictName: "California",
+    adminDistrict2: "Los Angeles County",
+    postalCode: "91367",
+    ...US,
+  },
+  {
+    type: "Address",
+    lat: 34.166778,
+    lon: -118.589432,
+    streetNumber: "20969",
+    streetName: "Ventura Blvd",
+    locality: "Woodland Hills",
+    adminDistrict: "CA",
+    adminDistrictName: "California",
+    adminDistrict2: "Los Angeles County",
+    postalCode: "91364",
+    ...US,
+  },
+  {
+    type: "Address",
+    lat: 47.6396,
+    lon: -122.1282,
+    streetNumber: "1",
+    streetName: "Microsoft Way",
+    neighborhood: "Overlake",
+    locality: "Redmond",
+    adminDistrict: "WA",
+    adminDistrictName: "Washington",
+    adminDistrict2: "King County",
+    postalCode: "98052",
+    ...US,
+  },
+  {
+    type: "Address",
+    lat: 47.64228,
+    lon: -122.13683,
+    streetNumber: "15010",
+    streetName: "NE 36th St",
+    neighborhood: "Overlake",
+    locality: "Redmond",
+    adminDistrict: "WA",
+    adminDistrictName: "Washington",
+    adminDistrict2: "King County",
+    postalCode: "98052",
+    ...US,
+  },
+  {
+    type: "Address",
+    lat: 47.620506,
+    lon: -122.349277,
+    streetNumber: "400",
+    streetName: "Broad St",
+    neighborhood: "Lower Queen Anne",
+    locality: "Seattle",
+    adminDistrict: "WA",
+    adminDistrictName: "Washington",
+    adminDistrict2: "King County",
+    postalCode: "98109",
+    ...US,
+  },
+  {
+    type: "Address",
+    lat: 40.748441,
+    lon: -73.985664,
+    streetNumber: "20",
+    streetName: "W 34th St",
+    neighborhood: "Midtown Manhattan",
+    locality: "New York",
+    adminDistrict: "NY",
+    adminDistrictName: "New York",
+    adminDistrict2: "New York County",
+    postalCode: "10001",
+    ...US,
+  },
+  {
+    type: "Address",
+    lat: 42.053626,
+    lon: -88.048317,
+    streetNumber: "1400",
+    streetName: "American Ln",
+    locality: "Schaumburg",
+    adminDistrict: "IL",
+    adminDistrictName: "Illinois",
+    adminDistrict2: "Cook County",
+    postalCode: "60196",
+    ...US,
+  },
+  {
+    type: "Address",
+    lat: 41.878876,
+    lon: -87.635915,
+    streetNumber: "233",
+    streetName: "S Wacker Dr",
+    neighborhood: "The Loop",
+    locality: "Chicago",
+    adminDistrict: "IL",
+    adminDistrictName: "Illinois",
+    adminDistrict2: "Cook County",
+    postalCode: "60606",
+    ...US,
+  },
+  {
+    type: "Address",
+    lat: 29.551877,
+    lon: -95.098202,
+    streetNumber: "1601",
+    streetName: "E NASA Pkwy",
+    neighborhood: "Clear Lake",
+    locality: "Houston",
+    adminDistrict: "TX",
+    adminDistrictName: "Texas",
+    adminDistrict2: "Harris County",
+    postalCode: "77058",
+    ...US,
+  },
+  {
+    type: "Address",
+    lat: 38.897663,
+    lon: -77.036574,
+    streetNumber: "1600",
+    streetName: "Pennsylvania Ave NW",
+    locality: "Washington",
+    adminDistrict: "DC",
+    adminDistrictName: "District of Columbia",
+    postalCode: "20500",
+    ...US,
+  },
+  {
+    type: "Address",
+    lat: 51.503396,
+    lon: -0.12764,
+    streetNumber: "10",
+    streetName: "Downing Street",
+    neighborhood: "Westminster",
+    locality: "London",
+    adminDistrict: "England",
+    adminDistrictName: "England",
+    adminDistrict2: "Greater London",
+    postalCode: "SW1A 2AA",
+    countryIso: "GB",
+    countryName: "United Kingdom",
+  },
+  {
+    type: "Address",
+    lat: -33.856784,
+    lon: 151.215297,
+    streetName: "Bennelong Point",
+    locality: "Sydney",
+    adminDistrict: "NSW",
+    adminDistrictName: "New South Wales",
+    postalCode: "2000",
+    countryIso: "AU",
+    countryName: "Australia",
+  },
+  {
+    type: "PopulatedPlace",
+    lat: 34.168331,
+    lon: -118.605919,
+    locality: "Woodland Hills",
+    adminDistrict: "CA",
+    adminDistrictName: "California",
+    adminDistrict2: "Los Angeles County",
+    ...US,
+  },
+  {
+    type: "PopulatedPlace",
+    lat: 47.673988,
+    lon: -122.121513,
+    locality: "Redmond",
+    adminDistrict: "WA",
+    adminDistrictName: "Washington",
+    adminDistrict2: "King County",
+    ...US,
+  },
+  {
+    type: "PopulatedPlace",
+    lat: 47.606209,
+    lon: -122.332071,
+    locality: "Seattle",
+    adminDistrict: "WA",
+    adminDistrictName: "Washington",
+    adminDistrict2: "King County",
+    ...US,
+  },
+  {
+    type: "PopulatedPlace",
+    lat: 40.712728,
+    lon: -74.006015,
+    locality: "New York",
+    adminDistrict: "NY",
+    adminDistrictName: "New York",
+    adminDistrict2: "New York County",
+    ...US,
+  },
+  {
+    type: "PopulatedPlace",
+    lat: 42.033361,
+    lon: -88.083406,
+    locality: "Schaumburg",
+    adminDistrict: "IL",
+    adminDistrictName: "Illinois",
+    adminDistrict2: "Cook County",
+    ...US,
+  },
+  {
+    type: "PopulatedPlace",
+    lat: 41.875562,
+    lon: -87.624421,
+    locality: "Chicago",
+    adminDistrict: "IL",
+    adminDistrictName: "Illinois",
+    adminDistrict2: "Cook County",
+    ...US,
+  },
+  {
+    type: "PopulatedPlace",
+    lat: 29.758938,
+    lon: -95.367697,
+    locality: "Houston",
+    adminDistrict: "TX",
+    adminDistrictName: "Texas",
+    adminDistrict2: "Harris County",
+    ...US,
+  },
+  { type: "CountryRegion", lat: 39.828175, lon: -98.5795, ...US },
+  { type: "CountryRegion", lat: 54.314919, lon: -2.23218, countryIso: "GB", countryName: "United Kingdom" },
+  { type: "CountryRegion", lat: -25.585241, lon: 134.504120, countryIso: "AU", countryName: "Australia" },
+  { type: "CountryRegion", lat: 51.163818, lon: 10.447831, countryIso: "DE", countryName: "Germany" },
+  { type: "CountryRegion", lat: 36.574844, lon: 139.239418, countryIso: "JP", countryName: "Japan" },
+  { type: "CountryRegion", lat: 46.603354, lon: 1.888334, countryIso: "FR", countryName: "France" },
+  { type: "CountryRegion", lat: 61.066692, lon: -107.991707, countryIso: "CA", countryName: "Canada" },
+];
+
+export const placeAddressLine = (place: MockPlace) =>
+  [place.streetNumber, place.streetName].filter(Boolean).join(" ");
+
+// "6301 Owensmouth Ave, Woodland Hills, CA 91367"
+export const formatPlace = (place: MockPlace) => {
+  if (place.type === "CountryRegion") return place.countryName;
+  const region = [place.adminDistrict, place.postalCode].filter(Boolean).join(" ");
+  return [placeAddressLine(place), place.locality, region]
+    .filter(Boolean)
+    .join(", ");
+};
+
+const toRadians = (value: number) => (value * Math.PI) / 180;
+
+/** Great-circle distance in meters. */
+export const distanceMeters = (
+  a: { lat: number; lon: number },
+  b: { lat: number; lon: number }
+) => {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLon = toRadians(b.lon - a.lon);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * 6_371_000 * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+/** Stable 32-bit FNV-1a hash used to derive deterministic mock values. */
+export const hashString = (value: string) => {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < value.length; index += 1) {
+    hash ^= value.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
@@ -0,0 +1,98 @@
+import "server-only";
+import { deflateSync } from "node:zlib";
+
+type Rgb = [number, number, number];
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, index) => {
+  let value = index;
+  for (let bit = 0; bit < 8; bit += 1) {
+    value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+  }
+  return value >>> 0;
+});
+
+const crc32 = (bytes: Buffer) => {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const chunk = (type: string, data: Buffer) => {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, "ascii"), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+};
+
+/** Encodes 8-bit RGB pixels (row-major, 3 bytes per pixel) as a PNG. */
+export const encodePng = (width: number, height: number, pixels: Uint8Array) => {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 2; // truecolor
+  const stride = width * 3;
+  const scanlines = Buffer.alloc((stride + 1) * height);
+  for (let y = 0; y < height; y += 1) {
+    // Each scanline starts with filter type 0 (none).
+    scanlines.set(pixels.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  }
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk("IHDR", header),
+    chunk("IDAT", deflateSync(scanlines)),
+    chunk("IEND", Buffer.alloc(0)),
+  ]);
+};
+
+const LAND: Rgb = [241, 245, 249];
+const GRID: Rgb = [203, 213, 225];
+const ROAD: Rgb = [255, 255, 255];
+const PIN: Rgb = [225, 29, 72];
+
+/**
+ * Draws a placeholder for /map/static: a grid that shifts with the center
+ * and zoom, two "roads" through the center and a pin on it. Nothing about the
+ * image is geographic; it only has to be the requested size and differ per view.
+ */
+export const renderPlaceholderMap = (options: {
+  lat: number;
+  lon: number;
+  zoom: number;
+  width: number;
+  height: number;
+}) => {
+  const { lat, lon, zoom, width, height } = options;
+  const pixels = new Uint8Array(width * height * 3);
+  const cell = 16 + zoom * 4;
+  // World pixel offset of the center at this zoom, so panning moves the grid.
+  const scale = 256 * 2 ** zoom;
+  const offsetX = Math.round(((lon + 180) / 360) * scale);
+  const offsetY = Math.round(((90 - lat) / 180) * scale);
+  const centerX = Math.floor(width / 2);
+  const centerY = Math.floor(height / 2);
+
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      const worldX = x - centerX + offsetX;
+      const worldY = y - centerY + offsetY;
+      let color = LAND;
+      if (Math.abs(x - centerX) <= 2 || Math.abs(y - centerY) <= 2) {
+        color = ROAD;
+      } else if (((worldX % cell) + cell) % cell === 0 || ((worldY % cell) + cell) % cell === 0) {
+        color = GRID;
+      }
+      // Pin: a round head above a point that touches the center.
+      const dx = x - centerX;
+      const dy = y - (centerY - 12);
+      const tip = centerY - y;
+      if (dx * dx + dy * dy <= 64 || (tip >= 0 && tip <= 12 && Math.abs(dx) <= tip * 0.6)) {
+        color = PIN;
+      }
+      pixels.set(color, (y * width + x) * 3);
+    }
+  }
+  return encodePng(width, height, pixels);
+};
@@ -0,0 +1,36 @@
+// Fault-injection scenarios for /api/mock, chosen with the x-mock-scenario
+// header or the `scenario` query param.
+export const mockScenarios = [
+  { id: "none", label: "Normal responses" },
+  { id: "invalid-key", label: "401 Invalid subscription key" },
+  { id: "rbac-missing", label: "403 Missing RBAC role" },
+  { id: "rate-limited", label: "429 Too many requests" },
+  { id: "server-error", label: "500 Internal server error" },
+  { id: "timeout", label: "504 Upstream timeout" },
+  { id: "malformed-json", label: "Malformed JSON" },
+  { id: "empty-results", label: "Empty results" },
+  { id: "slow", label: "Slow response" },
+] as const;
+
+export type MockScenario = (typeof mockScenarios)[number]["id"];
+
+export const MOCK_SCENARIO_HEADER = "x-mock-scenario";
+export const MOCK_LATENCY_HEADER = "x-mock-latency-ms";
+
+export const DEFAULT_MOCK_LATENCY_MS = 3000;
+export const MAX_MOCK_LATENCY_MS = 60_000;
+
+export const isMockScenario = (value: string): value is MockScenario =>
+  mockScenarios.some((scenario) => scenario.id === value);
+
+// Scenarios that wait before answering and so use the latency setting.
+export const isDelayedScenario = (scenario: MockScenario) =>
+  scenario === "slow" || scenario === "timeout";
+
+/** /api/mock URL carrying the scenario (and latency for delayed ones) as query params. */
+export const mockEndpoint = (scenario: MockScenario, latencyMs: number) => {
+  if (scenario === "none") return "/api/mock";
+  const search = new URLSearchParams({ scenario });
+  if (isDelayedScenario(scenario)) search.set("latencyMs", String(latencyMs));
+  return `/api/mock?${search.toString()}`;
+};
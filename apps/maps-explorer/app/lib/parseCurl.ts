@@ -0,0 +1,313 @@
+import type { CurlShell } from "./buildCurl";
+
+export type ParsedCurl = {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: string;
+};
+
+export type ParseCurlResult = { ok: true; curl: ParsedCurl } | { ok: false; message: string };
+
+type SplitResult = { ok: true; args: string[] } | { ok: false; message: string };
+
+const ANSI_ESCAPES: Record<string, string> = {
+  n: "\n",
+  r: "\r",
+  t: "\t",
+  "\\": "\\",
+  "'": "'",
+  '"': '"',
+};
+
+// Reads a bash $'...' string starting after the opening quote; returns the text and the closing index.
+const readAnsiString = (command: string, start: number) => {
+  let text = "";
+  for (let index = start; index < command.length; index += 1) {
+    const char = command[index];
+    if (char === "'") return { text, end: index };
+    if (char !== "\\") {
+      text += char;
+      continue;
+    }
+    const next = command[index + 1] ?? "";
+    const hex = /^x([0-9a-f]{1,2})|^u([0-9a-f]{4})/i.exec(command.slice(index + 1));
+    if (hex) {
+      text += String.fromCharCode(Number.parseInt(hex[1] ?? hex[2], 16));
+      index += hex[0].length;
+    } else {
+      text += ANSI_ESCAPES[next] ?? `\\${next}`;
+      index += 1;
+    }
+  }
+  return null;
+};
+
+// bash/zsh words: '...' is literal, "..." keeps \" \\ \$ \`, $'...' has C escapes
+// and a backslash-newline joins lines. Variables are left as written.
+const splitBash = (command: string): SplitResult => {
+  const args: string[] = [];
+  let current = "";
+  let inWord = false;
+  for (let index = 0; index < command.length; index += 1) {
+    const char = command[index];
+    if (char === "\\") {
+      const next = command[index + 1];
+      if (next === "\r" && command[index + 2] === "\n") index += 2;
+      else if (next === "\n") index += 1;
+      else if (next !== undefined) {
+        current += next;
+        inWord = true;
+        index += 1;
+      }
+    } else if (char === "$" && command[index + 1] === "'") {
+      const ansi = readAnsiString(command, index + 2);
+      if (!ansi) return { ok: false, message: "Unterminated $'...' string." };
+      current += ansi.text;
+      inWord = true;
+      index = ansi.end;
+    } else if (char === "'") {
+      const end = command.indexOf("'", index + 1);
+      if (end < 0) return { ok: false, message: "Unterminated single quote." };
+      current += command.slice(index + 1, end);
+      inWord = true;
+      index = end;
+    } else if (char === '"') {
+      inWord = true;
+      let closed = false;
+      for (index += 1; index < command.length; index += 1) {
+        const inner = command[index];
+        if (inner === '"') {
+          closed = true;
+          break;
+        }
+        if (inner === "\\" && '"\\$`\n'.includes(command[index + 1] ?? "")) {
+          if (command[index + 1] !== "\n") current += command[index + 1];
+          index += 1;
+        } else {
+          current += inner;
+        }
+      }
+      if (!closed) return { ok: false, message: "Unterminated double quote." };
+    } else if (/\s/.test(char)) {
+      if (inWord) args.push(current);
+      current = "";
+      inWord = false;
+    } else {
+      current += char;
+      inWord = true;
+    }
+  }
+  if (inWord) args.push(current);
+  return { ok: true, args };
+};
+
+// PowerShell: '...' is literal with '' for a quote, "..." takes `x escapes and ""
+// for a quote, and a backtick before a newline continues the command.
+const splitPowerShell = (command: string): SplitResult => {
+  const args: string[] = [];
+  let current = "";
+  let inWord = false;
+  let quote: "'" | '"' | null = null;
+  for (let index = 0; index < command.length; index += 1) {
+    const char = command[index];
+    const next = command[index + 1];
+    if (quote) {
+      if (char === quote && next === quote) {
+        current += char;
+        index += 1;
+      } else if (char === quote) {
+        quote = null;
+      } else if (quote === '"' && char === "`" && next !== undefined) {
+        current += next;
+        index += 1;
+      } else {
+        current += char;
+      }
+    } else if (char === "`") {
+      if (next === "\r" && command[index + 2] === "\n") index += 2;
+      else if (next === "\n") index += 1;
+      else if (next !== undefined) {
+        current += next;
+        inWord = true;
+        index += 1;
+      }
+    } else if (char === "'" || char === '"') {
+      quote = char;
+      inWord = true;
+    } else if (/\s/.test(char)) {
+      if (inWord) args.push(current);
+      current = "";
+      inWord = false;
+    } else {
+      current += char;
+      inWord = true;
+    }
+  }
+  if (quote) return { ok: false, message: "Unterminated quote." };
+  if (inWord) args.push(current);
+  return { ok: true, args };
+};
+
+/**
+ * cmd.exe first drops ^ escapes outside its own quotes (^ before a newline
+ * continues the line), then curl's C runtime splits the line: quotes group,
+ * "" inside quotes is a literal quote and backslashes only escape quotes.
+ */
+const splitCmd = (command: string): SplitResult => {
+  let line = "";
+  let cmdQuoted = false;
+  for (let index = 0; index < command.length; index += 1) {
+    const char = command[index];
+    if (char === "^" && !cmdQuoted) {
+      const next = command[index + 1];
+      if (next === "\r" && command[index + 2] === "\n") index += 2;
+      else if (next === "\n") index += 1;
+      else if (next !== undefined) {
+        line += next;
+        index += 1;
+      }
+      continue;
+    }
+    if (char === '"') cmdQuoted = !cmdQuoted;
+    line += char;
+  }
+
+  const args: string[] = [];
+  let current = "";
+  let inWord = false;
+  let quoted = false;
+  for (let index = 0; index < line.length; index += 1) {
+    const char = line[index];
+    if (char === "\\") {
+      let count = 0;
+      while (line[index + count] === "\\") count += 1;
+      if (line[index + count] === '"') {
+        current += "\\".repeat(Math.floor(count / 2));
+        if (count % 2 === 1) {
+          current += '"';
+          index += count;
+        } else {
+          index += count - 1;
+        }
+      } else {
+        current += "\\".repeat(count);
+        index += count - 1;
+      }
+      inWord = true;
+    } else if (char === '"') {
+      if (quoted && line[index + 1] === '"') {
+        current += '"';
+        index += 1;
+      } else {
+        quoted = !quoted;
+      }
+      inWord = true;
+    } else if (/\s/.test(char) && !quoted) {
+      if (inWord) args.push(current);
+      current = "";
+      inWord = false;
+    } else {
+      current += char;
+      inWord = true;
+    }
+  }
+  if (quoted) return { ok: false, message: "Unterminated double quote." };
+  if (inWord) args.push(current);
+  return { ok: true, args };
+};
+
+const SPLITTERS: Record<CurlShell, (command: string) => SplitResult> = {
+  bash: splitBash,
+  powershell: splitPowerShell,
+  cmd: splitCmd,
+};
+
+/** Guesses the shell from curl.exe and the line continuation characters. */
+export const detectCurlShell = (command: string): CurlShell => {
+  if (/^\s*curl\.exe\b/i.test(command) || /`\r?\n/.test(command)) return "powershell";
+  if (/\^\r?\n/.test(command) || /\^"/.test(command)) return "cmd";
+  return "bash";
+};
+
+const DATA_OPTIONS = ["-d", "--data", "--data-raw", "--data-binary", "--data-ascii", "--json"];
+
+// Options whose value is irrelevant to the request shape but must be skipped.
+const IGNORED_VALUE_OPTIONS = [
+  "-o",
+  "--output",
+  "-u",
+  "--user",
+  "-e",
+  "--referer",
+  "-m",
+  "--max-time",
+  "--connect-timeout",
+  "--retry",
+  "-w",
+  "--write-out",
+  "-x",
+  "--proxy",
+  "--cacert",
+  "--cert",
+  "--key",
+];
+
+/**
+ * Method, URL, headers and body of a curl command. Data options are joined with
+ * "&" as curl does, and -G moves them into the query string.
+ */
+export const parseCurl = (command: string, shell = detectCurlShell(command)): ParseCurlResult => {
+  const split = SPLITTERS[shell](command.trim());
+  if (!split.ok) return split;
+  const [program, ...args] = split.args;
+  if (!program || !/^curl(\.exe)?$/i.test(program)) {
+    return { ok: false, message: "The command does not start with curl." };
+  }
+
+  let method: string | null = null;
+  let url: string | null = null;
+  let get = false;
+  const headers: Record<string, string> = {};
+  const data: string[] = [];
+  for (let index = 0; index < args.length; index += 1) {
+    const arg = args[index];
+    const value = () => {
+      index += 1;
+      return args[index] ?? "";
+    };
+    if (arg === "-X" || arg === "--request") method = value().toUpperCase();
+    else if (/^-X[A-Z]+$/i.test(arg)) method = arg.slice(2).toUpperCase();
+    else if (arg === "-H" || arg === "--header") {
+      const header = value();
+      const colon = header.indexOf(":");
+      if (colon > 0) headers[header.slice(0, colon).trim()] = header.slice(colon + 1).trim();
+    } else if (DATA_OPTIONS.includes(arg)) {
+      data.push(value());
+      if (arg === "--json") {
+        headers["content-type"] ??= "application/json";
+        headers.accept ??= "application/json";
+      }
+    } else if (arg === "-G" || arg === "--get") get = true;
+    else if (arg === "-I" || arg === "--head") method = "HEAD";
+    else if (arg === "--url") url = value();
+    else if (arg === "-A" || arg === "--user-agent") headers["user-agent"] = value();
+    else if (IGNORED_VALUE_OPTIONS.includes(arg)) value();
+    else if (!arg.startsWith("-") && url === null) url = arg;
+  }
+
+  if (!url) return { ok: false, message: "No URL found in the curl command." };
+  const body = data.length > 0 ? data.join("&") : undefined;
+  if (get && body) {
+    url = `${url}${url.includes("?") ? "&" : "?"}${body}`;
+  }
+  return {
+    ok: true,
+    curl: {
+      method: method ?? (body && !get ? "POST" : "GET"),
+      url,
+      headers,
+      ...(body && !get ? { body } : {}),
+    },
+  };
+};
@@ -0,0 +1,241 @@
+import "server-only";
+import { lookup as lookupCallback, type LookupAddress } from "node:dns";
+import { lookup } from "node:dns/promises";
+import { isIP } from "node:net";
+import { Agent, buildConnector, type Dispatcher } from "undici";
+
+export const DEFAULT_BASE_URL = "https://atlas.microsoft.com";
+
+// Azure Maps geographies the proxy may always attach credentials to.
+const GEOGRAPHY_HOSTS = [
+  "atlas.microsoft.com",
+  "us.atlas.microsoft.com",
+  "eu.atlas.microsoft.com",
+];
+
+export type BaseUrlResult =
+  | { ok: true; baseUrl: string }
+  | {
+      ok: false;
+      errorCode: "invalid_base_url" | "base_url_not_allowed";
+      message: string;
+    };
+
+const parseHostList = (value?: string) =>
+  (value ?? "")
+    .split(",")
+    .map((item) => item.trim().toLowerCase())
+    .filter(Boolean);
+
+const getCustomHosts = () => {
+  const hosts = parseHostList(process.env.AZURE_MAPS_ALLOWED_HOSTS);
+  const configured = process.env.AZURE_MAPS_BASE_URL;
+  if (configured) {
+    try {
+      hosts.push(new URL(configured).host.toLowerCase());
+    } catch {
+      // an invalid AZURE_MAPS_BASE_URL is reported when it is used
+    }
+  }
+  return hosts.filter((host) => !GEOGRAPHY_HOSTS.includes(host));
+};
+
+const isPrivateIPv4 = (address: string) => {
+  const [a, b] = address.split(".").map((part) => Number.parseInt(part, 10));
+  if (a === 0 || a === 10 || a === 127) return true;
+  if (a === 100 && b >= 64 && b <= 127) return true;
+  if (a === 169 && b === 254) return true;
+  if (a === 172 && b >= 16 && b <= 31) return true;
+  if (a === 192 && b === 168) return true;
+  if (a === 198 && (b === 18 || b === 19)) return true;
+  return a >= 224;
+};
+
+// The URL serializer compresses IPv6 and writes embedded IPv4 as two hex groups.
+const canonicalIPv6 = (address: string) => {
+  try {
+    return new URL(`http://[${address}]`).hostname.slice(1, -1);
+  } catch {
+    return address.toLowerCase();
+  }
+};
+
+export const isPrivateAddress = (address: string) => {
+  const version = isIP(address);
+  if (version === 4) return isPrivateIPv4(address);
+  if (version !== 6) return false;
+  const normalized = canonicalIPv6(address);
+  if (normalized === "::" || normalized === "::1") return true;
+  // IPv4-mapped (::ffff:), IPv4-compatible (::) and NAT64 (64:ff9b::) addresses.
+  const embedded = normalized.match(/^(?:::ffff:|::|64:ff9b::)([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (embedded) {
+    const high = Number.parseInt(embedded[1], 16);
+    const low = Number.parseInt(embedded[2], 16);
+    return isPrivateIPv4(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+  }
+  return /^(fc|fd|fe[89ab])/.test(normalized) || normalized.startsWith("ff");
+};
+
+const isLocalHostname = (hostname: string) =>
+  hostname === "localhost" ||
+  hostname.endsWith(".localhost") ||
+  hostname.endsWith(".local") ||
+  hostname.endsWith(".internal");
+
+const notAllowed = (message: string): BaseUrlResult => ({
+  ok: false,
+  errorCode: "base_url_not_allowed",
+  message,
+});
+
+/**
+ * Validates a base URL before server-side credentials are attached to it.
+ * Only the Azure Maps geographies and hosts listed in AZURE_MAPS_ALLOWED_HOSTS
+ * (or the host of AZURE_MAPS_BASE_URL) are accepted, and custom hosts must not
+ * resolve to loopback, link-local or private addresses.
+ */
+export const resolveBaseUrl = async (value?: string): Promise<BaseUrlResult> => {
+  const candidate = value ?? process.env.AZURE_MAPS_BASE_URL ?? DEFAULT_BASE_URL;
+  let parsed: URL;
+  try {
+    parsed = new URL(candidate);
+  } catch {
+    return {
+      ok: false,
+      errorCode: "invalid_base_url",
+      message: "Base URL must be a valid https URL without query or hash.",
+    };
+  }
+  if (parsed.protocol !== "https:" || parsed.search || parsed.hash) {
+    return {
+      ok: false,
+      errorCode: "invalid_base_url",
+      message: "Base URL must be a valid https URL without query or hash.",
+    };
+  }
+  if (parsed.username || parsed.password) {
+    return notAllowed("Base URL must not contain credentials.");
+  }
+
+  const host = parsed.host.toLowerCase();
+  const hostname = parsed.hostname.toLowerCase().replace(/^\[|\]$/g, "");
+  const baseUrl = `${parsed.origin}${parsed.pathname}`.replace(/\/$/, "");
+
+  if (GEOGRAPHY_HOSTS.includes(host)) {
+    return { ok: true, baseUrl };
+  }
+
+  if (!getCustomHosts().includes(host)) {
+    return notAllowed(
+      `Host ${host} is not an allowed Azure Maps geography. Add it to AZURE_MAPS_ALLOWED_HOSTS to use it.`
+    );
+  }
+
+  if (isLocalHostname(hostname) || isPrivateAddress(hostname)) {
+    return notAllowed(`Host ${host} points to a local or private address.`);
+  }
+
+  if (!isIP(hostname)) {
+    try {
+      const addresses = await lookup(hostname, { all: true });
+      if (addresses.some((entry) => isPrivateAddress(entry.address))) {
+        return notAllowed(`Host ${host} resolves to a private address.`);
+      }
+    } catch {
+      return notAllowed(`Host ${host} could not be resolved.`);
+    }
+  }
+
+  return { ok: true, baseUrl };
+};
+
+/**
+ * Repeats the private address check on the address a connection is actually
+ * opened to, so a DNS answer that changes after resolveBaseUrl (rebinding)
+ * cannot reach the internal network.
+ */
+const guardedLookup = (
+  hostname: string,
+  options: object,
+  callback: (error: Error | null, address: string | LookupAddress[], family?: number) => void
+) => {
+  lookupCallback(hostname, options, (error, address, family) => {
+    if (error) {
+      callback(error, address, family);
+      return;
+    }
+    const addresses = Array.isArray(address) ? address : [{ address, family }];
+    if (addresses.some((entry) => isPrivateAddress(entry.address))) {
+      callback(new Error(`Host ${hostname} resolves to a private address.`), address, family);
+      return;
+    }
+    callback(null, address, family);
+  });
+};
+
+const upstreamDispatcher = new Agent({ connect: { lookup: guardedLookup } });
+
+export type ConnectionTimings = {
+  dnsMs: number | null;
+  connectMs: number | null;
+};
+
+type OpenedConnection = { startedAt: number; dnsMs: number; connectMs: number };
+
+/**
+ * A guarded dispatcher for one diagnostics request that times DNS and
+ * connecting (TCP and TLS) for each connection it opens. Its attempts run one
+ * after another, so a lookup always belongs to the connection being opened.
+ * Close it once the response body has been read.
+ */
+export const createTimedDispatcher = () => {
+  const opened: OpenedConnection[] = [];
+  let resolvedAt: number | null = null;
+  const connector = buildConnector({
+    lookup: (hostname, options, callback) =>
+      guardedLookup(hostname, options, (error, address, family) => {
+        resolvedAt = Date.now();
+        callback(error, address, family);
+      }),
+  });
+  const agent = new Agent({
+    connect: (options, callback) => {
+      const startedAt = Date.now();
+      resolvedAt = null;
+      connector(options, (...args) => {
+        if (!args[0]) {
+          // IP literals skip the lookup.
+          const lookupEnd = resolvedAt ?? startedAt;
+          opened.push({
+            startedAt,
+            dnsMs: lookupEnd - startedAt,
+            connectMs: Date.now() - lookupEnd,
+          });
+        }
+        callback(...args);
+      });
+    },
+  });
+  return {
+    dispatcher: agent as Dispatcher,
+    /** DNS and connect time of the connection opened since `since`; null when one was reused. */
+    timingsSince: (since: number): ConnectionTimings => {
+      const connection = opened.findLast((item) => item.startedAt >= since);
+      return {
+        dnsMs: connection?.dnsMs ?? null,
+        connectMs: connection?.connectMs ?? null,
+      };
+    },
+    close: () => agent.close(),
+  };
+};
+
+/**
+ * Options for every upstream fetch: connections go through the address guard,
+ * and redirects are returned instead of followed so a validated host can't
+ * send credentials on to another one.
+ */
+export const upstreamFetchInit = <T extends RequestInit>(
+  init: T,
+  dispatcher: Dispatcher = upstreamDispatcher
+): T => ({ ...init, redirect: "manual", dispatcher }) as T;
@@ -0,0 +1,127 @@
+import { isTextContentType } from "../proxyResponse";
+import type { ApiResponse } from "../types";
+
+export type UpstreamBody = Pick<ApiResponse, "body" | "raw" | "encoding" | "size">;
+
+export class ResponseTooLargeError extends Error {
+  readonly limit: number;
+
+  constructor(limit: number) {
+    super(`Upstream response exceeds the ${limit}-byte limit.`);
+    this.name = "ResponseTooLargeError";
+    this.limit = limit;
+  }
+}
+
+/**
+ * Decodes upstream bytes without corrupting binary payloads. Text is parsed as
+ * JSON when the content type says so; images, vector tiles and other binary
+ * types are returned base64-encoded with their size.
+ */
+export const decodeUpstreamBody = (buffer: Buffer, contentType: string): UpstreamBody => {
+  if (!isTextContentType(contentType)) {
+    return {
+      body: { contentType, size: buffer.byteLength, encoding: "base64" },
+      raw: buffer.toString("base64"),
+      encoding: "base64",
+      size: buffer.byteLength,
+    };
+  }
+
+  const rawText = buffer.toString("utf8");
+  let body: unknown = rawText;
+  if (contentType.includes("json")) {
+    try {
+      body = JSON.parse(rawText);
+    } catch {
+      body = rawText;
+    }
+  }
+  return { body, raw: rawText, size: buffer.byteLength };
+};
+
+/** Rejects early when Content-Length already announces a body over the limit. */
+export const assertContentLength = async (response: Response, maxBytes: number) => {
+  const announced = Number(response.headers.get("content-length"));
+  if (Number.isFinite(announced) && announced > maxBytes) {
+    await response.body?.cancel();
+    throw new ResponseTooLargeError(maxBytes);
+  }
+};
+
+export type LimitBodyHooks = {
+  // Receives the full body after the last chunk. Chunks are only kept when set.
+  onComplete?: (buffer: Buffer) => void;
+  // Runs once however the stream ends: completed, too large, failed or cancelled.
+  onClose?: () => void;
+};
+
+/**
+ * Passes the body through while counting bytes, erroring the stream (and
+ * cancelling the upstream read) once it grows past `maxBytes`.
+ */
+export const limitBodyStream = (
+  body: ReadableStream<Uint8Array>,
+  maxBytes: number,
+  { onComplete, onClose }: LimitBodyHooks = {}
+) => {
+  const reader = body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  let closed = false;
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    onClose?.();
+  };
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      let result: ReadableStreamReadResult<Uint8Array>;
+      try {
+        result = await reader.read();
+      } catch (error) {
+        close();
+        controller.error(error);
+        return;
+      }
+      if (result.done) {
+        close();
+        onComplete?.(Buffer.concat(chunks));
+        controller.close();
+        return;
+      }
+      received += result.value.byteLength;
+      if (received > maxBytes) {
+        close();
+        controller.error(new ResponseTooLargeError(maxBytes));
+        void reader.cancel().catch(() => undefined);
+        return;
+      }
+      if (onComplete) chunks.push(result.value);
+      controller.enqueue(result.value);
+    },
+    // The browser disconnected before the body finished.
+    cancel(reason) {
+      close();
+      return reader.cancel(reason);
+    },
+  });
+};
+
+export const readUpstreamBody = async (
+  response: Response,
+  maxBytes: number
+): Promise<UpstreamBody> => {
+  const contentType = response.headers.get("content-type") ?? "";
+  await assertContentLength(response, maxBytes);
+  if (!response.body) return decodeUpstreamBody(Buffer.alloc(0), contentType);
+
+  const reader = limitBodyStream(response.body, maxBytes).getReader();
+  const chunks: Uint8Array[] = [];
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+  }
+  return decodeUpstreamBody(Buffer.concat(chunks), contentType);
+};
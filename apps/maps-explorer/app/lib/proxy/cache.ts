@@ -0,0 +1,162 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { ApiResponseMeta, RequestShape } from "../types";
+import { normalizePath } from "../validation";
+
+export type CachedResponse = {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  url: string;
+  authSource?: ApiResponseMeta["authSource"];
+  body: unknown;
+  raw: string;
+  encoding?: "base64";
+  size?: number;
+  storedAt: number;
+  expiresAt: number;
+};
+
+export type ResponseCacheStore = {
+  get: (key: string) => Promise<CachedResponse | null>;
+  set: (key: string, entry: CachedResponse) => Promise<void>;
+};
+
+const HOUR_MS = 60 * 60_000;
+
+// First matching prefix wins; endpoints without a rule are never cached.
+const TTL_RULES: { prefix: string; ttlMs: number }[] = [
+  { prefix: "geolocation/ip", ttlMs: 0 },
+  { prefix: "geocode", ttlMs: 24 * HOUR_MS },
+  { prefix: "reversegeocode", ttlMs: 24 * HOUR_MS },
+  { prefix: "search/address", ttlMs: 24 * HOUR_MS },
+  { prefix: "weather/", ttlMs: 5 * 60_000 },
+];
+
+const DEFAULT_MAX_ENTRIES = 500;
+
+export const getCacheTtlMs = (path: string) => {
+  const normalized = normalizePath(path).toLowerCase();
+  return TTL_RULES.find((rule) => normalized.startsWith(rule.prefix))?.ttlMs ?? 0;
+};
+
+const sha256 = (value: string) => createHash("sha256").update(value).digest("hex");
+
+/**
+ * Cache key from the normalized path, sorted params and a hash of the body.
+ * The caller's own API key is fingerprinted so one visitor's key never serves
+ * another visitor's responses; in Entra mode the Maps account's client id
+ * keeps accounts apart.
+ */
+export const buildCacheKey = (request: RequestShape, baseUrl: string, method: string) => {
+  const params = Object.entries(request.params ?? {})
+    .filter(([, value]) => value !== undefined && value !== null)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, value]) => `${key}=${value}`)
+    .join("&");
+  const body = request.body === undefined ? "" : sha256(JSON.stringify(request.body));
+  const clientId = request.auth?.clientId?.trim();
+  const auth = request.auth?.apiKey
+    ? `key:${sha256(request.auth.apiKey).slice(0, 16)}`
+    : clientId
+      ? `client:${clientId}`
+      : "server";
+  return sha256(
+    [method, baseUrl, normalizePath(request.path).toLowerCase(), params, body, auth].join("\n")
+  );
+};
+
+export const createMemoryStore = (maxEntries = DEFAULT_MAX_ENTRIES) => {
+  const entries = new Map<string, CachedResponse>();
+
+  const store: ResponseCacheStore & { snapshot: () => [string, CachedResponse][] } = {
+    get: async (key) => {
+      const entry = entries.get(key);
+      if (!entry) return null;
+      if (entry.expiresAt <= Date.now()) {
+        entries.delete(key);
+        return null;
+      }
+      // Map keeps insertion order, so re-inserting marks the entry most recently used.
+      entries.delete(key);
+      entries.set(key, entry);
+      return entry;
+    },
+    set: async (key, entry) => {
+      entries.delete(key);
+      entries.set(key, entry);
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value;
+        if (oldest === undefined) break;
+        entries.delete(oldest);
+      }
+    },
+    snapshot: () => Array.from(entries.entries()),
+  };
+  return store;
+};
+
+export const createFileStore = (
+  filePath: string,
+  maxEntries = DEFAULT_MAX_ENTRIES
+): ResponseCacheStore => {
+  const memory = createMemoryStore(maxEntries);
+  let loaded: Promise<void> | null = null;
+  let writing = Promise.resolve();
+
+  const load = () => {
+    loaded ??= readFile(filePath, "utf8")
+      .then(async (text) => {
+        const saved = JSON.parse(text) as [string, CachedResponse][];
+        for (const [key, entry] of saved) {
+          if (entry.expiresAt > Date.now()) await memory.set(key, entry);
+        }
+      })
+      .catch(() => {
+        // missing or unreadable cache files start empty
+      });
+    return loaded;
+  };
+
+  const persist = () => {
+    writing = writing
+      .then(async () => {
+        await mkdir(dirname(filePath), { recursive: true });
+        await writeFile(filePath, JSON.stringify(memory.snapshot()));
+      })
+      .catch(() => {
+        // the in-memory copy stays authoritative if the disk write fails
+      });
+    return writing;
+  };
+
+  return {
+    get: async (key) => {
+      await load();
+      return memory.get(key);
+    },
+    set: async (key, entry) => {
+      await load();
+      await memory.set(key, entry);
+      await persist();
+    },
+  };
+};
+
+let responseCache: ResponseCacheStore | null = null;
+
+/**
+ * Shared proxy response cache. Disabled with MAPS_PROXY_CACHE=off; set
+ * MAPS_PROXY_CACHE_FILE to persist entries across restarts.
+ */
+export const getResponseCache = () => {
+  if (process.env.MAPS_PROXY_CACHE === "off") return null;
+  if (!responseCache) {
+    const parsed = Number.parseInt(process.env.MAPS_PROXY_CACHE_MAX_ENTRIES ?? "", 10);
+    const maxEntries = Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_MAX_ENTRIES;
+    const filePath = process.env.MAPS_PROXY_CACHE_FILE;
+    responseCache = filePath ? createFileStore(filePath, maxEntries) : createMemoryStore(maxEntries);
+  }
+  return responseCache;
+};
@@ -0,0 +1,176 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname, resolve } from "node:path";
+import type { NextRequest } from "next/server";
+import type { ApiResponseMeta, RequestShape } from "../types";
+import { normalizePath } from "../validation";
+import { decodeUpstreamBody, type UpstreamBody } from "./body";
+
+export type CassetteMode = "record" | "replay";
+
+// Lets one request replay from the configured cassette without switching the whole server.
+export const CASSETTE_HEADER = "x-maps-cassette";
+
+const DEFAULT_CASSETTE_FILE = "cassettes/maps.json";
+
+// Credentials that may appear as query params; never written to or matched against a cassette.
+const AUTH_PARAMS = ["subscription-key", "api-key", "sig", "token", "access_token"];
+
+const isAuthParam = (key: string) => AUTH_PARAMS.includes(key.toLowerCase());
+
+export type CassetteRequest = {
+  method: string;
+  path: string;
+  params: Record<string, string>;
+  body?: unknown;
+};
+
+export type CassetteResponse = {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  url: string;
+  authSource?: ApiResponseMeta["authSource"];
+  durationMs: number;
+  raw: string;
+  encoding?: "base64";
+};
+
+export type CassetteEntry = {
+  request: CassetteRequest;
+  response: CassetteResponse;
+  recordedAt: string;
+};
+
+type CassetteFile = {
+  version: 1;
+  entries: CassetteEntry[];
+};
+
+/**
+ * Record mode comes from MAPS_CASSETTE_MODE only. Replay can also be asked for
+ * per request with the x-maps-cassette header, as long as a cassette file is
+ * configured, so tests can replay while other traffic still goes upstream.
+ */
+export const getCassetteMode = (request: NextRequest): CassetteMode | null => {
+  const mode = process.env.MAPS_CASSETTE_MODE;
+  if (mode === "record" || mode === "replay") return mode;
+  if (process.env.MAPS_CASSETTE_FILE && request.headers.get(CASSETTE_HEADER) === "replay") {
+    return "replay";
+  }
+  return null;
+};
+
+/** Drops auth params and undefined values so recordings never hold credentials. */
+export const toCassetteRequest = (payload: RequestShape, method: string): CassetteRequest => ({
+  method,
+  path: normalizePath(payload.path),
+  params: Object.fromEntries(
+    Object.entries(payload.params ?? {}).filter(
+      ([key, value]) => value !== undefined && value !== null && !isAuthParam(key)
+    )
+  ),
+  ...(payload.body === undefined ? {} : { body: payload.body }),
+});
+
+// The upstream URL as recorded: the same request without its credential params.
+const stripAuthParams = (url: string) => {
+  try {
+    const parsed = new URL(url);
+    Array.from(parsed.searchParams.keys())
+      .filter(isAuthParam)
+      .forEach((key) => parsed.searchParams.delete(key));
+    return parsed.toString();
+  } catch {
+    return "";
+  }
+};
+
+// Method, case-insensitive path, sorted params and the body; the base URL is ignored
+// so recordings replay against any geography.
+const cassetteKey = (request: CassetteRequest) => {
+  const params = Object.entries(request.params)
+    .filter(([key]) => !isAuthParam(key))
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, value]) => `${key}=${value}`)
+    .join("&");
+  const body = request.body === undefined ? "" : JSON.stringify(request.body);
+  return createHash("sha256")
+    .update(
+      [request.method.toUpperCase(), normalizePath(request.path).toLowerCase(), params, body].join(
+        "\n"
+      )
+    )
+    .digest("hex");
+};
+
+/** Body, raw text and size of a recorded response, decoded like a live one. */
+export const decodeCassetteBody = (response: CassetteResponse): UpstreamBody =>
+  decodeUpstreamBody(
+    Buffer.from(response.raw, response.encoding === "base64" ? "base64" : "utf8"),
+    response.headers["content-type"] ?? ""
+  );
+
+export type Cassette = {
+  filePath: string;
+  find: (request: CassetteRequest) => Promise<CassetteEntry | null>;
+  record: (request: CassetteRequest, response: CassetteResponse) => Promise<void>;
+};
+
+export const createCassette = (filePath: string): Cassette => {
+  const entries = new Map<string, CassetteEntry>();
+  let loaded: Promise<void> | null = null;
+  let writing = Promise.resolve();
+
+  const load = () => {
+    loaded ??= readFile(filePath, "utf8")
+      .then((text) => {
+        const saved = JSON.parse(text) as Partial<CassetteFile>;
+        (saved.entries ?? []).forEach((entry) => entries.set(cassetteKey(entry.request), entry));
+      })
+      .catch(() => {
+        // a missing cassette starts empty; replay then reports every request as a miss
+      });
+    return loaded;
+  };
+
+  const persist = () => {
+    writing = writing
+      .then(async () => {
+        const file: CassetteFile = { version: 1, entries: Array.from(entries.values()) };
+        await mkdir(dirname(filePath), { recursive: true });
+        await writeFile(filePath, `${JSON.stringify(file, null, 2)}\n`);
+      })
+      .catch(() => {
+        console.error(JSON.stringify({ event: "maps_cassette_write_failed", path: filePath }));
+      });
+    return writing;
+  };
+
+  return {
+    filePath,
+    find: async (request) => {
+      await load();
+      return entries.get(cassetteKey(request)) ?? null;
+    },
+    record: async (request, response) => {
+      await load();
+      // Re-recording the same request replaces the earlier take.
+      entries.set(cassetteKey(request), {
+        request,
+        response: { ...response, url: stripAuthParams(response.url) },
+        recordedAt: new Date().toISOString(),
+      });
+      await persist();
+    },
+  };
+};
+
+let cassette: Cassette | null = null;
+
+/** Cassette at MAPS_CASSETTE_FILE (default cassettes/maps.json, relative to the app). */
+export const getCassette = () => {
+  const filePath = resolve(process.env.MAPS_CASSETTE_FILE || DEFAULT_CASSETTE_FILE);
+  if (cassette?.filePath !== filePath) cassette = createCassette(filePath);
+  return cassette;
+};
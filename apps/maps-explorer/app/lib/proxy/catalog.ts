@@ -0,0 +1,91 @@
+import "server-only";
+import { readFile, stat } from "node:fs/promises";
+import { endpointCatalog, findCatalogEntry } from "../endpointCatalog";
+import type { EndpointCatalogEntry, HttpMethod } from "../types";
+
+export type CatalogCheck =
+  | { ok: true; entry: EndpointCatalogEntry }
+  | { ok: false; message: string };
+
+let loadedCatalog: { path: string; mtimeMs: number; entries: EndpointCatalogEntry[] } | null = null;
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === "string");
+
+// Malformed entries are skipped; one bad field would otherwise fail every proxy call.
+const isCatalogEntry = (value: unknown): value is EndpointCatalogEntry => {
+  if (!value || typeof value !== "object") return false;
+  const entry = value as Record<keyof EndpointCatalogEntry, unknown>;
+  return (
+    typeof entry.id === "string" &&
+    typeof entry.pattern === "string" &&
+    isStringArray(entry.methods) &&
+    isStringArray(entry.apiVersions) &&
+    (entry.requiredParams === undefined || isStringArray(entry.requiredParams)) &&
+    (entry.anyOfParams === undefined || isStringArray(entry.anyOfParams))
+  );
+};
+
+const readExtraEntries = async (filePath: string) => {
+  const { mtimeMs } = await stat(filePath);
+  if (loadedCatalog?.path === filePath && loadedCatalog.mtimeMs === mtimeMs) {
+    return loadedCatalog.entries;
+  }
+  const parsed = JSON.parse(await readFile(filePath, "utf8")) as unknown;
+  const entries = (Array.isArray(parsed) ? parsed : []).filter(isCatalogEntry);
+  loadedCatalog = { path: filePath, mtimeMs, entries };
+  return entries;
+};
+
+/**
+ * Built-in catalog plus entries from the JSON file at MAPS_ENDPOINT_CATALOG.
+ * File entries are checked first, so they can widen or replace built-in ones;
+ * the file is re-read whenever it changes.
+ */
+export const getEndpointCatalog = async () => {
+  const filePath = process.env.MAPS_ENDPOINT_CATALOG;
+  if (!filePath) return endpointCatalog;
+  try {
+    return [...(await readExtraEntries(filePath)), ...endpointCatalog];
+  } catch {
+    console.error(JSON.stringify({ event: "maps_catalog_load_failed", path: filePath }));
+    return endpointCatalog;
+  }
+};
+
+export const checkEndpoint = async (
+  path: string,
+  method: HttpMethod,
+  params: Record<string, string>
+): Promise<CatalogCheck> => {
+  const entry = findCatalogEntry(await getEndpointCatalog(), path);
+  if (!entry) {
+    return { ok: false, message: `Endpoint "${path}" is not in the endpoint catalog.` };
+  }
+  if (!entry.methods.includes(method)) {
+    return {
+      ok: false,
+      message: `${method} is not allowed for "${path}". Allowed: ${entry.methods.join(", ")}.`,
+    };
+  }
+
+  const present = (key: string) => Boolean(params[key]?.trim());
+  const apiVersion = params["api-version"];
+  if (entry.apiVersions.length > 0 && !entry.apiVersions.includes(apiVersion ?? "")) {
+    return {
+      ok: false,
+      message: `api-version ${apiVersion ? `"${apiVersion}"` : "(missing)"} is not allowed for "${path}". Allowed: ${entry.apiVersions.join(", ")}.`,
+    };
+  }
+  const missing = (entry.requiredParams ?? []).filter((key) => !present(key));
+  if (missing.length > 0) {
+    return { ok: false, message: `Missing required params: ${missing.join(", ")}.` };
+  }
+  if (entry.anyOfParams && !entry.anyOfParams.some(present)) {
+    return {
+      ok: false,
+      message: `Provide at least one of: ${entry.anyOfParams.join(", ")}.`,
+    };
+  }
+  return { ok: true, entry };
+};
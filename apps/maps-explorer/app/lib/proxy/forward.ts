@@ -0,0 +1,600 @@
+import "server-only";
+import { SpanStatusCode } from "@opentelemetry/api";
+import { NextResponse, type NextRequest } from "next/server";
+import { describeTokenError } from "../auth/errors";
+import { getMapsToken, type MapsAccessToken } from "../auth/token";
+import { toPassthroughHeaders } from "../proxyResponse";
+import { redactUrl, type RequestTelemetry } from "../telemetry/requestLog";
+import { startSpan, toTraceparent, withSpan } from "../telemetry/tracing";
+import {
+  buildQueryString,
+  getEndpointFamily,
+  isPathSafe,
+  normalizePath,
+} from "../validation";
+import type { ApiResponse, ApiResponseMeta, HttpMethod, RequestShape } from "../types";
+import { createTimedDispatcher, resolveBaseUrl, upstreamFetchInit } from "./baseUrl";
+import {
+  ResponseTooLargeError,
+  assertContentLength,
+  decodeUpstreamBody,
+  limitBodyStream,
+  readUpstreamBody,
+} from "./body";
+import { buildCacheKey, getCacheTtlMs, getResponseCache } from "./cache";
+import {
+  decodeCassetteBody,
+  getCassette,
+  getCassetteMode,
+  toCassetteRequest,
+} from "./cassette";
+import { checkEndpoint } from "./catalog";
+import {
+  buildDiagnostics,
+  getResponseHeaderAllowlist,
+  isDiagnosticsAllowed,
+  pickResponseHeaders,
+} from "./headers";
+import {
+  consumeDailyQuota,
+  consumeRateLimit,
+  getRateLimitKeys,
+  rateLimitHeaders,
+  rateLimitedResponse,
+  recordDailyTransactions,
+} from "./rateLimit";
+import { fetchWithRetry } from "./retry";
+import {
+  createUpstreamAbort,
+  getMaxResponseBytes,
+  getUpstreamTimeoutMs,
+} from "./upstream";
+
+export type ForwardOptions = {
+  // Lets a batch share one token acquisition across its items.
+  getToken?: () => Promise<MapsAccessToken>;
+};
+
+/**
+ * Validates, rate limits, authenticates and forwards one RequestShape to
+ * Azure Maps, answering from the response cache when it can.
+ */
+export const forwardMapsRequest = async (
+  request: NextRequest,
+  payload: RequestShape,
+  telemetry: RequestTelemetry,
+  options: ForwardOptions = {}
+) => {
+  const path = normalizePath(payload.path || "");
+  telemetry.annotate({ path, method: payload.method, params: payload.params });
+  if (!isPathSafe(path)) {
+    return NextResponse.json(
+      {
+        meta: {
+          status: 400,
+          statusText: "Invalid Path",
+          headers: {},
+          durationMs: 0,
+          url: "",
+        },
+        body: { message: "Endpoint path is invalid." },
+        raw: "",
+        errorCode: "invalid_path",
+      } satisfies ApiResponse,
+      { status: 400 }
+    );
+  }
+
+  const query = buildQueryString(payload.params || {});
+  const method = (payload.method || "GET").toUpperCase();
+  const allowedMethods = ["GET", "POST", "PUT", "PATCH", "DELETE"] as const;
+  if (!allowedMethods.includes(method as (typeof allowedMethods)[number])) {
+    return NextResponse.json(
+      {
+        meta: {
+          status: 400,
+          statusText: "Invalid Method",
+          headers: {},
+          durationMs: 0,
+          url: "",
+        },
+        body: { message: "Unsupported HTTP method." },
+        raw: "",
+        errorCode: "invalid_method",
+      } satisfies ApiResponse,
+      { status: 400 }
+    );
+  }
+  const endpoint = await checkEndpoint(path, method as HttpMethod, payload.params || {});
+  if (!endpoint.ok) {
+    return NextResponse.json(
+      {
+        meta: {
+          status: 403,
+          statusText: "Endpoint Not Allowed",
+          headers: {},
+          durationMs: 0,
+          url: "",
+        },
+        body: { message: endpoint.message },
+        raw: "",
+        errorCode: "endpoint_not_allowed",
+      } satisfies ApiResponse,
+      { status: 403 }
+    );
+  }
+
+  const family = getEndpointFamily(path);
+  telemetry.annotate({ endpoint: endpoint.entry.id, family });
+
+  // Replays answer before rate limits and auth: nothing leaves the server.
+  const cassetteMode = getCassetteMode(request);
+  const cassetteRequest = cassetteMode ? toCassetteRequest(payload, method) : null;
+  if (cassetteMode === "replay" && cassetteRequest) {
+    const cassette = getCassette();
+    const entry = await cassette.find(cassetteRequest);
+    telemetry.annotate({ cassette: entry ? "HIT" : "MISS" });
+    if (!entry) {
+      return NextResponse.json(
+        {
+          meta: {
+            status: 404,
+            statusText: "Cassette Miss",
+            headers: { "x-cassette": "MISS" },
+            durationMs: 0,
+            url: "",
+          },
+          body: {
+            message: `No recorded response for ${method} ${path} with these params and body in ${cassette.filePath}.`,
+            request: cassetteRequest,
+          },
+          raw: "",
+          errorCode: "cassette_miss",
+        } satisfies ApiResponse,
+        { status: 404 }
+      );
+    }
+    const recorded = entry.response;
+    const meta: ApiResponseMeta = {
+      status: recorded.status,
+      statusText: recorded.statusText,
+      headers: { ...recorded.headers, "x-cassette": "HIT" },
+      durationMs: recorded.durationMs,
+      url: recorded.url,
+      authSource: recorded.authSource,
+    };
+    const decoded = decodeCassetteBody(recorded);
+    if (payload.passthrough) {
+      return new NextResponse(
+        decoded.encoding === "base64" ? Buffer.from(decoded.raw, "base64") : decoded.raw,
+        { status: recorded.status, headers: toPassthroughHeaders(meta) }
+      );
+    }
+    return NextResponse.json({ meta, ...decoded } satisfies ApiResponse, {
+      status: recorded.status,
+    });
+  }
+  const rateLimit = consumeRateLimit(getRateLimitKeys(request), family);
+  let limitHeaders = rateLimitHeaders(rateLimit, null);
+  if (!rateLimit.allowed) {
+    return rateLimitedResponse(
+      `Rate limit for ${rateLimit.family} requests exceeded.`,
+      rateLimit.resetAt,
+      limitHeaders
+    );
+  }
+
+  const resolvedBase = await resolveBaseUrl(payload.baseUrl);
+  if (!resolvedBase.ok) {
+    const notAllowed = resolvedBase.errorCode === "base_url_not_allowed";
+    return NextResponse.json(
+      {
+        meta: {
+          status: notAllowed ? 403 : 400,
+          statusText: notAllowed ? "Base URL Not Allowed" : "Invalid Base URL",
+          headers: {},
+          durationMs: 0,
+          url: "",
+        },
+        body: { message: resolvedBase.message },
+        raw: "",
+        errorCode: resolvedBase.errorCode,
+      } satisfies ApiResponse,
+      { status: notAllowed ? 403 : 400 }
+    );
+  }
+  const normalizedBase = resolvedBase.baseUrl;
+
+  const url = `${normalizedBase}/${path}${query ? `?${query}` : ""}`;
+
+  // Diagnostics always reach the upstream so its headers and timings are real.
+  const diagnostics = Boolean(payload.diagnostics) && isDiagnosticsAllowed();
+  // Recording must capture what Azure Maps returns, not what the cache holds.
+  const skipCacheRead =
+    Boolean(payload.bypassCache) || diagnostics || cassetteMode === "record";
+  const cache = getResponseCache();
+  const cacheTtlMs = getCacheTtlMs(path);
+  const cacheKey =
+    cache && cacheTtlMs > 0 ? buildCacheKey(payload, normalizedBase, method) : null;
+  if (cache && cacheKey && !skipCacheRead) {
+    const cached = await cache.get(cacheKey);
+    if (cached) {
+      telemetry.annotate({ cache: "HIT", authSource: cached.authSource });
+      const meta: ApiResponseMeta = {
+        status: cached.status,
+        statusText: cached.statusText,
+        headers: {
+          ...cached.headers,
+          "x-cache": "HIT",
+          age: String(Math.floor((Date.now() - cached.storedAt) / 1000)),
+        },
+        durationMs: 0,
+        url: cached.url,
+        authSource: cached.authSource,
+      };
+      if (payload.passthrough) {
+        return new NextResponse(
+          cached.encoding === "base64" ? Buffer.from(cached.raw, "base64") : cached.raw,
+          { status: cached.status, headers: { ...toPassthroughHeaders(meta), ...limitHeaders } }
+        );
+      }
+      return NextResponse.json(
+        {
+          meta,
+          body: cached.body,
+          raw: cached.raw,
+          encoding: cached.encoding,
+          size: cached.size,
+        } satisfies ApiResponse,
+        { status: cached.status, headers: limitHeaders }
+      );
+    }
+  }
+
+  const mapsKey = payload.auth?.apiKey ?? process.env.AZURE_MAPS_KEY;
+  const mapsClientId = payload.auth?.clientId ?? process.env.AZURE_MAPS_CLIENT_ID;
+
+  let authHeaders: Record<string, string> = {};
+  let authSource: ApiResponseMeta["authSource"];
+  let tokenMs: number | null = null;
+  if (mapsKey) {
+    authHeaders = { "subscription-key": mapsKey };
+    authSource = "subscription-key";
+    telemetry.annotate({ authSource });
+  } else {
+    if (!mapsClientId) {
+      return NextResponse.json(
+        {
+          meta: {
+            status: 500,
+            statusText: "Missing Azure Maps Client ID",
+            headers: {},
+            durationMs: 0,
+            url,
+          },
+          body: { message: "AZURE_MAPS_CLIENT_ID is not set." },
+          raw: "",
+          errorCode: "missing_maps_client_id",
+        } satisfies ApiResponse,
+        { status: 500 }
+      );
+    }
+
+    try {
+      const tokenStart = Date.now();
+      const token = await withSpan("maps.token", {}, telemetry.span, async (span) => {
+        const acquired = await (options.getToken ?? getMapsToken)();
+        span.setAttribute("maps.auth_source", acquired.provider);
+        return acquired;
+      });
+      authHeaders = {
+        Authorization: `Bearer ${token.accessToken}`,
+        "x-ms-client-id": mapsClientId,
+      };
+      tokenMs = Date.now() - tokenStart;
+      authSource = token.provider;
+      telemetry.annotate({ authSource });
+    } catch (error) {
+      const { message, errorCode } = describeTokenError(error);
+      return NextResponse.json(
+        {
+          meta: {
+            status: 500,
+            statusText: "Token Error",
+            headers: {},
+            durationMs: 0,
+            url,
+          },
+          body: { message },
+          raw: "",
+          errorCode,
+        } satisfies ApiResponse,
+        { status: 500 }
+      );
+    }
+  }
+
+  const dailyQuota = consumeDailyQuota();
+  if (dailyQuota.quota) {
+    limitHeaders = rateLimitHeaders(rateLimit, dailyQuota.quota);
+  }
+  if (!dailyQuota.allowed && dailyQuota.quota) {
+    return rateLimitedResponse(
+      "Daily Azure Maps transaction cap reached.",
+      dailyQuota.quota.resetAt,
+      limitHeaders
+    );
+  }
+
+  const start = Date.now();
+  const timeoutMs = getUpstreamTimeoutMs(family);
+  const upstream = createUpstreamAbort(request.signal, timeoutMs);
+  const maxBytes = getMaxResponseBytes();
+  let streaming = false;
+  const upstreamSpan = startSpan(
+    "maps.upstream",
+    { "http.request.method": method, "url.full": redactUrl(url), "maps.family": family },
+    telemetry.span
+  );
+
+  const requestBody = payload.body ? JSON.stringify(payload.body) : undefined;
+  const outboundHeaders: Record<string, string> = {
+    ...authHeaders,
+    traceparent: toTraceparent(upstreamSpan),
+    ...(requestBody ? { "content-type": "application/json" } : {}),
+  };
+
+  // Diagnostics get a dispatcher of their own so connection setup can be timed.
+  const timed = diagnostics ? createTimedDispatcher() : null;
+
+  try {
+    const { response, attempts, retryWaitMs, lastAttemptAt, ttfbMs } = await fetchWithRetry(
+      url,
+      upstreamFetchInit(
+        {
+          method,
+          headers: outboundHeaders,
+          body: requestBody,
+          signal: upstream.signal,
+          cache: "no-store",
+        },
+        timed?.dispatcher
+      ),
+      payload.retry
+    );
+
+    recordDailyTransactions(attempts - 1);
+
+    const headers = pickResponseHeaders(response.headers, getResponseHeaderAllowlist());
+    const upstreamFields = {
+      upstreamStatus: response.status,
+      attempts,
+      retryWaitMs: Math.round(retryWaitMs),
+      upstreamRequestId: headers["x-ms-request-id"],
+      trackingId: headers["x-ms-azuremaps-tracking-id"],
+      cache: cache && cacheKey ? (skipCacheRead ? "BYPASS" : "MISS") : undefined,
+    };
+    telemetry.annotate(upstreamFields);
+    upstreamSpan.setAttributes({
+      "http.response.status_code": response.status,
+      "maps.attempts": attempts,
+      ...(upstreamFields.upstreamRequestId
+        ? { "maps.upstream_request_id": upstreamFields.upstreamRequestId }
+        : {}),
+      ...(upstreamFields.trackingId ? { "maps.tracking_id": upstreamFields.trackingId } : {}),
+    });
+
+    await assertContentLength(response, maxBytes);
+    if (payload.passthrough && !diagnostics && response.body) {
+      // Stream the upstream bytes to the browser unchanged, e.g. for tiles, images and
+      // large route responses. Cacheable bodies are stored once the stream completes.
+      const contentType = response.headers.get("content-type") ?? "";
+      const contentLength = response.headers.get("content-length");
+      const storable = cache && cacheKey && response.status === 200;
+      const storedHeaders = { ...headers };
+      if (cache && cacheKey) {
+        headers["x-cache"] = skipCacheRead ? "BYPASS" : "MISS";
+        headers.age = "0";
+      }
+      const keepBody = (buffer: Buffer) => {
+        if (cassetteRequest) {
+          const { raw, encoding } = decodeUpstreamBody(buffer, contentType);
+          void getCassette().record(cassetteRequest, {
+            status: response.status,
+            statusText: response.statusText,
+            headers: storedHeaders,
+            url,
+            authSource,
+            durationMs: Date.now() - start,
+            raw,
+            encoding,
+          });
+        }
+        if (!storable) return;
+        const storedAt = Date.now();
+        void cache.set(cacheKey, {
+          status: response.status,
+          statusText: response.statusText,
+          headers: storedHeaders,
+          url,
+          authSource,
+          ...decodeUpstreamBody(buffer, contentType),
+          storedAt,
+          expiresAt: storedAt + cacheTtlMs,
+        });
+      };
+      // Other bodies stream straight through without being held in memory.
+      const stream = limitBodyStream(response.body, maxBytes, {
+        onComplete: storable || cassetteRequest ? keepBody : undefined,
+        onClose: upstream.dispose,
+      });
+      streaming = true;
+      return new NextResponse(stream, {
+        status: response.status,
+        headers: {
+          ...toPassthroughHeaders({
+            status: response.status,
+            statusText: response.statusText,
+            headers,
+            durationMs: Date.now() - start,
+            url,
+            authSource,
+            attempts,
+            retryWaitMs: Math.round(retryWaitMs),
+          }),
+          ...limitHeaders,
+          "x-maps-max-bytes": String(maxBytes),
+          // Node's fetch decompresses, so the length is only meaningful for identity bodies.
+          ...(contentLength && !response.headers.get("content-encoding")
+            ? { "x-maps-content-length": contentLength }
+            : {}),
+        },
+      });
+    }
+
+    const bodyStart = Date.now();
+    const { body, raw: rawText, encoding, size } = await readUpstreamBody(response, maxBytes);
+    const bodyMs = Date.now() - bodyStart;
+    const durationMs = Date.now() - start;
+    const connection = timed?.timingsSince(lastAttemptAt) ?? { dnsMs: null, connectMs: null };
+    // TTFB is reported from the moment the final attempt's connection was open.
+    const setupMs = (connection.dnsMs ?? 0) + (connection.connectMs ?? 0);
+
+    if (cassetteRequest) {
+      await getCassette().record(cassetteRequest, {
+        status: response.status,
+        statusText: response.statusText,
+        headers: { ...headers },
+        url,
+        authSource,
+        durationMs,
+        raw: rawText,
+        encoding,
+      });
+      telemetry.annotate({ cassette: "RECORDED" });
+    }
+
+    if (cache && cacheKey) {
+      if (response.status === 200) {
+        const storedAt = Date.now();
+        await cache.set(cacheKey, {
+          status: response.status,
+          statusText: response.statusText,
+          headers: { ...headers },
+          url,
+          authSource,
+          body,
+          raw: rawText,
+          encoding,
+          size,
+          storedAt,
+          expiresAt: storedAt + cacheTtlMs,
+        });
+      }
+      headers["x-cache"] = skipCacheRead ? "BYPASS" : "MISS";
+      headers.age = "0";
+    }
+
+    return NextResponse.json(
+      {
+        meta: {
+          status: response.status,
+          statusText: response.statusText,
+          headers,
+          durationMs,
+          url,
+          authSource,
+          attempts,
+          retryWaitMs: Math.round(retryWaitMs),
+          diagnostics: diagnostics
+            ? buildDiagnostics(
+                url,
+                outboundHeaders,
+                response.headers,
+                {
+                  tokenMs,
+                  retryWaitMs: Math.round(retryWaitMs),
+                  ...connection,
+                  ttfbMs: Math.max(0, ttfbMs - setupMs),
+                  bodyMs,
+                  totalMs: durationMs,
+                }
+              )
+            : undefined,
+        },
+        body,
+        raw: rawText,
+        encoding,
+        size,
+      } satisfies ApiResponse,
+      { status: response.status, headers: limitHeaders }
+    );
+  } catch (error) {
+    const durationMs = Date.now() - start;
+    const abortReason = upstream.reason();
+    upstreamSpan.recordException(error instanceof Error ? error : String(error));
+    upstreamSpan.setStatus({ code: SpanStatusCode.ERROR });
+    if (error instanceof ResponseTooLargeError) {
+      return NextResponse.json(
+        {
+          meta: {
+            status: 502,
+            statusText: "Response Too Large",
+            headers: {},
+            durationMs,
+            url,
+            authSource,
+          },
+          body: { message: error.message, limitBytes: error.limit },
+          raw: "",
+          errorCode: "response_too_large",
+        } satisfies ApiResponse,
+        { status: 502 }
+      );
+    }
+    if (abortReason === "timeout") {
+      return NextResponse.json(
+        {
+          meta: {
+            status: 504,
+            statusText: "Upstream Timeout",
+            headers: {},
+            durationMs,
+            url,
+            authSource,
+          },
+          body: { message: `Upstream request timed out after ${timeoutMs}ms.` },
+          raw: "",
+          errorCode: "upstream_timeout",
+        } satisfies ApiResponse,
+        { status: 504 }
+      );
+    }
+    const message =
+      abortReason === "client"
+        ? "Client closed the request."
+        : error instanceof Error
+        ? error.message
+        : "request_failed";
+    return NextResponse.json(
+      {
+        meta: {
+          status: abortReason === "client" ? 499 : 502,
+          statusText: abortReason === "client" ? "Client Closed Request" : "Request Failed",
+          headers: {},
+          durationMs,
+          url,
+          authSource,
+        },
+        body: { message },
+        raw: "",
+        errorCode: "request_failed",
+      } satisfies ApiResponse,
+      { status: abortReason === "client" ? 499 : 502 }
+    );
+  } finally {
+    if (!streaming) upstream.dispose();
+    void timed?.close();
+    upstreamSpan.end();
+  }
+};
@@ -0,0 +1,73 @@
+import type { ApiDiagnostics } from "../types";
+
+const DEFAULT_RESPONSE_HEADERS = [
+  "content-type",
+  "x-ms-request-id",
+  "x-ms-correlation-request-id",
+  "x-ms-azuremaps-tracking-id",
+];
+
+// Never returned to the browser, even in diagnostics mode.
+const SENSITIVE_HEADERS = [
+  "authorization",
+  "proxy-authorization",
+  "subscription-key",
+  "cookie",
+  "set-cookie",
+  "set-cookie2",
+];
+
+const isSensitive = (key: string) => SENSITIVE_HEADERS.includes(key.toLowerCase());
+
+/**
+ * Upstream response headers returned by default, plus the comma-separated
+ * names in MAPS_RESPONSE_HEADERS (e.g. "x-ms-azuremaps-region,cache-control").
+ */
+export const getResponseHeaderAllowlist = () => {
+  const extra = (process.env.MAPS_RESPONSE_HEADERS ?? "")
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter((name) => name && !isSensitive(name));
+  return Array.from(new Set([...DEFAULT_RESPONSE_HEADERS, ...extra]));
+};
+
+export const pickResponseHeaders = (headers: Headers, allowlist: string[]) =>
+  allowlist.reduce<Record<string, string>>((acc, key) => {
+    const value = headers.get(key);
+    if (value) acc[key] = value;
+    return acc;
+  }, {});
+
+/** Every upstream response header except cookies and credentials. */
+export const collectResponseHeaders = (headers: Headers) => {
+  const collected: Record<string, string> = {};
+  headers.forEach((value, key) => {
+    if (!isSensitive(key)) collected[key] = value;
+  });
+  return collected;
+};
+
+/** Outbound request headers with credentials masked, for diagnostics output. */
+export const redactRequestHeaders = (headers: Record<string, string>) =>
+  Object.fromEntries(
+    Object.entries(headers).map(([key, value]) => {
+      if (!isSensitive(key)) return [key, value];
+      const scheme = value.match(/^(Bearer|Basic)\s/i)?.[1];
+      return [key, scheme ? `${scheme} ***` : "***"];
+    })
+  );
+
+export const isDiagnosticsAllowed = () => process.env.MAPS_DIAGNOSTICS !== "off";
+
+/** The diagnostics block: what was sent upstream, what came back and how long each phase took. */
+export const buildDiagnostics = (
+  upstreamUrl: string,
+  requestHeaders: Record<string, string>,
+  responseHeaders: Headers,
+  timings: ApiDiagnostics["timings"]
+): ApiDiagnostics => ({
+  upstreamUrl,
+  requestHeaders: redactRequestHeaders(requestHeaders),
+  responseHeaders: collectResponseHeaders(responseHeaders),
+  timings,
+});
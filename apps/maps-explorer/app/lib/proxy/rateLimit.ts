@@ -0,0 +1,187 @@
+import "server-only";
+import { NextResponse, type NextRequest } from "next/server";
+import { SESSION_COOKIE, getClientIp, verifySession } from "../auth/session";
+import type { ApiResponse, EndpointFamily } from "../types";
+
+export type RateLimitStatus = {
+  family: EndpointFamily;
+  limit: number;
+  remaining: number;
+  resetAt: number;
+};
+
+export type DailyQuotaStatus = {
+  cap: number;
+  used: number;
+  remaining: number;
+  resetAt: number;
+};
+
+type Bucket = { tokens: number; updatedAt: number };
+
+// Requests per minute for each client, overridable with MAPS_RATE_LIMITS="search=60,route=20".
+const DEFAULT_LIMITS: Record<EndpointFamily, number> = {
+  search: 60,
+  route: 20,
+  weather: 30,
+  render: 120,
+};
+
+const MINUTE_MS = 60_000;
+const STALE_BUCKET_MS = 10 * MINUTE_MS;
+const MAX_BUCKETS = 5_000;
+
+const buckets = new Map<string, Bucket>();
+let daily = { day: "", used: 0 };
+
+export const getRateLimits = () => {
+  const limits = { ...DEFAULT_LIMITS };
+  (process.env.MAPS_RATE_LIMITS ?? "").split(",").forEach((entry) => {
+    const [family, value] = entry.split("=").map((part) => part.trim());
+    const parsed = Number.parseInt(value ?? "", 10);
+    if (family in limits && Number.isFinite(parsed) && parsed > 0) {
+      limits[family as EndpointFamily] = parsed;
+    }
+  });
+  return limits;
+};
+
+const pruneBuckets = (now: number) => {
+  if (buckets.size < MAX_BUCKETS) return;
+  buckets.forEach((bucket, key) => {
+    if (now - bucket.updatedAt > STALE_BUCKET_MS) buckets.delete(key);
+  });
+};
+
+const readBucket = (key: string, limit: number, now: number) => {
+  const bucket = buckets.get(key) ?? { tokens: limit, updatedAt: now };
+  const refill = ((now - bucket.updatedAt) / MINUTE_MS) * limit;
+  return { tokens: Math.min(limit, bucket.tokens + refill), updatedAt: now };
+};
+
+const toStatus = (
+  family: EndpointFamily,
+  limit: number,
+  tokens: number,
+  now: number
+): RateLimitStatus => ({
+  family,
+  limit,
+  remaining: Math.floor(tokens),
+  // When blocked, the reset is when the next request is allowed; otherwise when the bucket is full.
+  resetAt: now + Math.ceil(((tokens < 1 ? 1 - tokens : limit - tokens) / limit) * MINUTE_MS),
+});
+
+export const getRateLimitKeys = (request: NextRequest) => {
+  const keys = [`ip:${getClientIp(request)}`];
+  const session = verifySession(request.cookies.get(SESSION_COOKIE)?.value);
+  if (session) keys.push(`session:${session.id}`);
+  return keys;
+};
+
+/**
+ * Token bucket check across every client key (IP and, when present, the
+ * explorer session). The request is allowed only if each bucket has a token.
+ */
+export const consumeRateLimit = (clientKeys: string[], family: EndpointFamily) => {
+  const now = Date.now();
+  pruneBuckets(now);
+  const limit = getRateLimits()[family];
+  const states = clientKeys.map((key) => ({
+    key: `${family}|${key}`,
+    bucket: readBucket(`${family}|${key}`, limit, now),
+  }));
+  const lowest = Math.min(...states.map((state) => state.bucket.tokens));
+  const allowed = lowest >= 1;
+  states.forEach(({ key, bucket }) => {
+    buckets.set(key, { tokens: allowed ? bucket.tokens - 1 : bucket.tokens, updatedAt: now });
+  });
+  return { allowed, ...toStatus(family, limit, allowed ? lowest - 1 : lowest, now) };
+};
+
+export const peekRateLimit = (clientKeys: string[], family: EndpointFamily) => {
+  const now = Date.now();
+  const limit = getRateLimits()[family];
+  const lowest = Math.min(
+    ...clientKeys.map((key) => readBucket(`${family}|${key}`, limit, now).tokens)
+  );
+  return toStatus(family, limit, lowest, now);
+};
+
+const getDailyCap = () => {
+  const parsed = Number.parseInt(process.env.MAPS_DAILY_TRANSACTION_CAP ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+const currentDaily = () => {
+  const today = new Date().toISOString().slice(0, 10);
+  if (daily.day !== today) daily = { day: today, used: 0 };
+  return daily;
+};
+
+const nextUtcMidnight = () => {
+  const next = new Date();
+  next.setUTCHours(24, 0, 0, 0);
+  return next.getTime();
+};
+
+export const peekDailyQuota = (): DailyQuotaStatus | null => {
+  const cap = getDailyCap();
+  if (!cap) return null;
+  const { used } = currentDaily();
+  return { cap, used, remaining: Math.max(0, cap - used), resetAt: nextUtcMidnight() };
+};
+
+/**
+ * Reserves billable Azure Maps transactions against MAPS_DAILY_TRANSACTION_CAP.
+ * Without a cap every reservation succeeds.
+ */
+export const consumeDailyQuota = (transactions = 1) => {
+  const cap = getDailyCap();
+  if (!cap) return { allowed: true, quota: null };
+  const state = currentDaily();
+  const allowed = state.used + transactions <= cap;
+  if (allowed) state.used += transactions;
+  return { allowed, quota: peekDailyQuota() };
+};
+
+export const recordDailyTransactions = (transactions: number) => {
+  if (transactions <= 0 || !getDailyCap()) return;
+  currentDaily().used += transactions;
+};
+
+export const rateLimitHeaders = (status: RateLimitStatus, quota: DailyQuotaStatus | null) => {
+  const headers: Record<string, string> = {
+    "x-ratelimit-family": status.family,
+    "x-ratelimit-limit": String(status.limit),
+    "x-ratelimit-remaining": String(status.remaining),
+    "x-ratelimit-reset": new Date(status.resetAt).toISOString(),
+  };
+  if (quota) {
+    headers["x-daily-quota-remaining"] = String(quota.remaining);
+  }
+  return headers;
+};
+
+export const rateLimitedResponse = (
+  message: string,
+  resetAt: number,
+  headers: Record<string, string>
+) => {
+  const retryAfter = String(Math.max(1, Math.ceil((resetAt - Date.now()) / 1000)));
+  return NextResponse.json(
+    {
+      meta: {
+        status: 429,
+        statusText: "Too Many Requests",
+        headers: { ...headers, "retry-after": retryAfter },
+        durationMs: 0,
+        url: "",
+      },
+      body: { message, resetAt: new Date(resetAt).toISOString() },
+      raw: "",
+      errorCode: "rate_limited",
+    } satisfies ApiResponse,
+    { status: 429, headers: { ...headers, "Retry-After": retryAfter } }
+  );
+};
@@ -0,0 +1,94 @@
+import type { RetryOptions } from "../types";
+
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+const IDEMPOTENT_METHODS = ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"];
+const DEFAULT_MAX_ATTEMPTS = 3;
+const MAX_ATTEMPTS_LIMIT = 5;
+const BASE_DELAY_MS = 500;
+// A Retry-After longer than this is returned to the caller instead of waited out.
+const MAX_RETRY_AFTER_MS = 10_000;
+
+export type RetryResult = {
+  response: Response;
+  attempts: number;
+  retryWaitMs: number;
+  // When the final attempt was sent, and how long its response headers took.
+  lastAttemptAt: number;
+  ttfbMs: number;
+};
+
+export const parseRetryAfter = (value: string | null) => {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+const backoffDelay = (attempt: number) =>
+  BASE_DELAY_MS * 2 ** (attempt - 1) + Math.random() * BASE_DELAY_MS;
+
+const sleep = (ms: number, signal?: AbortSignal | null) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+/**
+ * Fetches with retries on 429, 408 and transient 5xx responses or network
+ * errors. Only idempotent methods are retried unless the caller opts in, and
+ * Retry-After is honored when the upstream sends it.
+ */
+export const fetchWithRetry = async (
+  url: string,
+  init: RequestInit & { method: string },
+  options?: RetryOptions
+): Promise<RetryResult> => {
+  const canRetry =
+    Boolean(options) &&
+    (IDEMPOTENT_METHODS.includes(init.method) || Boolean(options?.retryNonIdempotent));
+  const maxAttempts = canRetry
+    ? Math.min(Math.max(options?.maxAttempts ?? DEFAULT_MAX_ATTEMPTS, 1), MAX_ATTEMPTS_LIMIT)
+    : 1;
+
+  let retryWaitMs = 0;
+  for (let attempt = 1; ; attempt += 1) {
+    let delay: number;
+    const attemptAt = Date.now();
+    try {
+      const response = await fetch(url, init);
+      const result = {
+        response,
+        attempts: attempt,
+        retryWaitMs,
+        lastAttemptAt: attemptAt,
+        ttfbMs: Date.now() - attemptAt,
+      };
+      if (attempt >= maxAttempts || !RETRYABLE_STATUSES.includes(response.status)) {
+        return result;
+      }
+      const retryAfter = parseRetryAfter(response.headers.get("retry-after"));
+      if (retryAfter !== null && retryAfter > MAX_RETRY_AFTER_MS) {
+        return result;
+      }
+      delay = retryAfter ?? backoffDelay(attempt);
+      await response.body?.cancel();
+    } catch (error) {
+      if (init.signal?.aborted || attempt >= maxAttempts) throw error;
+      delay = backoffDelay(attempt);
+    }
+    await sleep(delay, init.signal);
+    retryWaitMs += delay;
+  }
+};
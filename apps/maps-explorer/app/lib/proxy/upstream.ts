@@ -0,0 +1,75 @@
+import "server-only";
+import type { EndpointFamily } from "../types";
+
+// Milliseconds per family, overridable with MAPS_UPSTREAM_TIMEOUTS="route=60000,search=10000".
+const DEFAULT_TIMEOUTS: Record<EndpointFamily, number> = {
+  search: 20_000,
+  route: 45_000,
+  weather: 20_000,
+  render: 20_000,
+};
+
+const DEFAULT_MAX_RESPONSE_BYTES = 10 * 1024 * 1024;
+
+export type UpstreamAbortReason = "timeout" | "client";
+
+export type UpstreamAbort = {
+  signal: AbortSignal;
+  reason: () => UpstreamAbortReason | null;
+  dispose: () => void;
+};
+
+export const getUpstreamTimeoutMs = (family: EndpointFamily) => {
+  const timeouts = { ...DEFAULT_TIMEOUTS };
+  (process.env.MAPS_UPSTREAM_TIMEOUTS ?? "").split(",").forEach((entry) => {
+    const [key, value] = entry.split("=").map((part) => part.trim());
+    const parsed = Number.parseInt(value ?? "", 10);
+    if (key in timeouts && Number.isFinite(parsed) && parsed > 0) {
+      timeouts[key as EndpointFamily] = parsed;
+    }
+  });
+  return timeouts[family];
+};
+
+export const getMaxResponseBytes = () => {
+  const parsed = Number.parseInt(process.env.MAPS_MAX_RESPONSE_BYTES ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_MAX_RESPONSE_BYTES;
+};
+
+/**
+ * Abort signal for an upstream call that fires when the browser disconnects
+ * or the family timeout elapses. Call `dispose` once the body is consumed.
+ */
+export const createUpstreamAbort = (
+  clientSignal: AbortSignal,
+  timeoutMs: number
+): UpstreamAbort => {
+  const controller = new AbortController();
+  let reason: UpstreamAbortReason | null = null;
+
+  const abort = (cause: UpstreamAbortReason) => {
+    if (controller.signal.aborted) return;
+    reason = cause;
+    controller.abort(
+      new Error(
+        cause === "timeout"
+          ? `Upstream request timed out after ${timeoutMs}ms.`
+          : "Client closed the request."
+      )
+    );
+  };
+  const onClientAbort = () => abort("client");
+
+  const timer = setTimeout(() => abort("timeout"), timeoutMs);
+  if (clientSignal.aborted) onClientAbort();
+  else clientSignal.addEventListener("abort", onClientAbort, { once: true });
+
+  return {
+    signal: controller.signal,
+    reason: () => reason,
+    dispose: () => {
+      clearTimeout(timer);
+      clientSignal.removeEventListener("abort", onClientAbort);
+    },
+  };
+};
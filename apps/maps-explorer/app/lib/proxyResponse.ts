@@ -0,0 +1,156 @@
+import type { ApiResponse, ApiResponseMeta } from "./types";
+
+export type ProxyProgress = {
+  received: number;
+  total: number | null;
+};
+
+const TEXT_CONTENT_TYPES = [
+  "application/json",
+  "application/geo+json",
+  "application/problem+json",
+  "application/xml",
+  "application/javascript",
+  "application/x-www-form-urlencoded",
+];
+
+export const isTextContentType = (contentType: string) => {
+  const type = contentType.split(";")[0].trim().toLowerCase();
+  if (!type) return true;
+  return (
+    type.startsWith("text/") ||
+    type.endsWith("+json") ||
+    type.endsWith("+xml") ||
+    TEXT_CONTENT_TYPES.includes(type)
+  );
+};
+
+// Headers the proxy uses to describe a streamed upstream response.
+export const PASSTHROUGH_HEADER = "x-maps-passthrough";
+
+// The allowlisted upstream headers travel under this prefix, so headers such as
+// cache-control describe the Maps response without applying to the proxy's own.
+const UPSTREAM_HEADER_PREFIX = "x-maps-upstream-";
+
+export const toPassthroughHeaders = (meta: ApiResponseMeta) => {
+  const headers: Record<string, string> = {
+    [PASSTHROUGH_HEADER]: "1",
+    "x-maps-status-text": meta.statusText,
+    "x-maps-url": meta.url,
+    "x-maps-duration-ms": String(meta.durationMs),
+  };
+  Object.entries(meta.headers).forEach(([key, value]) => {
+    headers[`${UPSTREAM_HEADER_PREFIX}${key}`] = value;
+  });
+  if (meta.headers["content-type"]) headers["content-type"] = meta.headers["content-type"];
+  if (meta.authSource) headers["x-maps-auth-source"] = meta.authSource;
+  if (meta.attempts) headers["x-maps-attempts"] = String(meta.attempts);
+  if (meta.retryWaitMs) headers["x-maps-retry-wait-ms"] = String(meta.retryWaitMs);
+  return headers;
+};
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = "";
+  for (let offset = 0; offset < bytes.length; offset += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const concatChunks = (chunks: Uint8Array[], size: number) => {
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  chunks.forEach((chunk) => {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  });
+  return bytes;
+};
+
+/**
+ * Turns a /api/maps response into an ApiResponse. JSON envelopes are parsed
+ * as-is; streamed passthrough bodies are read chunk by chunk so `onProgress`
+ * can report bytes received, then decoded like the proxy would.
+ */
+export const readProxyResponse = async (
+  res: Response,
+  options: { startedAt?: number; onProgress?: (progress: ProxyProgress) => void } = {}
+): Promise<ApiResponse> => {
+  if (res.headers.get(PASSTHROUGH_HEADER) !== "1" || !res.body) {
+    return (await res.json()) as ApiResponse;
+  }
+
+  const headers: Record<string, string> = {};
+  res.headers.forEach((value, key) => {
+    if (key.startsWith(UPSTREAM_HEADER_PREFIX)) {
+      headers[key.slice(UPSTREAM_HEADER_PREFIX.length)] = value;
+    }
+  });
+  const retryWaitMs = Number(res.headers.get("x-maps-retry-wait-ms") ?? "");
+  const attempts = Number(res.headers.get("x-maps-attempts") ?? "");
+  const meta: ApiResponseMeta = {
+    status: res.status,
+    statusText: res.headers.get("x-maps-status-text") ?? res.statusText,
+    headers,
+    durationMs: Number(res.headers.get("x-maps-duration-ms") ?? 0),
+    url: res.headers.get("x-maps-url") ?? "",
+    authSource: (res.headers.get("x-maps-auth-source") ??
+      undefined) as ApiResponseMeta["authSource"],
+    attempts: attempts || undefined,
+    retryWaitMs: retryWaitMs || undefined,
+  };
+
+  const announced = Number(res.headers.get("x-maps-content-length") ?? "");
+  const total = Number.isFinite(announced) && announced > 0 ? announced : null;
+  const maxBytes = Number(res.headers.get("x-maps-max-bytes") ?? "");
+  const reader = res.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  options.onProgress?.({ received, total });
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+      received += value.byteLength;
+      options.onProgress?.({ received, total });
+    }
+  } catch (error) {
+    if (error instanceof DOMException && error.name === "AbortError") throw error;
+    const tooLarge = maxBytes > 0 && received + 65_536 >= maxBytes;
+    return {
+      meta: { ...meta, status: 502, statusText: tooLarge ? "Response Too Large" : "Request Failed" },
+      body: {
+        message: tooLarge
+          ? `Upstream response exceeds the ${maxBytes}-byte limit.`
+          : "The response stream was interrupted.",
+      },
+      raw: "",
+      errorCode: tooLarge ? "response_too_large" : "request_failed",
+    };
+  }
+
+  if (options.startedAt !== undefined) meta.durationMs = Date.now() - options.startedAt;
+  const bytes = concatChunks(chunks, received);
+  const contentType = headers["content-type"] ?? "";
+  if (!isTextContentType(contentType)) {
+    return {
+      meta,
+      body: { contentType, size: received, encoding: "base64" },
+      raw: toBase64(bytes),
+      encoding: "base64",
+      size: received,
+    };
+  }
+
+  const raw = new TextDecoder().decode(bytes);
+  let body: unknown = raw;
+  if (contentType.includes("json")) {
+    try {
+      body = JSON.parse(raw);
+    } catch {
+      body = raw;
+    }
+  }
+  return { meta, body, raw, size: received };
+};
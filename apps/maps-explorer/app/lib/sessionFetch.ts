@@ -0,0 +1,15 @@
+// The CSRF token the served page embeds for its session; see app/layout.tsx.
+const readCsrfToken = () =>
+  document.querySelector<HTMLMetaElement>('meta[name="maps-csrf"]')?.content ?? "";
+
+/**
+ * GETs a route that requires the page's session, sending its CSRF token.
+ * Sessions are short-lived, so a 401 renews the page's session and retries once.
+ */
+export const fetchWithSession = async (url: string) => {
+  const headers = { "x-maps-csrf": readCsrfToken() };
+  const res = await fetch(url, { cache: "no-store", headers });
+  if (res.status !== 401) return res;
+  await fetch("/api/maps/session", { method: "POST", headers });
+  return fetch(url, { cache: "no-store", headers });
+};
@@ -0,0 +1,384 @@
+import type { RequestShape } from "./types";
+import { buildQueryString, normalizePath } from "./validation";
+
+export const snippetLanguages = [
+  { id: "fetch", label: "JavaScript (fetch)" },
+  { id: "axios", label: "JavaScript (axios)" },
+  { id: "python", label: "Python (requests)" },
+  { id: "csharp", label: "C# (HttpClient)" },
+  { id: "powershell", label: "PowerShell" },
+  { id: "httpie", label: "HTTPie" },
+  { id: "js-sdk", label: "Azure Maps JS SDK" },
+  { id: "dotnet-sdk", label: "Azure Maps .NET SDK" },
+] as const;
+
+export type SnippetLanguage = (typeof snippetLanguages)[number]["id"];
+
+// Every snippet reads credentials from the same environment variables.
+export const SNIPPET_ENV = {
+  key: "AZURE_MAPS_KEY",
+  token: "AZURE_MAPS_TOKEN",
+  clientId: "AZURE_MAPS_CLIENT_ID",
+} as const;
+
+type SnippetContext = {
+  request: RequestShape;
+  path: string;
+  baseUrl: string;
+  params: Record<string, string>;
+  hasBody: boolean;
+  // Entra requests carry a bearer token and the account's client id instead of a key.
+  entra: boolean;
+  // Client ids aren't secret, so a known one is written out literally.
+  clientId: string | null;
+  image: boolean;
+};
+
+const toContext = (request: RequestShape, baseUrl: string): SnippetContext => {
+  const path = normalizePath(request.path);
+  return {
+    request,
+    path,
+    baseUrl: baseUrl.replace(/\/$/, ""),
+    params: Object.fromEntries(
+      Object.entries(request.params).filter(([, value]) => value !== undefined && value !== null)
+    ),
+    hasBody: request.body !== undefined && request.body !== null,
+    entra: !request.auth || !("apiKey" in request.auth),
+    clientId: request.auth?.clientId?.trim() || null,
+    image: /^map\/(static|tile)/i.test(path),
+  };
+};
+
+const urlOf = ({ baseUrl, path }: SnippetContext) => `${baseUrl}/${path}`;
+
+const fullUrl = (context: SnippetContext) => {
+  const query = buildQueryString(context.params);
+  return `${urlOf(context)}${query ? `?${query}` : ""}`;
+};
+
+// Indents every line after the first, for values nested inside a template.
+const nest = (text: string, spaces: number) => text.replace(/\n/g, `\n${" ".repeat(spaces)}`);
+
+const json = (value: unknown) => JSON.stringify(value, null, 2);
+
+const shellQuote = (value: string) => `'${value.replace(/'/g, `'\\''`)}'`;
+
+const powershellQuote = (value: string) => `'${value.replace(/'/g, "''")}'`;
+
+const csharpString = (value: string) =>
+  `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`;
+
+const toPython = (value: unknown, depth = 0): string => {
+  if (value === null || value === undefined) return "None";
+  if (typeof value === "boolean") return value ? "True" : "False";
+  if (typeof value === "number") return String(value);
+  if (typeof value === "string") return JSON.stringify(value);
+  const pad = " ".repeat((depth + 1) * 4);
+  const end = " ".repeat(depth * 4);
+  if (Array.isArray(value)) {
+    if (value.length === 0) return "[]";
+    return `[\n${value.map((item) => `${pad}${toPython(item, depth + 1)},`).join("\n")}\n${end}]`;
+  }
+  const entries = Object.entries(value as Record<string, unknown>);
+  if (entries.length === 0) return "{}";
+  return `{\n${entries
+    .map(([key, item]) => `${pad}${JSON.stringify(key)}: ${toPython(item, depth + 1)},`)
+    .join("\n")}\n${end}}`;
+};
+
+const jsHeaders = (context: SnippetContext) => {
+  const auth = context.entra
+    ? [
+        `Authorization: \`Bearer \${process.env.${SNIPPET_ENV.token}}\``,
+        `"x-ms-client-id": ${
+          context.clientId ? JSON.stringify(context.clientId) : `process.env.${SNIPPET_ENV.clientId} ?? ""`
+        }`,
+      ]
+    : [`"subscription-key": process.env.${SNIPPET_ENV.key} ?? ""`];
+  return [...auth, ...(context.hasBody ? ['"content-type": "application/json"'] : [])];
+};
+
+const fetchSnippet = (context: SnippetContext) => {
+  const { request } = context;
+  const hasParams = Object.keys(context.params).length > 0;
+  const options = [
+    ...(request.method === "GET" ? [] : [`method: "${request.method}"`]),
+    `headers: {\n    ${jsHeaders(context).join(",\n    ")},\n  }`,
+    ...(context.hasBody ? [`body: JSON.stringify(${nest(json(request.body), 2)})`] : []),
+  ];
+  return [
+    ...(context.image ? ['import { writeFile } from "node:fs/promises";', ""] : []),
+    `const url = new URL(${JSON.stringify(urlOf(context))});`,
+    ...(hasParams
+      ? [`url.search = new URLSearchParams(${json(context.params)}).toString();`]
+      : []),
+    "",
+    `const response = await fetch(url, {\n  ${options.join(",\n  ")},\n});`,
+    "if (!response.ok) throw new Error(`${response.status} ${await response.text()}`);",
+    context.image
+      ? 'await writeFile("map.png", Buffer.from(await response.arrayBuffer()));'
+      : "console.log(await response.json());",
+  ].join("\n");
+};
+
+const axiosSnippet = (context: SnippetContext) => {
+  const { request } = context;
+  const method = request.method.toLowerCase();
+  const config = [
+    ...(Object.keys(context.params).length > 0 ? [`params: ${nest(json(context.params), 2)}`] : []),
+    `headers: {\n    ${jsHeaders(context).join(",\n    ")},\n  }`,
+    ...(context.image ? ['responseType: "arraybuffer"'] : []),
+  ];
+  const withData = ["post", "put", "patch"].includes(method);
+  const args = [
+    JSON.stringify(urlOf(context)),
+    ...(withData ? [context.hasBody ? json(request.body) : "undefined"] : []),
+    `{\n  ${config.join(",\n  ")},\n}`,
+  ];
+  return [
+    'import axios from "axios";',
+    ...(context.image ? ['import { writeFile } from "node:fs/promises";'] : []),
+    "",
+    `const response = await axios.${method}(${args.join(", ")});`,
+    context.image ? 'await writeFile("map.png", response.data);' : "console.log(response.data);",
+  ].join("\n");
+};
+
+const pythonSnippet = (context: SnippetContext) => {
+  const { request } = context;
+  const headers = context.entra
+    ? `{\n        "Authorization": f"Bearer {os.environ['${SNIPPET_ENV.token}']}",\n        "x-ms-client-id": ${
+        context.clientId ? JSON.stringify(context.clientId) : `os.environ["${SNIPPET_ENV.clientId}"]`
+      },\n    }`
+    : `{"subscription-key": os.environ["${SNIPPET_ENV.key}"]}`;
+  const args = [
+    JSON.stringify(urlOf(context)),
+    ...(Object.keys(context.params).length > 0 ? [`params=${toPython(context.params, 1)}`] : []),
+    `headers=${headers}`,
+    ...(context.hasBody ? [`json=${toPython(request.body, 1)}`] : []),
+    "timeout=30",
+  ];
+  return [
+    "import os",
+    "",
+    "import requests",
+    "",
+    `response = requests.${request.method.toLowerCase()}(\n    ${args.join(",\n    ")},\n)`,
+    "response.raise_for_status()",
+    context.image
+      ? 'with open("map.png", "wb") as file:\n    file.write(response.content)'
+      : "print(response.json())",
+  ].join("\n");
+};
+
+const csharpSnippet = (context: SnippetContext) => {
+  const { request } = context;
+  const method = `${request.method[0]}${request.method.slice(1).toLowerCase()}`;
+  const env = (name: string) => `Environment.GetEnvironmentVariable("${name}")`;
+  const auth = context.entra
+    ? [
+        `request.Headers.Authorization = new AuthenticationHeaderValue("Bearer", ${env(SNIPPET_ENV.token)});`,
+        `request.Headers.Add("x-ms-client-id", ${
+          context.clientId ? csharpString(context.clientId) : env(SNIPPET_ENV.clientId)
+        });`,
+      ]
+    : [`request.Headers.Add("subscription-key", ${env(SNIPPET_ENV.key)});`];
+  const body = context.hasBody
+    ? [
+        `request.Content = new StringContent(\n    """\n    ${nest(json(request.body), 4)}\n    """,\n    Encoding.UTF8,\n    "application/json");`,
+      ]
+    : [];
+  return [
+    ...(context.entra ? ["using System.Net.Http.Headers;"] : []),
+    ...(context.hasBody ? ["using System.Text;"] : []),
+    ...(context.entra || context.hasBody ? [""] : []),
+    "using var client = new HttpClient();",
+    `using var request = new HttpRequestMessage(HttpMethod.${method}, ${csharpString(fullUrl(context))});`,
+    ...auth,
+    ...body,
+    "",
+    "using var response = await client.SendAsync(request);",
+    "response.EnsureSuccessStatusCode();",
+    context.image
+      ? 'await File.WriteAllBytesAsync("map.png", await response.Content.ReadAsByteArrayAsync());'
+      : "Console.WriteLine(await response.Content.ReadAsStringAsync());",
+  ].join("\n");
+};
+
+const powershellSnippet = (context: SnippetContext) => {
+  const { request } = context;
+  const headers = context.entra
+    ? `@{\n    Authorization = "Bearer $env:${SNIPPET_ENV.token}"\n    'x-ms-client-id' = ${
+        context.clientId ? powershellQuote(context.clientId) : `$env:${SNIPPET_ENV.clientId}`
+      }\n}`
+    : `@{ 'subscription-key' = $env:${SNIPPET_ENV.key} }`;
+  const method = `${request.method[0]}${request.method.slice(1).toLowerCase()}`;
+  const args = [
+    `-Method ${method}`,
+    `-Uri ${powershellQuote(fullUrl(context))}`,
+    "-Headers $headers",
+    ...(context.hasBody ? ["-ContentType 'application/json'", "-Body $body"] : []),
+    ...(context.image ? ["-OutFile 'map.png'"] : []),
+  ];
+  return [
+    `$headers = ${headers}`,
+    ...(context.hasBody ? [`$body = @'\n${json(request.body)}\n'@`] : []),
+    "",
+    context.image
+      ? `Invoke-RestMethod ${args.join(" `\n    ")}`
+      : `$response = Invoke-RestMethod ${args.join(" `\n    ")}\n$response | ConvertTo-Json -Depth 20`,
+  ].join("\n");
+};
+
+const httpieSnippet = (context: SnippetContext) => {
+  const { request } = context;
+  // Double quotes so the shell expands the variables.
+  const auth = context.entra
+    ? [
+        `"Authorization:Bearer $${SNIPPET_ENV.token}"`,
+        context.clientId
+          ? shellQuote(`x-ms-client-id:${context.clientId}`)
+          : `"x-ms-client-id:$${SNIPPET_ENV.clientId}"`,
+      ]
+    : [`"subscription-key:$${SNIPPET_ENV.key}"`];
+  const lines = [
+    `http ${request.method} ${shellQuote(urlOf(context))}`,
+    ...Object.entries(context.params).map(([key, value]) => shellQuote(`${key}==${value}`)),
+    ...auth,
+    ...(context.hasBody
+      ? ["Content-Type:application/json", `--raw ${shellQuote(JSON.stringify(request.body))}`]
+      : []),
+    ...(context.image ? ["--output map.png"] : []),
+  ];
+  return lines.join(" \\\n  ");
+};
+
+type SdkClient = { pattern: RegExp; jsPackage: string; jsFactory: string };
+
+// REST-level JS clients by the API family they cover.
+const SDK_CLIENTS: SdkClient[] = [
+  {
+    pattern: /^(geocode|reversegeocode|geocode:batch|reversegeocode:batch|search\/)/i,
+    jsPackage: "@azure-rest/maps-search",
+    jsFactory: "MapsSearch",
+  },
+  {
+    pattern: /^route\/[^/]+\/(json|xml)$/i,
+    jsPackage: "@azure-rest/maps-route",
+    jsFactory: "MapsRoute",
+  },
+  { pattern: /^geolocation\//i, jsPackage: "@azure-rest/maps-geolocation", jsFactory: "MapsGeolocation" },
+  { pattern: /^timezone\//i, jsPackage: "@azure-rest/maps-timezone", jsFactory: "MapsTimeZone" },
+  { pattern: /^map\/(static|tile)/i, jsPackage: "@azure-rest/maps-render", jsFactory: "MapsRender" },
+];
+
+// "search/address/json" is "/search/address/{format}" with "json" in the client's route table.
+const sdkRoute = (path: string) => {
+  const match = /^(.*)\/(json|xml|png)$/i.exec(path);
+  return match
+    ? `path(${JSON.stringify(`/${match[1]}/{format}`)}, ${JSON.stringify(match[2])})`
+    : `path(${JSON.stringify(`/${path}`)})`;
+};
+
+const jsSdkSnippet = (context: SnippetContext) => {
+  const { request } = context;
+  const client = SDK_CLIENTS.find((entry) => entry.pattern.test(context.path));
+  if (!client) return null;
+  // The client library sends its own api-version.
+  const queryParameters = Object.fromEntries(
+    Object.entries(context.params).filter(([key]) => key !== "api-version")
+  );
+  const options = [
+    ...(Object.keys(queryParameters).length > 0
+      ? [`queryParameters: ${nest(json(queryParameters), 2)}`]
+      : []),
+    ...(context.hasBody ? [`body: ${nest(json(request.body), 2)}`] : []),
+  ];
+  const credential = context.entra
+    ? `new DefaultAzureCredential(), ${
+        context.clientId ? JSON.stringify(context.clientId) : `process.env.${SNIPPET_ENV.clientId} ?? ""`
+      }`
+    : `new AzureKeyCredential(process.env.${SNIPPET_ENV.key} ?? "")`;
+  return [
+    `import ${client.jsFactory}, { isUnexpected } from "${client.jsPackage}";`,
+    context.entra
+      ? 'import { DefaultAzureCredential } from "@azure/identity";'
+      : 'import { AzureKeyCredential } from "@azure/core-auth";',
+    "",
+    `const client = ${client.jsFactory}(${credential});`,
+    `const response = await client.${sdkRoute(context.path)}.${request.method.toLowerCase()}(${
+      options.length > 0 ? `{\n  ${options.join(",\n  ")},\n}` : ""
+    });`,
+    "if (isUnexpected(response)) throw response.body.error;",
+    "console.log(response.body);",
+  ].join("\n");
+};
+
+const dotnetCredential = (context: SnippetContext) =>
+  context.entra
+    ? `new DefaultAzureCredential(), ${
+        context.clientId
+          ? csharpString(context.clientId)
+          : `Environment.GetEnvironmentVariable("${SNIPPET_ENV.clientId}")`
+      }`
+    : `new AzureKeyCredential(Environment.GetEnvironmentVariable("${SNIPPET_ENV.key}"))`;
+
+const dotnetSdkSnippet = (context: SnippetContext) => {
+  const { path, params } = context;
+  const usings = (namespace: string, ...extra: string[]) => [
+    "using Azure;",
+    ...(context.entra ? ["using Azure.Identity;"] : []),
+    ...extra,
+    `using ${namespace};`,
+    "",
+  ];
+  if (/^geocode$/i.test(path) && params.query) {
+    return [
+      ...usings("Azure.Maps.Search"),
+      `var client = new MapsSearchClient(${dotnetCredential(context)});`,
+      `var response = await client.GetGeocodingAsync(query: ${csharpString(params.query)});`,
+      "Console.WriteLine(response.GetRawResponse().Content);",
+    ].join("\n");
+  }
+  const [lon, lat] = (params.coordinates ?? "").split(",").map((value) => value.trim());
+  if (/^reversegeocode$/i.test(path) && lon && lat) {
+    return [
+      ...usings("Azure.Maps.Search", "using Azure.Core.GeoJson;"),
+      `var client = new MapsSearchClient(${dotnetCredential(context)});`,
+      `var response = await client.GetReverseGeocodingAsync(new GeoPosition(${lon}, ${lat}));`,
+      "Console.WriteLine(response.GetRawResponse().Content);",
+    ].join("\n");
+  }
+  if (/^geolocation\/ip\/json$/i.test(path) && params.ip) {
+    return [
+      ...usings("Azure.Maps.Geolocation", "using System.Net;"),
+      `var client = new MapsGeolocationClient(${dotnetCredential(context)});`,
+      `var response = await client.GetCountryCodeAsync(IPAddress.Parse(${csharpString(params.ip)}));`,
+      "Console.WriteLine(response.Value.IsoCode);",
+    ].join("\n");
+  }
+  return null;
+};
+
+const GENERATORS: Record<SnippetLanguage, (context: SnippetContext) => string | null> = {
+  fetch: fetchSnippet,
+  axios: axiosSnippet,
+  python: pythonSnippet,
+  csharp: csharpSnippet,
+  powershell: powershellSnippet,
+  httpie: httpieSnippet,
+  "js-sdk": jsSdkSnippet,
+  "dotnet-sdk": dotnetSdkSnippet,
+};
+
+/**
+ * Code for `request` in the given language, or null when no SDK client covers
+ * the endpoint. Credentials are never inlined: key requests read AZURE_MAPS_KEY,
+ * Entra requests read AZURE_MAPS_TOKEN (or use DefaultAzureCredential in SDKs).
+ */
+export const buildSnippet = (
+  language: SnippetLanguage,
+  request: RequestShape,
+  baseUrl = "https://atlas.microsoft.com"
+) => GENERATORS[language](toContext(request, baseUrl));
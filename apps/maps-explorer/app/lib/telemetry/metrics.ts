@@ -0,0 +1,176 @@
+import "server-only";
+import type { UsageRow, UsageSummary } from "../types";
+
+export type RequestSample = {
+  route: string;
+  endpoint: string;
+  family: string;
+  preset: string;
+  authSource: string;
+  status: number;
+  durationMs: number;
+  transactions: number;
+};
+
+type Labels = Record<string, string>;
+type Counter = { labels: Labels; value: number };
+type Histogram = { labels: Labels; buckets: number[]; sum: number; count: number };
+
+const DURATION_BUCKETS_SECONDS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+const HOUR_MS = 60 * 60_000;
+const DAY_MS = 24 * HOUR_MS;
+const MAX_SAMPLES = 20_000;
+// Caps label cardinality; presets past the limit are folded into "other".
+const MAX_SERIES = 1_000;
+
+const requestCounters = new Map<string, Counter>();
+const transactionCounters = new Map<string, Counter>();
+const durationHistograms = new Map<string, Histogram>();
+let samples: (RequestSample & { at: number })[] = [];
+
+const seriesKey = (labels: Labels) => JSON.stringify(labels);
+
+const statusClass = (status: number) => `${Math.floor(status / 100)}xx`;
+
+const bumpCounter = (series: Map<string, Counter>, labels: Labels, amount: number) => {
+  const key = seriesKey(labels);
+  const counter = series.get(key) ?? { labels, value: 0 };
+  counter.value += amount;
+  series.set(key, counter);
+};
+
+const observeDuration = (labels: Labels, seconds: number) => {
+  const key = seriesKey(labels);
+  const histogram = durationHistograms.get(key) ?? {
+    labels,
+    buckets: DURATION_BUCKETS_SECONDS.map(() => 0),
+    sum: 0,
+    count: 0,
+  };
+  DURATION_BUCKETS_SECONDS.forEach((bound, index) => {
+    if (seconds <= bound) histogram.buckets[index] += 1;
+  });
+  histogram.sum += seconds;
+  histogram.count += 1;
+  durationHistograms.set(key, histogram);
+};
+
+/**
+ * Records one finished proxy request: request and billable transaction
+ * counters, a latency histogram, and a sample kept for a day for the Usage panel.
+ */
+export const recordRequest = (sample: RequestSample) => {
+  const base = {
+    route: sample.route,
+    endpoint: sample.endpoint,
+    auth: sample.authSource,
+    preset: sample.preset,
+  };
+  const labels =
+    requestCounters.size >= MAX_SERIES &&
+    !requestCounters.has(seriesKey({ ...base, status: statusClass(sample.status) }))
+      ? { ...base, preset: "other" }
+      : base;
+
+  bumpCounter(requestCounters, { ...labels, status: statusClass(sample.status) }, 1);
+  if (sample.transactions > 0) {
+    bumpCounter(transactionCounters, labels, sample.transactions);
+  }
+  observeDuration({ route: labels.route, endpoint: labels.endpoint }, sample.durationMs / 1000);
+
+  const now = Date.now();
+  samples.push({ ...sample, preset: labels.preset, at: now });
+  if (samples.length > MAX_SAMPLES || samples[0].at < now - DAY_MS) {
+    samples = samples.filter((item) => item.at >= now - DAY_MS).slice(-MAX_SAMPLES);
+  }
+};
+
+const escapeLabel = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+
+const formatLabels = (labels: Labels) =>
+  `{${Object.entries(labels)
+    .map(([key, value]) => `${key}="${escapeLabel(value)}"`)
+    .join(",")}}`;
+
+/** Prometheus text exposition (format 0.0.4) of every series recorded so far. */
+export const renderPrometheus = () => {
+  const lines = [
+    "# HELP maps_proxy_requests_total Requests handled by the Maps proxy routes.",
+    "# TYPE maps_proxy_requests_total counter",
+    ...Array.from(requestCounters.values()).map(
+      (counter) => `maps_proxy_requests_total${formatLabels(counter.labels)} ${counter.value}`
+    ),
+    "# HELP maps_transactions_total Billable Azure Maps calls, including retries.",
+    "# TYPE maps_transactions_total counter",
+    ...Array.from(transactionCounters.values()).map(
+      (counter) => `maps_transactions_total${formatLabels(counter.labels)} ${counter.value}`
+    ),
+    "# HELP maps_proxy_request_duration_seconds Proxy request latency.",
+    "# TYPE maps_proxy_request_duration_seconds histogram",
+  ];
+  durationHistograms.forEach((histogram) => {
+    DURATION_BUCKETS_SECONDS.forEach((bound, index) => {
+      lines.push(
+        `maps_proxy_request_duration_seconds_bucket${formatLabels({
+          ...histogram.labels,
+          le: String(bound),
+        })} ${histogram.buckets[index]}`
+      );
+    });
+    lines.push(
+      `maps_proxy_request_duration_seconds_bucket${formatLabels({
+        ...histogram.labels,
+        le: "+Inf",
+      })} ${histogram.count}`,
+      `maps_proxy_request_duration_seconds_sum${formatLabels(histogram.labels)} ${histogram.sum}`,
+      `maps_proxy_request_duration_seconds_count${formatLabels(histogram.labels)} ${histogram.count}`
+    );
+  });
+  return `${lines.join("\n")}\n`;
+};
+
+// Nearest-rank percentile over sorted values.
+const percentile = (sorted: number[], ratio: number) =>
+  sorted.length ? sorted[Math.max(0, Math.ceil(ratio * sorted.length) - 1)] : null;
+
+const summarizeWindow = (since: number): UsageRow[] => {
+  const byPreset = new Map<string, (RequestSample & { at: number })[]>();
+  samples
+    .filter((sample) => sample.at >= since)
+    .forEach((sample) => {
+      const items = byPreset.get(sample.preset) ?? [];
+      items.push(sample);
+      byPreset.set(sample.preset, items);
+    });
+  return Array.from(byPreset.entries())
+    .map(([preset, items]) => {
+      const durations = items.map((item) => item.durationMs).sort((a, b) => a - b);
+      const errors = items.filter((item) => item.status >= 400).length;
+      return {
+        preset,
+        calls: items.length,
+        errors,
+        errorRate: errors / items.length,
+        transactions: items.reduce((total, item) => total + item.transactions, 0),
+        p50Ms: percentile(durations, 0.5),
+        p95Ms: percentile(durations, 0.95),
+      };
+    })
+    .sort((a, b) => b.calls - a.calls);
+};
+
+export const summarizeUsage = (): UsageSummary => {
+  const now = Date.now();
+  return {
+    generatedAt: new Date(now).toISOString(),
+    hour: summarizeWindow(now - HOUR_MS),
+    day: summarizeWindow(now - DAY_MS),
+  };
+};
+
+/** Whether the request carries MAPS_METRICS_TOKEN; false when no token is configured. */
+export const hasMetricsToken = (request: Request) => {
+  const token = process.env.MAPS_METRICS_TOKEN;
+  return Boolean(token) && request.headers.get("authorization") === `Bearer ${token}`;
+};
@@ -0,0 +1,170 @@
+import "server-only";
+import { randomUUID } from "node:crypto";
+import { SpanStatusCode, type Attributes, type Span } from "@opentelemetry/api";
+import type { NextRequest } from "next/server";
+import type { EndpointFamily } from "../types";
+import { recordRequest } from "./metrics";
+import { startSpan } from "./tracing";
+
+export type RequestLogFields = {
+  endpoint?: string;
+  family?: EndpointFamily;
+  path?: string;
+  method?: string;
+  params?: Record<string, string>;
+  errorCode?: string;
+  cache?: string;
+  cassette?: string;
+  attempts?: number;
+  retryWaitMs?: number;
+  authSource?: string;
+  upstreamStatus?: number;
+  upstreamRequestId?: string;
+  trackingId?: string;
+};
+
+export type RequestTelemetry = {
+  requestId: string;
+  span: Span;
+  annotate: (fields: RequestLogFields) => void;
+};
+
+// Credential values are replaced with a marker; free-text location values, which can
+// identify a person, keep only their length.
+const SECRET_PARAMS = ["subscription-key", "api-key", "key", "token", "access_token", "sig", "code"];
+const PERSONAL_PARAMS = ["query", "addressline", "coordinates", "center", "ip", "postalcode"];
+
+export const redactParams = (params: Record<string, string>) =>
+  Object.fromEntries(
+    Object.entries(params).map(([key, value]) => {
+      const lower = key.toLowerCase();
+      if (SECRET_PARAMS.includes(lower)) return [key, "[redacted]"];
+      if (PERSONAL_PARAMS.includes(lower)) return [key, `[redacted:${String(value).length}]`];
+      return [key, value];
+    })
+  );
+
+/** The URL with its query params redacted, for span attributes that get exported. */
+export const redactUrl = (url: string) => {
+  const parsed = new URL(url);
+  const redacted = new URLSearchParams();
+  parsed.searchParams.forEach((value, key) => {
+    redacted.append(key, redactParams({ [key]: value })[key]);
+  });
+  parsed.search = redacted.toString();
+  return parsed.toString();
+};
+
+// The explorer tags calls with the active preset; anything unexpected is bucketed.
+const PRESET_PATTERN = /^[a-z0-9-]{1,40}$/i;
+
+const readPreset = (request: NextRequest) => {
+  const preset = request.headers.get("x-maps-preset") ?? "";
+  return PRESET_PATTERN.test(preset) ? preset.toLowerCase() : "none";
+};
+
+const toSpanAttributes = (fields: RequestLogFields): Attributes => {
+  const attributes: Attributes = {
+    "maps.endpoint": fields.endpoint,
+    "maps.family": fields.family,
+    "url.path": fields.path,
+    "maps.error_code": fields.errorCode,
+    "maps.cache": fields.cache,
+    "maps.cassette": fields.cassette,
+    "maps.attempts": fields.attempts,
+    "maps.auth_source": fields.authSource,
+    "maps.upstream_status": fields.upstreamStatus,
+    "maps.upstream_request_id": fields.upstreamRequestId,
+    "maps.tracking_id": fields.trackingId,
+  };
+  return Object.fromEntries(
+    Object.entries(attributes).filter(([, value]) => value !== undefined)
+  );
+};
+
+const readErrorCode = async (response: Response) => {
+  if (!response.headers.get("content-type")?.includes("application/json")) return undefined;
+  try {
+    const payload = (await response.clone().json()) as { errorCode?: unknown };
+    return typeof payload?.errorCode === "string" ? payload.errorCode : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Wraps a route handler in a server span and writes one structured log line
+ * per request. Handlers add detail through `annotate`; the response gets an
+ * x-request-id header to quote when reporting problems. Batch items pass the
+ * batch span as `parent`; `recordMetrics: false` keeps a request out of the
+ * metrics.
+ */
+export const withRequestTelemetry = async (
+  request: NextRequest,
+  route: string,
+  handler: (telemetry: RequestTelemetry) => Promise<Response>,
+  options: { parent?: Span; recordMetrics?: boolean } = {}
+) => {
+  const requestId = randomUUID();
+  const preset = readPreset(request);
+  const start = Date.now();
+  const span = startSpan(
+    `${request.method} ${route}`,
+    {
+      "http.request.method": request.method,
+      "http.route": route,
+      "maps.request_id": requestId,
+    },
+    options.parent
+  );
+  const fields: RequestLogFields = {};
+  let status = 500;
+
+  try {
+    const response = await handler({
+      requestId,
+      span,
+      annotate: (next) => Object.assign(fields, next),
+    });
+    status = response.status;
+    if (status >= 400 && !fields.errorCode) fields.errorCode = await readErrorCode(response);
+    response.headers.set("x-request-id", requestId);
+    return response;
+  } catch (error) {
+    span.recordException(error instanceof Error ? error : String(error));
+    throw error;
+  } finally {
+    const durationMs = Date.now() - start;
+    span.setAttributes({ ...toSpanAttributes(fields), "http.response.status_code": status });
+    if (status >= 500) span.setStatus({ code: SpanStatusCode.ERROR });
+    span.end();
+
+    const { params, ...rest } = fields;
+    const entry = JSON.stringify({
+      event: "maps_proxy_request",
+      requestId,
+      traceId: span.spanContext().traceId,
+      route,
+      preset,
+      status,
+      durationMs,
+      ...rest,
+      ...(params ? { params: redactParams(params) } : {}),
+    });
+    if (status >= 500) console.error(entry);
+    else console.info(entry);
+
+    if (options.recordMetrics !== false) {
+      recordRequest({
+        route,
+        endpoint: fields.endpoint ?? "none",
+        family: fields.family ?? "none",
+        preset,
+        authSource: fields.authSource ?? "none",
+        status,
+        durationMs,
+        transactions: fields.attempts ?? 0,
+      });
+    }
+  }
+};
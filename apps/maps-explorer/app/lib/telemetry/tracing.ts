@@ -0,0 +1,104 @@
+import "server-only";
+import { SpanStatusCode, context, trace, type Attributes, type Span } from "@opentelemetry/api";
+import {
+  BasicTracerProvider,
+  ConsoleSpanExporter,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+  type SpanProcessor,
+} from "@opentelemetry/sdk-trace-base";
+
+export type TraceExporterName = "memory" | "console" | "none";
+
+export type ExportedSpan = {
+  name: string;
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  status: "unset" | "ok" | "error";
+  durationMs: number;
+  attributes: Attributes;
+};
+
+let tracing: {
+  provider: BasicTracerProvider;
+  memory: InMemorySpanExporter | null;
+} | null = null;
+
+export const getTraceExporterName = (): TraceExporterName => {
+  const value = process.env.MAPS_TRACE_EXPORTER;
+  return value === "memory" || value === "console" ? value : "none";
+};
+
+/**
+ * Tracer provider for the proxy routes. MAPS_TRACE_EXPORTER=console writes
+ * finished spans to stdout (collected by App Service logs); `memory` keeps
+ * them in-process so tests can read them back offline.
+ */
+const getTracing = () => {
+  if (!tracing) {
+    const exporter = getTraceExporterName();
+    const memory = exporter === "memory" ? new InMemorySpanExporter() : null;
+    const spanProcessors: SpanProcessor[] = [];
+    if (memory) spanProcessors.push(new SimpleSpanProcessor(memory));
+    if (exporter === "console") spanProcessors.push(new SimpleSpanProcessor(new ConsoleSpanExporter()));
+    tracing = { provider: new BasicTracerProvider({ spanProcessors }), memory };
+  }
+  return tracing;
+};
+
+export const getTracer = () => getTracing().provider.getTracer("maps-explorer");
+
+/** Starts a span, optionally as a child of `parent`, without touching global context. */
+export const startSpan = (name: string, attributes: Attributes, parent?: Span) =>
+  getTracer().startSpan(
+    name,
+    { attributes },
+    parent ? trace.setSpan(context.active(), parent) : undefined
+  );
+
+/** Runs `fn` inside a child span, recording failures before rethrowing them. */
+export const withSpan = async <T>(
+  name: string,
+  attributes: Attributes,
+  parent: Span | undefined,
+  fn: (span: Span) => Promise<T>
+) => {
+  const span = startSpan(name, attributes, parent);
+  try {
+    return await fn(span);
+  } catch (error) {
+    span.recordException(error instanceof Error ? error : String(error));
+    span.setStatus({ code: SpanStatusCode.ERROR });
+    throw error;
+  } finally {
+    span.end();
+  }
+};
+
+// W3C trace context for outbound calls, so Azure Maps logs can be joined to our spans.
+export const toTraceparent = (span: Span) => {
+  const { traceId, spanId, traceFlags } = span.spanContext();
+  return `00-${traceId}-${spanId}-${traceFlags.toString(16).padStart(2, "0")}`;
+};
+
+export const getFinishedSpans = (): ExportedSpan[] | null => {
+  const { memory } = getTracing();
+  if (!memory) return null;
+  return memory.getFinishedSpans().map((span) => ({
+    name: span.name,
+    traceId: span.spanContext().traceId,
+    spanId: span.spanContext().spanId,
+    parentSpanId: span.parentSpanContext?.spanId,
+    status:
+      span.status.code === SpanStatusCode.ERROR
+        ? "error"
+        : span.status.code === SpanStatusCode.OK
+        ? "ok"
+        : "unset",
+    durationMs: span.duration[0] * 1000 + span.duration[1] / 1e6,
+    attributes: span.attributes,
+  }));
+};
+
+export const resetFinishedSpans = () => getTracing().memory?.reset();
@@ -0,0 +1,38 @@
+export const testAddresses = [
+  {
+    label: "Farmers Insurance",
+    value: "6301 Owensmouth Ave, Woodland Hills, CA 91367",
+  },
+  {
+    label: "Farmers Insurance (Misspelled)",
+    value: "6301 Owesmonth , Wodland Hill, California 91367",
+  },
+  {
+    label: "Farmers Insurance Coordinates",
+    value: "-118.60213,34.184559",
+  },
+  {
+    label: "Farmers Insurance Group",
+    value: "6301 Owensmouth Ave Woodland Hills, CA 91367 USA",
+  },
+  {
+    label: "Zurich North America",
+    value: "1400 American Ln # 20, Schaumburg, Illinois",
+  },
+  {
+    label: "Empire State Building",
+    value: "20 W 34th St New York, NY 10001 USA",
+  },
+  {
+    label: "Willis Tower",
+    value: "233 S Wacker Dr Chicago, IL 60606 USA",
+  },
+  {
+    label: "Space Center Houston",
+    value: "1601 E NASA Pkwy Houston, TX 77058 USA",
+  },
+  {
+    label: "Space Needle",
+    value: "400 Broad St Seattle, WA 98109 USA",
+  },
+];
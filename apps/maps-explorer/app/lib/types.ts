@@ -5,6 +5,22 @@ export type Param = {
   value: string;
 };
 
+export type EndpointFamily = "search" | "route" | "weather" | "render";
+
+export type EndpointCatalogEntry = {
+  id: string;
+  pattern: string;
+  methods: HttpMethod[];
+  apiVersions: string[];
+  requiredParams?: string[];
+  anyOfParams?: string[];
+};
+
+export type RetryOptions = {
+  maxAttempts?: number;
+  retryNonIdempotent?: boolean;
+};
+
 export type RequestShape = {
   path: string;
   params: Record<string, string>;
@@ -15,21 +31,124 @@ export type RequestShape = {
     apiKey?: string;
     clientId?: string;
   };
+  retry?: RetryOptions;
+  bypassCache?: boolean;
+  passthrough?: boolean;
+  diagnostics?: boolean;
 };
 
+export type CredentialProviderName =
+  | "managed-identity"
+  | "workload-identity"
+  | "certificate"
+  | "client-secret";
+
 export type ApiResponseMeta = {
   status: number;
   statusText: string;
   headers: Record<string, string>;
   durationMs: number;
   url: string;
+  authSource?: CredentialProviderName | "subscription-key";
+  attempts?: number;
+  retryWaitMs?: number;
+  diagnostics?: ApiDiagnostics;
 };
 
+export type ApiDiagnostics = {
+  upstreamUrl: string;
+  requestHeaders: Record<string, string>;
+  responseHeaders: Record<string, string>;
+  timings: {
+    tokenMs: number | null;
+    // Backoff and Retry-After waits between attempts.
+    retryWaitMs: number;
+    // DNS and connect (TCP and TLS) of the final attempt; null when it reused a connection.
+    dnsMs: number | null;
+    connectMs: number | null;
+    // Final attempt only: from the open connection to response headers.
+    ttfbMs: number;
+    bodyMs: number;
+    totalMs: number;
+  };
+};
+
+export type ApiErrorCode =
+  | "invalid_json"
+  | "invalid_path"
+  | "invalid_method"
+  | "invalid_base_url"
+  | "base_url_not_allowed"
+  | "endpoint_not_allowed"
+  | "missing_maps_client_id"
+  | "missing_credentials"
+  | "token_error"
+  | "request_failed"
+  | "rate_limited"
+  | "invalid_batch"
+  | "upstream_timeout"
+  | "response_too_large"
+  | "invalid_response"
+  | "cassette_miss";
+
 export type ApiResponse<T = unknown> = {
   meta: ApiResponseMeta;
   body: T;
   raw: string;
-  errorCode?: string;
+  encoding?: "base64";
+  size?: number;
+  errorCode?: ApiErrorCode;
+};
+
+export type BatchRequest = {
+  items: RequestShape[];
+  concurrency?: number;
+};
+
+export type BatchResponse = {
+  items: ApiResponse[];
+  durationMs: number;
+};
+
+export type BudgetSnapshot = {
+  families: {
+    family: EndpointFamily;
+    limit: number;
+    remaining: number;
+    resetAt: string;
+  }[];
+  daily: {
+    cap: number;
+    used: number;
+    remaining: number;
+    resetAt: string;
+  } | null;
+};
+
+export type UsageRow = {
+  preset: string;
+  calls: number;
+  errors: number;
+  errorRate: number;
+  transactions: number;
+  p50Ms: number | null;
+  p95Ms: number | null;
+};
+
+export type UsageSummary = {
+  generatedAt: string;
+  hour: UsageRow[];
+  day: UsageRow[];
+};
+
+export type HistoryResponse = {
+  statusText: string;
+  headers: Record<string, string>;
+  raw: string;
+  encoding?: "base64";
+  size: number;
+  // The body was too large to keep; `raw` is empty.
+  omitted?: boolean;
 };
 
 export type HistoryEntry = {
@@ -38,4 +157,17 @@ export type HistoryEntry = {
   timestamp: number;
   status: number;
   durationMs: number;
+  // How the proxy authenticated; the credential itself is never stored.
+  authMode?: "key" | "entra";
+  response?: HistoryResponse;
+  // The preset selected when the request ran.
+  preset?: string;
+  pinned?: boolean;
+  note?: string;
+};
+
+export type BulkPoint = {
+  lat: number;
+  lon: number;
+  label: string;
 };
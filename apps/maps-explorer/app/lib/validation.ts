@@ -1,4 +1,4 @@
-import type { Param } from "./types";
+import type { EndpointFamily, Param } from "./types";
 
 export const normalizePath = (path: string) => path.trim().replace(/^\/+/, "");
 
@@ -47,3 +47,11 @@ export const hasLatLonParam = (params: Record<string, string>) => {
   const hasLon = Object.keys(params).some((key) => key.toLowerCase() === "lon");
   return hasLat && hasLon;
 };
+
+export const getEndpointFamily = (path: string): EndpointFamily => {
+  const normalized = normalizePath(path).toLowerCase();
+  if (normalized.startsWith("route")) return "route";
+  if (normalized.startsWith("weather")) return "weather";
+  if (normalized.startsWith("map/")) return "render";
+  return "search";
+};
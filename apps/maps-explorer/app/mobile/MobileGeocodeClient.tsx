@@ -60,7 +60,7 @@ export default function MobileGeocodeClient() {
 
       const res = await fetch("/api/maps", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", "x-maps-preset": "mobile-geocode" },
         body: JSON.stringify(request),
       });
       const data = (await res.json()) as ApiResponse;
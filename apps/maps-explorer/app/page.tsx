@@ -1,5 +1,6 @@
 import EndpointForm from "./(components)/EndpointForm";
 import ReferenceValues from "./(components)/ReferenceValues";
+import UsagePanel from "./(components)/UsagePanel";
 
 export default function Home() {
   return (
@@ -20,6 +21,7 @@ export default function Home() {
           </div>
         </header>
         <EndpointForm />
+        <UsagePanel />
         <ReferenceValues />
       </div>
     </main>
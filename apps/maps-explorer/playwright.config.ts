@@ -1,7 +1,9 @@
 import { defineConfig } from "@playwright/test";
+import { IMDS_STAND_IN_PORT } from "./tests/imds-stand-in";
 
 export default defineConfig({
   testDir: "./tests",
+  globalSetup: "./tests/global-setup.ts",
   use: {
     baseURL: "http://localhost:3000",
     trace: "retain-on-failure",
@@ -11,5 +13,17 @@ export default defineConfig({
     url: "http://localhost:3000",
     reuseExistingServer: true,
     timeout: 120_000,
+    env: {
+      AZURE_IMDS_ENDPOINT: `http://127.0.0.1:${IMDS_STAND_IN_PORT}/metadata/identity/oauth2/token`,
+      MAPS_RATE_LIMITS: "render=3",
+      MAPS_TRACE_EXPORTER: "memory",
+      MAPS_CASSETTE_FILE: "tests/cassettes/maps.json",
+      MAPS_MOCK_GAZETTEER: "tests/gazetteer.csv",
+      MAPS_ENDPOINT_CATALOG: "tests/catalog.json",
+      // [::ffff:7f00:1] is allowlisted so the private address check, not the allowlist,
+      // rejects it; 192.0.2.1 (TEST-NET-1) is public but never answers.
+      AZURE_MAPS_ALLOWED_HOSTS: "[::ffff:7f00:1],192.0.2.1",
+      MAPS_UPSTREAM_TIMEOUTS: "render=3000,search=3000",
+    },
   },
 });
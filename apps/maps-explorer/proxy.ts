@@ -0,0 +1,18 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { SESSION_COOKIE, createSession, sessionCookieOptions } from "./app/lib/auth/session";
+
+/**
+ * Every page load starts a new explorer session. The cookie is also added to
+ * this request so the layout can embed the session's CSRF token in the HTML.
+ */
+export function proxy(request: NextRequest) {
+  const { cookieValue } = createSession();
+  request.cookies.set(SESSION_COOKIE, cookieValue);
+  const response = NextResponse.next({ request: { headers: request.headers } });
+  response.cookies.set(SESSION_COOKIE, cookieValue, sessionCookieOptions());
+  return response;
+}
+
+export const config = {
+  matcher: ["/", "/mobile"],
+};
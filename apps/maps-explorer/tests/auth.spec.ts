@@ -0,0 +1,12 @@
+import { test, expect } from "@playwright/test";
+import { openExplorerPage } from "./explorer-page";
+import { IMDS_STAND_IN_TOKEN } from "./imds-stand-in";
+
+test("browser tokens come from the managed identity stand-in", async ({ request }) => {
+  const headers = await openExplorerPage(request);
+  const res = await request.get("/api/maps/token", { headers });
+  expect(res.status()).toBe(200);
+  const payload = await res.json();
+  expect(payload.token).toBe(IMDS_STAND_IN_TOKEN);
+  expect(Object.keys(payload).sort()).toEqual(["expiresOn", "token"]);
+});
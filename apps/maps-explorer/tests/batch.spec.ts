@@ -0,0 +1,85 @@
+import { test, expect } from "@playwright/test";
+import { openExplorerPage } from "./explorer-page";
+
+test("batch items are answered in order with per-item errors", async ({ request }) => {
+  const res = await request.post("/api/maps/batch", {
+    data: {
+      items: [
+        { path: "not/in/catalog", method: "GET", params: {} },
+        { path: "", method: "GET", params: {} },
+        { method: "GET" },
+        { path: "geocode", method: "DELETE", params: { "api-version": "2025-01-01" } },
+      ],
+    },
+  });
+  expect(res.status()).toBe(200);
+  const payload = await res.json();
+  expect(payload.items.map((item: { errorCode?: string }) => item.errorCode)).toEqual([
+    "endpoint_not_allowed",
+    "invalid_path",
+    "invalid_batch",
+    "endpoint_not_allowed",
+  ]);
+});
+
+test("oversized and empty batches are rejected", async ({ request }) => {
+  const empty = await request.post("/api/maps/batch", { data: { items: [] } });
+  expect(empty.status()).toBe(400);
+  expect((await empty.json()).errorCode).toBe("invalid_batch");
+
+  const items = Array.from({ length: 26 }, () => ({ path: "geocode", method: "GET", params: {} }));
+  const oversized = await request.post("/api/maps/batch", { data: { items } });
+  expect(oversized.status()).toBe(400);
+  expect((await oversized.json()).errorCode).toBe("invalid_batch");
+});
+
+test("malformed items fail on their own and a non-numeric concurrency is rejected", async ({
+  request,
+}) => {
+  const res = await request.post("/api/maps/batch", {
+    data: {
+      items: [
+        { path: "geocode", method: 42, params: {} },
+        { path: "geocode", method: "GET", params: { query: 1 } },
+        { path: "geocode", method: "GET", params: [] },
+        { path: "geocode", method: "GET", params: {}, auth: { clientId: 7 } },
+        { path: "not/in/catalog", method: "GET", params: {} },
+      ],
+    },
+  });
+  expect(res.status()).toBe(200);
+  const payload = await res.json();
+  expect(payload.items.map((item: { errorCode?: string }) => item.errorCode)).toEqual([
+    "invalid_batch",
+    "invalid_batch",
+    "invalid_batch",
+    "invalid_batch",
+    "endpoint_not_allowed",
+  ]);
+  expect(payload.items[0].meta.status).toBe(400);
+
+  const fast = await request.post("/api/maps/batch", {
+    data: { items: [{ path: "geocode", method: "GET", params: {} }], concurrency: "fast" },
+  });
+  expect(fast.status()).toBe(400);
+  expect((await fast.json()).errorCode).toBe("invalid_batch");
+});
+
+test("usage counts each forwarded item once, not the batch request", async ({ request }) => {
+  const preset = "batch-test";
+  const headers = await openExplorerPage(request);
+  const callsFor = async () => {
+    const usage = await (await request.get("/api/metrics/usage", { headers })).json();
+    const row = usage.hour.find((entry: { preset: string }) => entry.preset === preset);
+    return row?.calls ?? 0;
+  };
+
+  const before = await callsFor();
+  const item = { path: "not/in/catalog", method: "GET", params: {} };
+  const res = await request.post("/api/maps/batch", {
+    headers: { "x-maps-preset": preset },
+    data: { items: [item, item] },
+  });
+  expect(res.status()).toBe(200);
+  expect(await callsFor()).toBe(before + 2);
+});
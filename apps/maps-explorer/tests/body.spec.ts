@@ -0,0 +1,77 @@
+import { test, expect } from "@playwright/test";
+import { ResponseTooLargeError, limitBodyStream } from "../app/lib/proxy/body";
+
+// An upstream body of `sizes` chunks that logs when its read is cancelled.
+const upstreamBody = (sizes: number[], events: string[], failAfter?: number) => {
+  let index = 0;
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (index === failAfter) {
+        controller.error(new Error("Upstream request timed out after 20000ms."));
+      } else if (index < sizes.length) {
+        controller.enqueue(new Uint8Array(sizes[index++]).fill(index));
+      } else {
+        controller.close();
+      }
+    },
+    cancel() {
+      events.push("upstream cancelled");
+    },
+  });
+};
+
+const readAll = async (stream: ReadableStream<Uint8Array>) => {
+  const reader = stream.getReader();
+  const parts: Uint8Array[] = [];
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return Buffer.concat(parts);
+    parts.push(value);
+  }
+};
+
+test("complete bodies reach onComplete and release the upstream once", async () => {
+  const events: string[] = [];
+  let completed: Buffer | null = null;
+  const stream = limitBodyStream(upstreamBody([4, 4], events), 8, {
+    onComplete: (buffer) => {
+      completed = buffer;
+    },
+    onClose: () => events.push("closed"),
+  });
+  const body = await readAll(stream);
+  expect(body).toEqual(Buffer.from([1, 1, 1, 1, 2, 2, 2, 2]));
+  expect(completed).toEqual(body);
+  expect(events).toEqual(["closed"]);
+});
+
+test("bodies past the limit fail with response_too_large and release the upstream", async () => {
+  const events: string[] = [];
+  const stream = limitBodyStream(upstreamBody([4, 4, 4], events), 6, {
+    onClose: () => events.push("closed"),
+  });
+  const error = await readAll(stream).catch((caught: unknown) => caught);
+  expect(error).toBeInstanceOf(ResponseTooLargeError);
+  expect((error as ResponseTooLargeError).limit).toBe(6);
+  await expect.poll(() => events).toEqual(["closed", "upstream cancelled"]);
+});
+
+test("a browser disconnect cancels the upstream read and releases it", async () => {
+  const events: string[] = [];
+  const reader = limitBodyStream(upstreamBody([4, 4, 4], events), 64, {
+    onComplete: () => events.push("completed"),
+    onClose: () => events.push("closed"),
+  }).getReader();
+  await reader.read();
+  await reader.cancel(new Error("Client closed the request."));
+  expect(events).toEqual(["closed", "upstream cancelled"]);
+});
+
+test("an aborted upstream read errors the stream and releases the upstream", async () => {
+  const events: string[] = [];
+  const stream = limitBodyStream(upstreamBody([4, 4], events, 1), 64, {
+    onClose: () => events.push("closed"),
+  });
+  await expect(readAll(stream)).rejects.toThrow("Upstream request timed out after 20000ms.");
+  expect(events).toEqual(["closed"]);
+});
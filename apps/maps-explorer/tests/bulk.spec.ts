@@ -0,0 +1,622 @@
+import { test, expect } from "@playwright/test";
+import { crc32, deflateRawSync } from "node:zlib";
+import { parseCsv, toCsv } from "../app/lib/bulk/csv";
+import {
+  buildGeocodeParams,
+  guessColumnMapping,
+  readGeocodeMatch,
+  toGeocodeCsv,
+  toGeocodeGeoJson,
+  type BulkGeocodeRow,
+} from "../app/lib/bulk/geocode";
+import {
+  guessCoordinateColumns,
+  readReverseMatch,
+  readRowCoordinate,
+  toReverseCsv,
+  toReverseGeoJson,
+  type BulkReverseRow,
+} from "../app/lib/bulk/reverse";
+import { runBulk, type BulkBudget } from "../app/lib/bulk/runner";
+import { readTableFile, type BulkTable } from "../app/lib/bulk/table";
+import type { ApiResponse, RequestShape } from "../app/lib/types";
+
+const apiResponse = (
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {}
+): ApiResponse => ({
+  meta: { status, statusText: "", headers, durationMs: 0, url: "" },
+  body,
+  raw: "",
+  ...(status === 429 ? { errorCode: "rate_limited" as const } : {}),
+});
+
+const rowRequest = (index: number): RequestShape => ({
+  path: "geocode",
+  method: "GET",
+  params: { "api-version": "2025-01-01", query: `row ${index}` },
+});
+
+const rowOf = (request: RequestShape) => Number(request.params.query.replace("row ", ""));
+
+// A deflated .xlsx package holding the given parts.
+const zip = (files: Record<string, string>) => {
+  const parts: Buffer[] = [];
+  const directory: Buffer[] = [];
+  let offset = 0;
+  Object.entries(files).forEach(([name, text]) => {
+    const data = Buffer.from(text);
+    const compressed = deflateRawSync(data);
+    const fileName = Buffer.from(name);
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(crc32(data), 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(fileName.length, 26);
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(crc32(data), 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(fileName.length, 28);
+    central.writeUInt32LE(offset, 42);
+    parts.push(local, fileName, compressed);
+    directory.push(central, fileName);
+    offset += local.length + fileName.length + compressed.length;
+  });
+  const centralDirectory = Buffer.concat(directory);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...parts, centralDirectory, end]);
+};
+
+test("CSV fields can quote delimiters, quotes and line breaks", () => {
+  const rows = parseCsv(
+    'name,address\r\n"Contoso, Ltd","1 Microsoft Way\nBuilding 92"\r\n\r\n"Say ""hi""",x\n'
+  );
+  expect(rows).toEqual([
+    ["name", "address"],
+    ["Contoso, Ltd", "1 Microsoft Way\nBuilding 92"],
+    ['Say "hi"', "x"],
+  ]);
+  expect(parseCsv(toCsv(rows))).toEqual(rows);
+});
+
+test("CSV exports prefix cells that spreadsheets would run as formulas", () => {
+  const rows = [
+    ["=HYPERLINK(\"http://x\")", "+1+1", "-2+3", "@SUM(A1)", "\tcmd", "\r=1"],
+    ["-122.128275", "+47.6", "1e-3", "plain", "a=b", ""],
+  ];
+  expect(parseCsv(toCsv(rows))).toEqual([
+    ["'=HYPERLINK(\"http://x\")", "'+1+1", "'-2+3", "'@SUM(A1)", "'\tcmd", "'\r=1"],
+    ["-122.128275", "+47.6", "1e-3", "plain", "a=b", ""],
+  ]);
+});
+
+test("semicolon and tab delimiters are detected from the header", () => {
+  expect(parseCsv("\uFEFFaddress;city;zip\n10 Rue de Rivoli;Paris, FR;75001\n")).toEqual([
+    ["address", "city", "zip"],
+    ["10 Rue de Rivoli", "Paris, FR", "75001"],
+  ]);
+  expect(parseCsv("address\tcity\n1 Main St, Apt 2\tSeattle")).toEqual([
+    ["address", "city"],
+    ["1 Main St, Apt 2", "Seattle"],
+  ]);
+});
+
+test("CSV uploads pad short rows and name blank headers", async () => {
+  const table = await readTableFile(
+    new File(["address, city ,\n1 Microsoft Way,Redmond,98052\n400 Broad St\n"], "stores.csv")
+  );
+  expect(table).toEqual({
+    fileName: "stores.csv",
+    headers: ["address", "city", "Column 3"],
+    rows: [
+      ["1 Microsoft Way", "Redmond", "98052"],
+      ["400 Broad St", "", ""],
+    ],
+  });
+  await expect(readTableFile(new File(["address\n"], "empty.csv"))).rejects.toThrow(
+    "The file has no data rows."
+  );
+});
+
+test("xlsx uploads read the first sheet with shared and inline strings", async ({ page }) => {
+  const workbook = zip({
+    "xl/workbook.xml":
+      '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="Stores" sheetId="1" r:id="rId1"/></sheets></workbook>',
+    "xl/_rels/workbook.xml.rels":
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/stores.xml"/></Relationships>',
+    "xl/sharedStrings.xml":
+      '<sst xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><si><t>address</t></si><si><t>city</t></si><si><t>1 Microsoft Way</t></si></sst>',
+    "xl/worksheets/stores.xml":
+      '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>' +
+      '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="C1" t="inlineStr"><is><t>zip</t></is></c></row>' +
+      '<row r="2"><c r="A2" t="s"><v>2</v></c><c r="B2" t="inlineStr"><is><t>Redmond</t></is></c></row>' +
+      '<row r="3"><c r="A3" t="inlineStr"><is><t>400 Broad St</t></is></c><c r="C3"><v>98109</v></c></row>' +
+      "</sheetData></worksheet>",
+  });
+
+  await page.goto("/");
+  await page.getByRole("button", { name: "Bulk Geocode", exact: true }).click();
+  await page
+    .locator('input[type="file"]')
+    .setInputFiles({ name: "stores.xlsx", mimeType: "application/octet-stream", buffer: workbook });
+  await expect(page.getByText("Column mapping · 2 rows in stores.xlsx")).toBeVisible();
+  await expect(page.getByRole("cell", { name: "1 Microsoft Way, Redmond" })).toBeVisible();
+  await expect(page.getByRole("cell", { name: "400 Broad St, 98109" })).toBeVisible();
+});
+
+test("column mapping is guessed from headers", () => {
+  expect(guessColumnMapping(["Address", "City", "State", "ZIP", "Country"])).toEqual({
+    query: 0,
+    locality: 1,
+    adminDistrict: 2,
+    postalCode: 3,
+    countryRegion: 4,
+  });
+  expect(guessColumnMapping(["Street", "City", "Post code"])).toEqual({
+    addressLine: 0,
+    locality: 1,
+    postalCode: 2,
+  });
+  // A street column on its own is sent as a freeform query.
+  expect(guessColumnMapping(["Street", "Notes"])).toEqual({ query: 0 });
+  expect(guessColumnMapping(["name", "notes"])).toEqual({});
+});
+
+test("geocode params skip unmapped and blank cells", () => {
+  expect(
+    buildGeocodeParams([" 1 Microsoft Way ", "", "WA", "98052"], {
+      addressLine: 0,
+      locality: 1,
+      adminDistrict: 2,
+      countryRegion: 7,
+    })
+  ).toEqual({ addressLine: "1 Microsoft Way", adminDistrict: "WA" });
+});
+
+test("the top match is read from GeoJSON features and search results", () => {
+  const features = {
+    features: [
+      {
+        geometry: { coordinates: [-122.128275, 47.639429] },
+        properties: {
+          confidence: "High",
+          matchCodes: ["Good"],
+          address: { formattedAddress: "1 Microsoft Way, Redmond, WA 98052" },
+        },
+      },
+    ],
+  };
+  const expected = {
+    lat: 47.639429,
+    lon: -122.128275,
+    confidence: "High",
+    matchCodes: ["Good"],
+    formattedAddress: "1 Microsoft Way, Redmond, WA 98052",
+  };
+  expect(readGeocodeMatch(features)).toEqual(expected);
+  expect(readGeocodeMatch(JSON.stringify(features))).toEqual(expected);
+
+  expect(
+    readGeocodeMatch({
+      results: [
+        {
+          type: "Point Address",
+          position: { lat: 47.6, lon: -122.3 },
+          matchConfidence: { score: 0.98 },
+          address: { freeformAddress: "400 Broad St, Seattle, WA 98109" },
+        },
+      ],
+    })
+  ).toEqual({
+    lat: 47.6,
+    lon: -122.3,
+    confidence: "0.98",
+    matchCodes: ["Point Address"],
+    formattedAddress: "400 Broad St, Seattle, WA 98109",
+  });
+
+  expect(readGeocodeMatch({ features: [] })).toBeNull();
+  expect(readGeocodeMatch({ features: [{ geometry: { coordinates: ["a", "b"] } }] })).toBeNull();
+  expect(readGeocodeMatch("not json")).toBeNull();
+});
+
+const geocodeTable: BulkTable = {
+  fileName: "stores.csv",
+  headers: ["name", "address"],
+  rows: [
+    ["Contoso, Ltd", "1 Microsoft Way"],
+    ["Fabrikam", "Nowhere"],
+    ["Tailspin", "1 Main St"],
+    ["Wingtip", "2 Main St"],
+  ],
+};
+
+const geocodeResults: (BulkGeocodeRow | undefined)[] = [
+  {
+    status: "matched",
+    match: {
+      lat: 47.639429,
+      lon: -122.128275,
+      confidence: "High",
+      matchCodes: ["Good", "Ambiguous"],
+      formattedAddress: "1 Microsoft Way, Redmond, WA 98052",
+    },
+  },
+  { status: "no_match" },
+  { status: "failed", error: "Rate limit is exceeded." },
+];
+
+test("geocode CSV exports append match columns to the original rows", () => {
+  expect(toGeocodeCsv(geocodeTable, geocodeResults).split("\r\n")).toEqual([
+    "name,address,latitude,longitude,confidence,matchCodes,formattedAddress,status,error",
+    '"Contoso, Ltd",1 Microsoft Way,47.639429,-122.128275,High,Good;Ambiguous,"1 Microsoft Way, Redmond, WA 98052",matched,',
+    "Fabrikam,Nowhere,,,,,,no_match,",
+    "Tailspin,1 Main St,,,,,,failed,Rate limit is exceeded.",
+    "Wingtip,2 Main St,,,,,,pending,",
+  ]);
+});
+
+test("geocode GeoJSON exports only matched rows", () => {
+  const collection = JSON.parse(toGeocodeGeoJson(geocodeTable, geocodeResults));
+  expect(collection.type).toBe("FeatureCollection");
+  expect(collection.features).toEqual([
+    {
+      type: "Feature",
+      geometry: { type: "Point", coordinates: [-122.128275, 47.639429] },
+      properties: {
+        name: "Contoso, Ltd",
+        address: "1 Microsoft Way",
+        rowNumber: 1,
+        confidence: "High",
+        matchCodes: ["Good", "Ambiguous"],
+        formattedAddress: "1 Microsoft Way, Redmond, WA 98052",
+      },
+    },
+  ]);
+});
+
+test("rate-limited rows stay pending and are re-sent after retry-after", async () => {
+  const sent: number[][] = [];
+  const handled: number[] = [];
+  const waits: number[] = [];
+  let limitedOnce = false;
+  const outcome = await runBulk({
+    indices: [0, 1, 2, 3],
+    buildRequest: rowRequest,
+    runBatch: async (requests) => {
+      sent.push(requests.map(rowOf));
+      return requests.map((request) => {
+        if (rowOf(request) === 1 && !limitedOnce) {
+          limitedOnce = true;
+          return apiResponse(429, { message: "Rate limit exceeded." }, { "retry-after": "1" });
+        }
+        return apiResponse(200, { features: [] });
+      });
+    },
+    onResponse: (index, response) => {
+      expect(response.meta.status).toBe(200);
+      handled.push(index);
+    },
+    onWait: (waitMs) => waits.push(waitMs),
+    signal: new AbortController().signal,
+    chunkSize: 2,
+    delayMs: 0,
+  });
+  expect(outcome).toEqual({ state: "completed" });
+  expect(sent).toEqual([[0, 1], [1, 2], [3]]);
+  expect(handled.sort()).toEqual([0, 1, 2, 3]);
+  expect(waits).toEqual([1000]);
+});
+
+test("chunks are sized to the remaining budget and wait for the window to reset", async () => {
+  const sent: number[][] = [];
+  const waits: number[] = [];
+  const budgets: BulkBudget[] = [
+    { remaining: 3, resetAt: Date.now() + 60_000, dailyRemaining: null },
+    { remaining: 0, resetAt: Date.now() + 1000, dailyRemaining: null },
+    { remaining: 60, resetAt: Date.now() + 60_000, dailyRemaining: null },
+  ];
+  const outcome = await runBulk({
+    indices: [0, 1, 2, 3, 4, 5, 6],
+    buildRequest: rowRequest,
+    runBatch: async (requests) => {
+      sent.push(requests.map(rowOf));
+      return requests.map(() => apiResponse(200, { features: [] }));
+    },
+    onResponse: () => undefined,
+    onWait: (waitMs) => waits.push(waitMs),
+    getBudget: async () => budgets.shift() ?? null,
+    signal: new AbortController().signal,
+    chunkSize: 5,
+    delayMs: 0,
+  });
+  expect(outcome).toEqual({ state: "completed" });
+  expect(sent).toEqual([
+    [0, 1, 2],
+    [3, 4, 5, 6],
+  ]);
+  expect(waits).toHaveLength(1);
+  expect(waits[0]).toBeGreaterThan(0);
+  expect(waits[0]).toBeLessThanOrEqual(1000);
+});
+
+test("an exhausted daily cap interrupts the run before sending", async () => {
+  let calls = 0;
+  const outcome = await runBulk({
+    indices: [0, 1],
+    buildRequest: rowRequest,
+    runBatch: async (requests) => {
+      calls += 1;
+      return requests.map(() => apiResponse(200, {}));
+    },
+    onResponse: () => undefined,
+    getBudget: async () => ({ remaining: 60, resetAt: Date.now(), dailyRemaining: 0 }),
+    signal: new AbortController().signal,
+  });
+  expect(outcome).toEqual({
+    state: "interrupted",
+    message: "Daily Azure Maps transaction cap reached.",
+  });
+  expect(calls).toBe(0);
+});
+
+test("a failed batch interrupts the run and a resume sends only the pending rows", async () => {
+  const handled = new Set<number>();
+  let failNext = false;
+  const runBatch = async (requests: RequestShape[]) => {
+    if (failNext) throw new Error("Failed to fetch");
+    failNext = true;
+    return requests.map(() => apiResponse(200, { features: [] }));
+  };
+  const options = {
+    buildRequest: rowRequest,
+    runBatch,
+    onResponse: (index: number) => handled.add(index),
+    signal: new AbortController().signal,
+    chunkSize: 2,
+    delayMs: 0,
+  };
+
+  const first = await runBulk({ ...options, indices: [0, 1, 2, 3] });
+  expect(first).toEqual({ state: "interrupted", message: "Failed to fetch" });
+  expect([...handled]).toEqual([0, 1]);
+
+  failNext = false;
+  const sent: number[][] = [];
+  const resumed = await runBulk({
+    ...options,
+    indices: [0, 1, 2, 3].filter((index) => !handled.has(index)),
+    runBatch: (requests) => {
+      sent.push(requests.map(rowOf));
+      return runBatch(requests);
+    },
+  });
+  expect(resumed).toEqual({ state: "completed" });
+  expect(sent).toEqual([[2, 3]]);
+  expect([...handled]).toEqual([0, 1, 2, 3]);
+});
+
+test("stopping leaves the remaining rows pending", async () => {
+  const controller = new AbortController();
+  const handled: number[] = [];
+  const outcome = await runBulk({
+    indices: [0, 1, 2, 3],
+    buildRequest: rowRequest,
+    runBatch: async (requests) => {
+      controller.abort();
+      return requests.map(() => apiResponse(200, {}));
+    },
+    onResponse: (index) => handled.push(index),
+    signal: controller.signal,
+    chunkSize: 2,
+    delayMs: 1000,
+  });
+  expect(outcome).toEqual({ state: "stopped" });
+  expect(handled).toEqual([0, 1]);
+});
+
+test("coordinate columns are guessed from headers", () => {
+  expect(guessCoordinateColumns(["Store", "Latitude", "Longitude"])).toEqual({ lat: 1, lon: 2 });
+  expect(guessCoordinateColumns(["x", "y"])).toEqual({ lat: 1, lon: 0 });
+  expect(guessCoordinateColumns([" GPS Lat ", "GPS Lng"])).toEqual({ lat: 0, lon: 1 });
+  expect(guessCoordinateColumns(["name", "address"])).toEqual({
+    lat: undefined,
+    lon: undefined,
+  });
+});
+
+test("row coordinates are parsed and range-checked", () => {
+  const columns = { lat: 0, lon: 1 };
+  expect(readRowCoordinate([" 47.64 ", "-122.13"], columns)).toEqual({ lat: 47.64, lon: -122.13 });
+  expect(readRowCoordinate(["-90", "180"], columns)).toEqual({ lat: -90, lon: 180 });
+  expect(readRowCoordinate(["47.64", "-122.13"], { lat: 0 })).toEqual({
+    error: "Map the latitude and longitude columns.",
+  });
+  expect(readRowCoordinate(["north", "-122.13"], columns)).toEqual({
+    error: "Latitude is not a number.",
+  });
+  expect(readRowCoordinate(["47.64", ""], columns)).toEqual({
+    error: "Longitude is not a number.",
+  });
+  expect(readRowCoordinate(["47.64"], columns)).toEqual({ error: "Longitude is not a number." });
+  expect(readRowCoordinate(["91", "0"], columns)).toEqual({
+    error: "Latitude 91 is outside -90..90.",
+  });
+  expect(readRowCoordinate(["0", "-180.5"], columns)).toEqual({
+    error: "Longitude -180.5 is outside -180..180.",
+  });
+});
+
+test("GeoJSON uploads turn point features into coordinate and property columns", async () => {
+  const collection = {
+    type: "FeatureCollection",
+    features: [
+      {
+        type: "Feature",
+        geometry: { type: "Point", coordinates: [-122.13, 47.64] },
+        properties: { name: "Campus", longitude: 0, tags: ["hq"] },
+      },
+      {
+        type: "Feature",
+        geometry: { type: "LineString", coordinates: [[0, 0], [1, 1]] },
+        properties: { name: "Trail", visits: 3 },
+      },
+      { type: "Feature", geometry: null, properties: null },
+    ],
+  };
+  const table = await readTableFile(new File([JSON.stringify(collection)], "stores.geojson"));
+  expect(table).toEqual({
+    fileName: "stores.geojson",
+    headers: ["longitude", "latitude", "name", "tags", "visits"],
+    rows: [
+      ["-122.13", "47.64", "Campus", '["hq"]', ""],
+      ["", "", "Trail", "", "3"],
+      ["", "", "", "", ""],
+    ],
+  });
+  expect(guessCoordinateColumns(table.headers)).toEqual({ lat: 1, lon: 0 });
+
+  const feature = await readTableFile(
+    new File(
+      [JSON.stringify({ type: "Feature", geometry: { type: "Point", coordinates: [2.35, 48.86] } })],
+      "paris.json"
+    )
+  );
+  expect(feature.rows).toEqual([["2.35", "48.86"]]);
+  await expect(readTableFile(new File(["{"], "broken.geojson"))).rejects.toThrow(
+    "The file is not valid GeoJSON."
+  );
+});
+
+const reverseBody = {
+  features: [
+    {
+      properties: {
+        type: "Address",
+        address: {
+          formattedAddress: "1 Microsoft Way, Redmond, WA 98052",
+          addressLine: "1 Microsoft Way",
+          neighborhood: "Overlake",
+          locality: "Redmond",
+          postalCode: "98052",
+          adminDistricts: [
+            { name: "Washington", shortName: "WA" },
+            { name: "King County", shortName: "King Co." },
+          ],
+          countryRegion: { ISO: "US", name: "United States" },
+        },
+      },
+    },
+  ],
+};
+
+test("reverse matches read address components from both response shapes", () => {
+  const point = { lat: 47.64, lon: -122.13 };
+  expect(readReverseMatch(reverseBody, point)).toEqual({
+    lat: 47.64,
+    lon: -122.13,
+    resultType: "Address",
+    formattedAddress: "1 Microsoft Way, Redmond, WA 98052",
+    addressLine: "1 Microsoft Way",
+    neighborhood: "Overlake",
+    locality: "Redmond",
+    adminDistrict: "WA",
+    adminDistrict2: "King County",
+    postalCode: "98052",
+    countryRegion: "US",
+  });
+  expect(
+    readReverseMatch(
+      {
+        addresses: [
+          {
+            address: {
+              freeformAddress: "400 Broad St, Seattle, WA 98109",
+              streetNumber: "400",
+              streetName: "Broad St",
+              municipality: "Seattle",
+              countrySubdivision: "WA",
+              postalCode: "98109",
+              countryCode: "US",
+            },
+          },
+        ],
+      },
+      point
+    )
+  ).toMatchObject({
+    resultType: "Address",
+    addressLine: "400 Broad St",
+    locality: "Seattle",
+    adminDistrict: "WA",
+    countryRegion: "US",
+  });
+  expect(readReverseMatch({ features: [] }, point)).toBeNull();
+  expect(readReverseMatch({ addresses: [{}] }, point)).toBeNull();
+});
+
+const reverseTable: BulkTable = {
+  fileName: "visits.csv",
+  headers: ["store", "lat", "lon"],
+  rows: [
+    ["Campus", "47.64", "-122.13"],
+    ["Ocean", "0", "-140"],
+    ["Typo", "north", "-122"],
+  ],
+};
+
+const reverseResults: (BulkReverseRow | undefined)[] = [
+  { status: "matched", match: readReverseMatch(reverseBody, { lat: 47.64, lon: -122.13 })! },
+  { status: "no_match" },
+  { status: "failed", error: "Latitude is not a number." },
+];
+
+test("reverse CSV exports append address components and the requested result types", () => {
+  const csv = toReverseCsv(reverseTable, reverseResults, "Address,Neighborhood");
+  expect(csv.split("\r\n")).toEqual([
+    "store,lat,lon,resultType,formattedAddress,addressLine,neighborhood,locality,adminDistrict,adminDistrict2,postalCode,countryRegion,requestedResultTypes,status,error",
+    'Campus,47.64,-122.13,Address,"1 Microsoft Way, Redmond, WA 98052",1 Microsoft Way,Overlake,Redmond,WA,King County,98052,US,"Address,Neighborhood",matched,',
+    'Ocean,0,-140,,,,,,,,,,"Address,Neighborhood",no_match,',
+    'Typo,north,-122,,,,,,,,,,"Address,Neighborhood",failed,Latitude is not a number.',
+  ]);
+});
+
+test("reverse GeoJSON exports matched rows with their address components", () => {
+  const collection = JSON.parse(toReverseGeoJson(reverseTable, reverseResults, "Address"));
+  expect(collection.features).toEqual([
+    {
+      type: "Feature",
+      geometry: { type: "Point", coordinates: [-122.13, 47.64] },
+      properties: {
+        store: "Campus",
+        lat: "47.64",
+        lon: "-122.13",
+        rowNumber: 1,
+        resultType: "Address",
+        formattedAddress: "1 Microsoft Way, Redmond, WA 98052",
+        addressLine: "1 Microsoft Way",
+        neighborhood: "Overlake",
+        locality: "Redmond",
+        adminDistrict: "WA",
+        adminDistrict2: "King County",
+        postalCode: "98052",
+        countryRegion: "US",
+        requestedResultTypes: "Address",
+      },
+    },
+  ]);
+});
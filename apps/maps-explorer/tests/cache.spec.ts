@@ -0,0 +1,30 @@
+import { test, expect } from "@playwright/test";
+import { buildCacheKey } from "../app/lib/proxy/cache";
+import type { RequestShape } from "../app/lib/types";
+
+const baseUrl = "https://atlas.microsoft.com";
+
+const geocodeKey = (auth?: RequestShape["auth"]) =>
+  buildCacheKey(
+    {
+      path: "geocode",
+      params: { "api-version": "2025-01-01", query: "1 Microsoft Way" },
+      method: "GET",
+      auth,
+    },
+    baseUrl,
+    "GET"
+  );
+
+test("Entra requests for different Maps accounts never share a cache key", () => {
+  const first = geocodeKey({ clientId: "client-a" });
+  expect(first).not.toBe(geocodeKey({ clientId: "client-b" }));
+  expect(first).not.toBe(geocodeKey());
+  expect(geocodeKey({ clientId: " client-a " })).toBe(first);
+});
+
+test("a caller's API key takes precedence over the client id in the key", () => {
+  const withKey = geocodeKey({ apiKey: "key-1", clientId: "client-a" });
+  expect(withKey).toBe(geocodeKey({ apiKey: "key-1" }));
+  expect(withKey).not.toBe(geocodeKey({ apiKey: "key-2" }));
+});
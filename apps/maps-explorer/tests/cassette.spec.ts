@@ -0,0 +1,133 @@
+import { test, expect } from "@playwright/test";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createCassette, toCassetteRequest } from "../app/lib/proxy/cassette";
+import { readProxyResponse } from "../app/lib/proxyResponse";
+
+const replay = { "x-maps-cassette": "replay" };
+
+const geocodeRequest = {
+  path: "geocode",
+  method: "GET",
+  params: { "api-version": "2025-01-01", query: "1 Microsoft Way, Redmond, WA", top: "1" },
+};
+
+test("replays recorded responses with their status, headers and timing", async ({ request }) => {
+  const res = await request.post("/api/maps", { headers: replay, data: geocodeRequest });
+  expect(res.status()).toBe(200);
+  const payload = await res.json();
+  expect(payload.meta.headers["x-cassette"]).toBe("HIT");
+  expect(payload.meta.headers["x-ms-request-id"]).toBe("5b6f0c8e-2f0e-4d3a-9a53-2d1f4b0f7c11");
+  expect(payload.meta.durationMs).toBe(212);
+  expect(payload.body.features[0].properties.address.formattedAddress).toBe(
+    "1 Microsoft Way, Redmond, WA 98052"
+  );
+
+  const failed = await request.post("/api/maps", {
+    headers: replay,
+    data: {
+      path: "reverseGeocode",
+      method: "GET",
+      params: { "api-version": "2025-01-01", coordinates: "200,100" },
+    },
+  });
+  expect(failed.status()).toBe(400);
+  expect((await failed.json()).body.error.code).toBe("BadRequest");
+});
+
+test("matching ignores param order, path case and credentials", async ({ request }) => {
+  const res = await request.post("/api/maps", {
+    headers: replay,
+    data: {
+      path: "/Geocode",
+      method: "GET",
+      params: {
+        top: "1",
+        "subscription-key": "not-recorded",
+        query: "1 Microsoft Way, Redmond, WA",
+        "api-version": "2025-01-01",
+      },
+    },
+  });
+  expect(res.status()).toBe(200);
+});
+
+test("passthrough replays stream the recorded bytes", async ({ request }) => {
+  const res = await request.post("/api/maps", {
+    headers: replay,
+    data: { ...geocodeRequest, passthrough: true },
+  });
+  expect(res.status()).toBe(200);
+  expect(res.headers()["x-maps-passthrough"]).toBe("1");
+  expect(res.headers()["x-maps-upstream-x-cassette"]).toBe("HIT");
+  expect((await res.json()).features).toHaveLength(1);
+});
+
+test("passthrough responses keep every allowlisted upstream header", async ({ request }) => {
+  // The geocode recording was made with MAPS_RESPONSE_HEADERS=cache-control.
+  const res = await request.post("/api/maps", {
+    headers: replay,
+    data: { ...geocodeRequest, passthrough: true },
+  });
+  expect(res.headers()["cache-control"]).not.toBe("max-age=86400");
+
+  const body = new Uint8Array(await res.body());
+  const parsed = await readProxyResponse(
+    new Response(body, { status: res.status(), headers: res.headers() })
+  );
+  expect(parsed.meta.headers).toEqual({
+    "content-type": "application/json; charset=utf-8",
+    "x-ms-request-id": "5b6f0c8e-2f0e-4d3a-9a53-2d1f4b0f7c11",
+    "x-ms-azuremaps-tracking-id": "5b6f0c8e2f0e4d3a9a532d1f",
+    "cache-control": "max-age=86400",
+    "x-cassette": "HIT",
+  });
+  expect(parsed.meta.durationMs).toBe(212);
+});
+
+test("misses are reported instead of reaching Azure Maps", async ({ request }) => {
+  const res = await request.post("/api/maps", {
+    headers: replay,
+    data: { ...geocodeRequest, params: { ...geocodeRequest.params, query: "Unrecorded Street" } },
+  });
+  expect(res.status()).toBe(404);
+  const payload = await res.json();
+  expect(payload.errorCode).toBe("cassette_miss");
+  expect(payload.body.request.params.query).toBe("Unrecorded Street");
+});
+
+test("recordings keep credentials out of the cassette file", async () => {
+  const directory = await mkdtemp(join(tmpdir(), "maps-cassette-"));
+  try {
+    const cassette = createCassette(join(directory, "maps.json"));
+    const request = toCassetteRequest(
+      {
+        path: geocodeRequest.path,
+        method: "GET",
+        params: { ...geocodeRequest.params, "subscription-key": "key-secret", SIG: "sig-secret" },
+      },
+      "GET"
+    );
+    await cassette.record(request, {
+      status: 200,
+      statusText: "OK",
+      headers: { "content-type": "application/json" },
+      url: "https://atlas.microsoft.com/geocode?api-version=2025-01-01&query=1+Microsoft+Way%2C+Redmond%2C+WA&top=1&subscription-key=key-secret&SIG=sig-secret",
+      authSource: "subscription-key",
+      durationMs: 120,
+      raw: "{}",
+    });
+
+    const file = await readFile(cassette.filePath, "utf8");
+    expect(file).not.toContain("key-secret");
+    expect(file).not.toContain("sig-secret");
+    const [entry] = JSON.parse(file).entries;
+    expect(entry.request.params).toEqual(geocodeRequest.params);
+    expect(entry.response.url).toBe(
+      "https://atlas.microsoft.com/geocode?api-version=2025-01-01&query=1+Microsoft+Way%2C+Redmond%2C+WA&top=1"
+    );
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,99 @@
+import { test, expect } from "@playwright/test";
+import { buildCurl, curlShells } from "../app/lib/buildCurl";
+import { parseCurl } from "../app/lib/parseCurl";
+import type { RequestShape } from "../app/lib/types";
+
+const awkward = `O'Hare "T5" 50% & <gate> | ^caret $HOME \`tick\` back\\slash ünïcode`;
+
+const requests: RequestShape[] = [
+  {
+    path: "geocode",
+    method: "GET",
+    params: { "api-version": "2025-01-01", query: awkward },
+    auth: { apiKey: "k'ey\"with^quotes" },
+  },
+  {
+    path: "route/directions",
+    method: "POST",
+    params: { "api-version": "2025-01-01" },
+    body: {
+      type: "FeatureCollection",
+      features: [{ type: "Feature", properties: { name: awkward, note: "line\nbreak" } }],
+    },
+    auth: { clientId: "client-id'1" },
+  },
+];
+
+const ENV_REFERENCES = {
+  bash: "$AZURE_MAPS_KEY",
+  powershell: "$env:AZURE_MAPS_KEY",
+  cmd: "%AZURE_MAPS_KEY%",
+} as const;
+
+test("commands round-trip through the parser for every shell", () => {
+  for (const { id: shell } of curlShells) {
+    for (const multiline of [false, true]) {
+      for (const request of requests) {
+        const command = buildCurl(request, { shell, multiline, includeKey: true });
+        const parsed = parseCurl(command, shell);
+        expect(parsed.ok, command).toBe(true);
+        if (!parsed.ok) continue;
+        const url = new URL(parsed.curl.url);
+        expect(parsed.curl.method).toBe(request.method);
+        expect(url.pathname).toBe(`/${request.path}`);
+        expect(Object.fromEntries(url.searchParams)).toEqual(request.params);
+        if (request.body) {
+          expect(JSON.parse(parsed.curl.body ?? "")).toEqual(request.body);
+          expect(parsed.curl.headers["x-ms-client-id"]).toBe("client-id'1");
+        } else {
+          expect(parsed.curl.headers["subscription-key"]).toBe("k'ey\"with^quotes");
+        }
+      }
+    }
+  }
+});
+
+test("the key stays an environment variable unless included", () => {
+  for (const { id: shell } of curlShells) {
+    const command = buildCurl(requests[0], { shell });
+    expect(command).not.toContain("k'ey");
+    const parsed = parseCurl(command, shell);
+    expect(parsed.ok && parsed.curl.headers["subscription-key"]).toBe(ENV_REFERENCES[shell]);
+  }
+  expect(buildCurl(requests[0], { shell: "powershell" })).toMatch(/^curl\.exe /);
+  expect(buildCurl(requests[1], { multiline: true }).split("\n")).toHaveLength(5);
+});
+
+test("parses commands copied from browsers and docs", () => {
+  const chrome = parseCurl(
+    `curl 'https://atlas.microsoft.com/geocode?query=x' \\\n  -H 'accept: */*' \\\n  --data-raw $'{"name":"O\\'Hare\\u00e9"}'`
+  );
+  expect(chrome).toEqual({
+    ok: true,
+    curl: {
+      method: "POST",
+      url: "https://atlas.microsoft.com/geocode?query=x",
+      headers: { accept: "*/*" },
+      body: '{"name":"O\'Hareé"}',
+    },
+  });
+
+  const cmd = parseCurl(`curl ^"https://atlas.microsoft.com/geocode^" ^\n  -H ^"accept: */*^" -XPUT`);
+  expect(cmd.ok && cmd.curl).toEqual({
+    method: "PUT",
+    url: "https://atlas.microsoft.com/geocode",
+    headers: { accept: "*/*" },
+  });
+
+  const get = parseCurl(`curl -G https://atlas.microsoft.com/geocode -d query=Seattle -d top=1`);
+  expect(get.ok && get.curl.url).toBe("https://atlas.microsoft.com/geocode?query=Seattle&top=1");
+
+  const json = parseCurl(`curl --json '{"a":1}' https://atlas.microsoft.com/route/directions`);
+  expect(json.ok && json.curl.headers["content-type"]).toBe("application/json");
+
+  expect(parseCurl(`curl 'https://atlas.microsoft.com`)).toEqual({
+    ok: false,
+    message: "Unterminated single quote.",
+  });
+  expect(parseCurl("wget https://atlas.microsoft.com").ok).toBe(false);
+});
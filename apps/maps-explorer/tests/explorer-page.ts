@@ -0,0 +1,13 @@
+import type { APIRequestContext } from "@playwright/test";
+
+/**
+ * Loads the explorer page the way a browser does, which stores the session
+ * cookie in the request context, and returns the headers its scripts' fetches
+ * carry: the CSRF token and the browser's same-origin fetch metadata.
+ */
+export const openExplorerPage = async (request: APIRequestContext) => {
+  const html = await (await request.get("/mobile")).text();
+  const csrf = html.match(/<meta name="maps-csrf" content="([^"]+)"/)?.[1];
+  if (!csrf) throw new Error("The explorer page did not embed a CSRF token.");
+  return { "x-maps-csrf": csrf, "sec-fetch-site": "same-origin" };
+};
@@ -0,0 +1,99 @@
+import { test, expect } from "@playwright/test";
+import { exportHistory } from "../app/lib/exportRequests";
+import { importRequests } from "../app/lib/importRequest";
+import type { HistoryEntry } from "../app/lib/types";
+
+const entries: HistoryEntry[] = [
+  {
+    id: "2",
+    request: {
+      path: "route/directions",
+      params: { "api-version": "2025-01-01" },
+      method: "POST",
+      body: { type: "FeatureCollection", features: [] },
+      auth: { clientId: "client-1" },
+    },
+    timestamp: Date.UTC(2026, 9, 19, 12, 1),
+    status: 200,
+    durationMs: 120,
+    authMode: "entra",
+    response: {
+      statusText: "OK",
+      headers: { "content-type": "application/geo+json" },
+      raw: "",
+      size: 900_000,
+      omitted: true,
+    },
+  },
+  {
+    id: "1",
+    request: {
+      path: "/geocode",
+      params: { "api-version": "2025-01-01", query: "1 Microsoft Way" },
+      method: "GET",
+      baseUrl: "https://us.atlas.microsoft.com",
+      auth: {},
+    },
+    timestamp: Date.UTC(2026, 9, 19, 12, 0),
+    status: 200,
+    durationMs: 80,
+    authMode: "key",
+    response: {
+      statusText: "OK",
+      headers: { "content-type": "application/json" },
+      raw: '{"features":[]}',
+      size: 15,
+    },
+  },
+];
+
+test("Postman exports re-import with variables for the base URL and auth", () => {
+  const [collection, environment] = exportHistory("postman", entries);
+  expect(collection.fileName).toBe("maps-explorer.postman_collection.json");
+  expect(JSON.parse(environment.content).values.map((item: { key: string }) => item.key)).toEqual([
+    "baseUrl",
+    "subscriptionKey",
+    "accessToken",
+    "clientId",
+  ]);
+
+  const imported = importRequests(collection.content);
+  expect(imported.ok).toBe(true);
+  if (!imported.ok) return;
+  const [geocode, route] = imported.requests;
+  expect(geocode.auth).toBe("key");
+  expect(geocode.request.params.query).toBe("1 Microsoft Way");
+  expect(route.auth).toBe("entra");
+  expect(route.request.method).toBe("POST");
+  expect(route.request.body).toEqual({ type: "FeatureCollection", features: [] });
+  expect(route.request.baseUrl).toBe("https://atlas.microsoft.com");
+});
+
+test("HAR exports carry the recorded responses", () => {
+  const [har] = exportHistory("har", entries);
+  const { log } = JSON.parse(har.content);
+  expect(log.entries.map((entry: { request: { url: string } }) => entry.request.url)).toEqual([
+    "https://us.atlas.microsoft.com/geocode?api-version=2025-01-01&query=1+Microsoft+Way",
+    "https://atlas.microsoft.com/route/directions?api-version=2025-01-01",
+  ]);
+  expect(log.entries[0].response.content).toEqual({
+    size: 15,
+    mimeType: "application/json",
+    text: '{"features":[]}',
+  });
+  expect(log.entries[1].response.content.comment).toContain("too large");
+  expect(log.entries[1].request.headers).toContainEqual({
+    name: "x-ms-client-id",
+    value: "client-1",
+  });
+});
+
+test(".http exports read credentials from the environment", () => {
+  const [file] = exportHistory("http", entries);
+  expect(file.content).toContain("@subscriptionKey = {{$processEnv AZURE_MAPS_KEY}}");
+  expect(file.content).toContain("@clientId = client-1");
+  expect(file.content).toContain(
+    "### POST route/directions (200)\nPOST https://atlas.microsoft.com/route/directions?api-version=2025-01-01\nAuthorization: Bearer {{accessToken}}"
+  );
+  expect(exportHistory("http", [])).toEqual([]);
+});
@@ -0,0 +1,6 @@
+import { startImdsStandIn } from "./imds-stand-in";
+
+export default async function globalSetup() {
+  const server = await startImdsStandIn();
+  return () => new Promise<void>((resolve) => server.close(() => resolve()));
+}
@@ -0,0 +1,88 @@
+import { test, expect } from "@playwright/test";
+import {
+  EMPTY_QUERY,
+  expiredHistoryIds,
+  matchesHistoryQuery,
+  toApiResponse,
+  toHistoryEntry,
+} from "../app/lib/history/entries";
+import type { ApiResponse, RequestShape } from "../app/lib/types";
+
+const request: RequestShape = {
+  path: "geocode",
+  params: { "api-version": "2025-01-01", query: "1 Microsoft Way" },
+  method: "GET",
+};
+
+const response = (raw: string, status = 200): ApiResponse => ({
+  meta: {
+    status,
+    statusText: "OK",
+    headers: { "content-type": "application/json" },
+    durationMs: 42,
+    url: "",
+  },
+  body: JSON.parse(raw),
+  raw,
+});
+
+test("entries keep response bodies up to the size cap", () => {
+  const small = toHistoryEntry(request, response('{"city":"Redmond"}'), {
+    authMode: "key",
+    preset: "geocode",
+    maxBodyKb: 1,
+  });
+  expect(small.preset).toBe("geocode");
+  expect(toApiResponse(small)?.body).toEqual({ city: "Redmond" });
+
+  const large = toHistoryEntry(request, response(JSON.stringify({ pad: "x".repeat(2048) })), {
+    authMode: "key",
+    maxBodyKb: 1,
+  });
+  expect(large.response).toMatchObject({ raw: "", omitted: true, size: 2058 });
+  expect(toApiResponse(large)?.body).toEqual({
+    message: "The 2058-byte body was too large to keep in history.",
+  });
+});
+
+test("search matches every term across path, params, bodies and notes", () => {
+  const entry = {
+    ...toHistoryEntry(request, response('{"locality":"Redmond"}', 404), {
+      authMode: "entra",
+      preset: "geocode",
+      maxBodyKb: 64,
+    }),
+    note: "Flaky in CI",
+  };
+  const matches = (query: Partial<typeof EMPTY_QUERY>) =>
+    matchesHistoryQuery(entry, { ...EMPTY_QUERY, ...query });
+
+  expect(matches({ text: "microsoft REDMOND" })).toBe(true);
+  expect(matches({ text: "api-version=2025 flaky" })).toBe(true);
+  expect(matches({ text: "redmond seattle" })).toBe(false);
+  expect(matches({ status: "4xx", preset: "geocode" })).toBe(true);
+  expect(matches({ status: "2xx" })).toBe(false);
+  expect(matches({ preset: "reverse" })).toBe(false);
+  expect(matches({ from: entry.timestamp + 1 })).toBe(false);
+  expect(matches({ to: entry.timestamp })).toBe(true);
+  expect(matches({ pinnedOnly: true })).toBe(false);
+});
+
+test("retention drops old and excess entries but keeps pinned ones", () => {
+  const day = 24 * 60 * 60 * 1000;
+  const now = Date.UTC(2026, 9, 19);
+  const entries = [
+    { id: "new", timestamp: now - 1000 },
+    { id: "pinned-old", timestamp: now - 90 * day, pinned: true },
+    { id: "recent", timestamp: now - 2 * day },
+    { id: "old", timestamp: now - 40 * day },
+    { id: "older", timestamp: now - 3 * day },
+  ];
+  expect(expiredHistoryIds(entries, { maxEntries: 10, maxAgeDays: 30, maxBodyKb: 1 }, now)).toEqual([
+    "old",
+  ]);
+  expect(expiredHistoryIds(entries, { maxEntries: 2, maxAgeDays: 30, maxBodyKb: 1 }, now)).toEqual([
+    "older",
+    "old",
+  ]);
+});
@@ -0,0 +1,31 @@
+import { createServer, type Server } from "node:http";
+
+export const IMDS_STAND_IN_PORT = 4599;
+export const IMDS_STAND_IN_TOKEN = "imds-stand-in-token";
+
+/**
+ * Minimal stand-in for the Azure Instance Metadata Service token endpoint so
+ * the managed identity credential can be exercised without Azure.
+ */
+export const startImdsStandIn = () =>
+  new Promise<Server>((resolve, reject) => {
+    const server = createServer((req, res) => {
+      const url = new URL(req.url ?? "/", `http://127.0.0.1:${IMDS_STAND_IN_PORT}`);
+      if (url.pathname !== "/metadata/identity/oauth2/token" || req.headers.metadata !== "true") {
+        res.writeHead(400, { "content-type": "application/json" });
+        res.end(JSON.stringify({ error: "invalid_request" }));
+        return;
+      }
+      res.writeHead(200, { "content-type": "application/json" });
+      res.end(
+        JSON.stringify({
+          access_token: IMDS_STAND_IN_TOKEN,
+          expires_on: String(Math.floor(Date.now() / 1000) + 3600),
+          resource: url.searchParams.get("resource"),
+          token_type: "Bearer",
+        })
+      );
+    });
+    server.once("error", reject);
+    server.listen(IMDS_STAND_IN_PORT, "127.0.0.1", () => resolve(server));
+  });
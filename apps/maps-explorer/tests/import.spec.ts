@@ -0,0 +1,119 @@
+import { test, expect } from "@playwright/test";
+import { importRequests } from "../app/lib/importRequest";
+
+test("curl commands import with auth detected but not copied", () => {
+  const result = importRequests(
+    `curl 'https://us.atlas.microsoft.com/geocode?api-version=2025-01-01&query=O%27Hare&subscription-key=secret' -H 'x-ms-client-id: abc'`
+  );
+  expect(result.ok).toBe(true);
+  if (!result.ok) return;
+  const [imported] = result.requests;
+  expect(imported.format).toBe("curl");
+  expect(imported.auth).toBe("key");
+  expect(imported.request).toEqual({
+    path: "geocode",
+    params: { "api-version": "2025-01-01", query: "O'Hare" },
+    method: "GET",
+    baseUrl: "https://us.atlas.microsoft.com",
+    auth: { clientId: "abc" },
+  });
+  expect(JSON.stringify(imported)).not.toContain("secret");
+  expect(imported.issues).toHaveLength(1);
+});
+
+test("requests the proxy would reject are flagged", () => {
+  const result = importRequests(
+    `curl -X POST 'http://example.com/a/../geocode' -H 'Authorization: jwt-sas xyz' -d 'not json'`
+  );
+  expect(result.ok).toBe(true);
+  if (!result.ok) return;
+  const { issues, auth, request } = result.requests[0];
+  expect(auth).toBe("sas");
+  expect(request.body).toBe("not json");
+  expect(issues.join("\n")).toContain("will be rejected by the proxy; it must use https");
+  expect(issues.join("\n")).toContain("The body is not JSON");
+
+  const wrongMethod = importRequests(`curl -X DELETE https://atlas.microsoft.com/geocode`);
+  expect(wrongMethod.ok && wrongMethod.requests[0].issues).toContain(
+    'DELETE is not allowed for "geocode" (allowed: GET).'
+  );
+});
+
+test("Postman v2.1 collections resolve variables, folders and inherited auth", () => {
+  const collection = {
+    info: { schema: "https://schema.getpostman.com/json/collection/v2.1.0/collection.json" },
+    variable: [{ key: "baseUrl", value: "https://atlas.microsoft.com" }],
+    auth: { type: "bearer", bearer: [{ key: "token", value: "{{token}}" }] },
+    item: [
+      {
+        name: "Search",
+        item: [
+          {
+            name: "Reverse geocode",
+            request: {
+              method: "GET",
+              header: [{ key: "x-ms-client-id", value: "client-1" }],
+              url: {
+                raw: "{{baseUrl}}/reverseGeocode?api-version=2025-01-01&coordinates=-122.1282,47.6396",
+              },
+            },
+          },
+        ],
+      },
+      {
+        name: "Route",
+        request: {
+          method: "POST",
+          url: "{{baseUrl}}/route/directions?api-version=2025-01-01",
+          body: { mode: "raw", raw: '{"type":"FeatureCollection","features":[]}' },
+          auth: {
+            type: "apikey",
+            apikey: [
+              { key: "key", value: "subscription-key" },
+              { key: "value", value: "secret" },
+              { key: "in", value: "header" },
+            ],
+          },
+        },
+      },
+    ],
+  };
+  const result = importRequests(JSON.stringify(collection));
+  expect(result.ok).toBe(true);
+  if (!result.ok) return;
+  const [reverse, route] = result.requests;
+  expect(reverse.name).toBe("Reverse geocode");
+  expect(reverse.auth).toBe("entra");
+  expect(reverse.request.params.coordinates).toBe("-122.1282,47.6396");
+  expect(reverse.issues).toContain("Unresolved variables: {{token}}.");
+  expect(route.auth).toBe("key");
+  expect(route.request.method).toBe("POST");
+  expect(route.request.body).toEqual({ type: "FeatureCollection", features: [] });
+
+  expect(importRequests(JSON.stringify({ info: { schema: "…/v2.0.0/collection.json" }, item: [] }))).toEqual({
+    ok: false,
+    message: "Only Postman v2.1 collections are supported.",
+  });
+});
+
+test("HAR captures keep the Azure Maps entries", () => {
+  const har = {
+    log: {
+      entries: [
+        { request: { method: "GET", url: "https://localhost:3000/_next/static/app.js", headers: [] } },
+        {
+          request: {
+            method: "GET",
+            url: "https://atlas.microsoft.com/geolocation/ip/json?api-version=1.0&ip=8.8.8.8",
+            headers: [{ name: "subscription-key", value: "secret" }],
+          },
+        },
+      ],
+    },
+  };
+  const result = importRequests(JSON.stringify(har));
+  expect(result.ok && result.requests.map((item) => item.request.path)).toEqual([
+    "geolocation/ip/json",
+  ]);
+  expect(importRequests("hello").ok).toBe(false);
+});
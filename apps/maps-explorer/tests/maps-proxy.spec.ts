@@ -0,0 +1,278 @@
+import { test, expect } from "@playwright/test";
+import {
+  buildDiagnostics,
+  getResponseHeaderAllowlist,
+  pickResponseHeaders,
+} from "../app/lib/proxy/headers";
+import { matchesCatalogPattern } from "../app/lib/endpointCatalog";
+import { openExplorerPage } from "./explorer-page";
+
+const geocodeRequest = {
+  path: "geocode",
+  params: { "api-version": "2025-01-01", query: "1 Microsoft Way" },
+  method: "GET",
+};
+
+test("rejects base URLs outside the Azure Maps allowlist", async ({ request }) => {
+  const res = await request.post("/api/maps", {
+    data: { ...geocodeRequest, baseUrl: "https://attacker.example.com" },
+  });
+  expect(res.status()).toBe(403);
+  const payload = await res.json();
+  expect(payload.errorCode).toBe("base_url_not_allowed");
+});
+
+test("rejects localhost and private address base URLs", async ({ request }) => {
+  for (const baseUrl of ["https://localhost", "https://127.0.0.1", "https://169.254.169.254"]) {
+    const res = await request.post("/api/maps", { data: { ...geocodeRequest, baseUrl } });
+    expect(res.status()).toBe(403);
+    expect((await res.json()).errorCode).toBe("base_url_not_allowed");
+  }
+});
+
+test("rejects IPv4-mapped IPv6 loopback in its normalized hex form", async ({ request }) => {
+  const res = await request.post("/api/maps", {
+    data: { ...geocodeRequest, baseUrl: "https://[::ffff:127.0.0.1]" },
+  });
+  expect(res.status()).toBe(403);
+  expect((await res.json()).body.message).toBe(
+    "Host [::ffff:7f00:1] points to a local or private address."
+  );
+});
+
+test("rejects non-https base URLs as invalid", async ({ request }) => {
+  const res = await request.post("/api/maps", {
+    data: { ...geocodeRequest, baseUrl: "http://atlas.microsoft.com" },
+  });
+  expect(res.status()).toBe(400);
+  expect((await res.json()).errorCode).toBe("invalid_base_url");
+});
+
+test("static map route enforces the same allowlist", async ({ request }) => {
+  const res = await request.post("/api/maps/static", {
+    data: { lat: 47.64, lon: -122.13, baseUrl: "https://attacker.example.com" },
+  });
+  expect(res.status()).toBe(403);
+  expect((await res.json()).errorCode).toBe("base_url_not_allowed");
+});
+
+test("static map route answers unreachable upstreams with an error envelope", async ({
+  request,
+}) => {
+  const res = await request.post("/api/maps/static", {
+    headers: { "x-forwarded-for": "203.0.113.20" },
+    data: { lat: 47.64, lon: -122.13, baseUrl: "https://192.0.2.1", auth: { apiKey: "test-key" } },
+  });
+  expect([502, 504]).toContain(res.status());
+  const payload = await res.json();
+  expect(payload.errorCode).toBe(res.status() === 504 ? "upstream_timeout" : "request_failed");
+  expect(payload.message).toBeTruthy();
+});
+
+test("diagnostics requests to unreachable upstreams fail with an envelope", async ({
+  request,
+}) => {
+  const res = await request.post("/api/maps", {
+    data: {
+      ...geocodeRequest,
+      baseUrl: "https://192.0.2.1",
+      diagnostics: true,
+      auth: { apiKey: "test-key" },
+    },
+  });
+  expect([502, 504]).toContain(res.status());
+  const payload = await res.json();
+  expect(payload.errorCode).toBe(res.status() === 504 ? "upstream_timeout" : "request_failed");
+});
+
+test("token route rejects cross-origin callers even with the page's CSRF token", async ({
+  request,
+}) => {
+  const headers = await openExplorerPage(request);
+  const crossOriginHeaders: Record<string, string>[] = [
+    { "sec-fetch-site": "cross-site" },
+    { "sec-fetch-site": "", origin: "https://attacker.example.com" },
+    { "sec-fetch-site": "" },
+  ];
+  for (const crossOrigin of crossOriginHeaders) {
+    const res = await request.get("/api/maps/token", { headers: { ...headers, ...crossOrigin } });
+    expect(res.status()).toBe(403);
+    expect((await res.json()).errorCode).toBe("forbidden_origin");
+  }
+});
+
+test("token route requires the page's CSRF token from same-origin callers", async ({
+  request,
+}) => {
+  await openExplorerPage(request);
+  const res = await request.get("/api/maps/token", {
+    headers: { "sec-fetch-site": "same-origin", origin: "http://localhost:3000" },
+  });
+  expect(res.status()).toBe(403);
+  expect((await res.json()).errorCode).toBe("invalid_csrf");
+});
+
+test("token route requires a signed session", async ({ request }) => {
+  const res = await request.get("/api/maps/token", {
+    headers: {
+      "sec-fetch-site": "same-origin",
+      "x-maps-csrf": "forged",
+      cookie: "maps-explorer-session=forged.value",
+    },
+  });
+  expect(res.status()).toBe(401);
+  expect((await res.json()).errorCode).toBe("session_required");
+});
+
+test("sessions start with the page and can only be renewed by it", async ({ request }) => {
+  const orphan = await request.post("/api/maps/session", {
+    headers: { "sec-fetch-site": "same-origin" },
+  });
+  expect(orphan.status()).toBe(401);
+
+  const page = await request.get("/mobile");
+  expect(page.headers()["set-cookie"]).toContain("HttpOnly");
+  const csrf = (await page.text()).match(/<meta name="maps-csrf" content="([^"]+)"/)?.[1] ?? "";
+
+  const renewed = await request.post("/api/maps/session", { headers: { "x-maps-csrf": csrf } });
+  expect(renewed.ok()).toBe(true);
+  expect(renewed.headers()["set-cookie"]).toContain("HttpOnly");
+
+  const forged = await request.post("/api/maps/session", { headers: { "x-maps-csrf": "forged" } });
+  expect(forged.status()).toBe(401);
+});
+
+test("malformed entries in MAPS_ENDPOINT_CATALOG are skipped", async ({ request }) => {
+  // tests/catalog.json shadows geocode with a string requiredParams; the built-in entry applies.
+  const res = await request.post("/api/maps", {
+    data: { ...geocodeRequest, params: { query: "1 Microsoft Way" } },
+  });
+  expect(res.status()).toBe(403);
+  expect((await res.json()).errorCode).toBe("endpoint_not_allowed");
+});
+
+test("rejects endpoints outside the catalog", async ({ request }) => {
+  const cases = [
+    { ...geocodeRequest, path: "subscriptions/123/resourceGroups" },
+    { ...geocodeRequest, method: "DELETE" },
+    { ...geocodeRequest, params: { query: "1 Microsoft Way" } },
+    { path: "geolocation/ip/json", params: { "api-version": "1.0" }, method: "GET" },
+  ];
+  for (const data of cases) {
+    const res = await request.post("/api/maps", { data });
+    expect(res.status()).toBe(403);
+    expect((await res.json()).errorCode).toBe("endpoint_not_allowed");
+  }
+});
+
+test("catalog wildcards match one plain segment only", async ({ request }) => {
+  expect(matchesCatalogPattern("search/*/json", "search/address/json")).toBe(true);
+  expect(matchesCatalogPattern("timezone/*/json", "timezone/byCoordinates/json")).toBe(true);
+  for (const path of [
+    "search/%2e%2e/json",
+    "search/../json",
+    "search/./json",
+    "search/a?b=1/json",
+    "search/a#b/json",
+    "search/a/b/json",
+  ]) {
+    expect(matchesCatalogPattern("search/*/json", path), path).toBe(false);
+  }
+
+  const res = await request.post("/api/maps", {
+    data: { ...geocodeRequest, path: "search/%2e%2e/json" },
+  });
+  expect(res.status()).toBe(403);
+  expect((await res.json()).errorCode).toBe("endpoint_not_allowed");
+});
+
+test("binary upstream bodies come back base64-encoded with their size", async ({ request }) => {
+  const res = await request.post("/api/maps", {
+    headers: { "x-maps-cassette": "replay" },
+    data: {
+      path: "map/tile",
+      method: "GET",
+      params: {
+        "api-version": "2024-04-01",
+        tilesetId: "microsoft.base.road",
+        zoom: "0",
+        x: "0",
+        y: "0",
+      },
+    },
+  });
+  expect(res.status()).toBe(200);
+  const payload = await res.json();
+  expect(payload.encoding).toBe("base64");
+  expect(payload.size).toBe(70);
+  expect(Buffer.from(payload.raw, "base64").subarray(0, 4).toString("latin1")).toBe("\x89PNG");
+  expect(payload.body).toEqual({ contentType: "image/png", size: 70, encoding: "base64" });
+});
+
+const upstreamHeaders = new Headers({
+  "content-type": "application/json",
+  "x-ms-request-id": "5b6f0c8e-2f0e-4d3a-9a53-2d1f4b0f7c11",
+  "x-ms-azuremaps-region": "westus2",
+  "cache-control": "max-age=60",
+  "set-cookie": "ARRAffinity=abc",
+});
+
+test("only allowlisted upstream headers reach the browser", () => {
+  const configured = process.env.MAPS_RESPONSE_HEADERS;
+  try {
+    delete process.env.MAPS_RESPONSE_HEADERS;
+    expect(pickResponseHeaders(upstreamHeaders, getResponseHeaderAllowlist())).toEqual({
+      "content-type": "application/json",
+      "x-ms-request-id": "5b6f0c8e-2f0e-4d3a-9a53-2d1f4b0f7c11",
+    });
+
+    process.env.MAPS_RESPONSE_HEADERS = " X-Ms-AzureMaps-Region , set-cookie";
+    expect(pickResponseHeaders(upstreamHeaders, getResponseHeaderAllowlist())).toEqual({
+      "content-type": "application/json",
+      "x-ms-request-id": "5b6f0c8e-2f0e-4d3a-9a53-2d1f4b0f7c11",
+      "x-ms-azuremaps-region": "westus2",
+    });
+  } finally {
+    if (configured === undefined) delete process.env.MAPS_RESPONSE_HEADERS;
+    else process.env.MAPS_RESPONSE_HEADERS = configured;
+  }
+});
+
+test("diagnostics mask credentials and drop cookies", () => {
+  const timings = {
+    tokenMs: null,
+    retryWaitMs: 0,
+    dnsMs: 3,
+    connectMs: 18,
+    ttfbMs: 99,
+    bodyMs: 4,
+    totalMs: 131,
+  };
+  const diagnostics = buildDiagnostics(
+    "https://atlas.microsoft.com/geocode?api-version=2025-01-01&query=Seattle",
+    {
+      Authorization: "Bearer eyJ0eXAiOiJKV1Qi",
+      "subscription-key": "key-value",
+      "x-ms-client-id": "client-id",
+      traceparent: "00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01",
+    },
+    upstreamHeaders,
+    timings
+  );
+  expect(diagnostics.upstreamUrl).toBe(
+    "https://atlas.microsoft.com/geocode?api-version=2025-01-01&query=Seattle"
+  );
+  expect(diagnostics.requestHeaders).toEqual({
+    Authorization: "Bearer ***",
+    "subscription-key": "***",
+    "x-ms-client-id": "client-id",
+    traceparent: "00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01",
+  });
+  expect(diagnostics.responseHeaders).toEqual({
+    "cache-control": "max-age=60",
+    "content-type": "application/json",
+    "x-ms-azuremaps-region": "westus2",
+    "x-ms-request-id": "5b6f0c8e-2f0e-4d3a-9a53-2d1f4b0f7c11",
+  });
+  expect(diagnostics.timings).toEqual(timings);
+});
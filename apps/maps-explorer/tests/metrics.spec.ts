@@ -0,0 +1,43 @@
+import { test, expect } from "@playwright/test";
+import { openExplorerPage } from "./explorer-page";
+
+test("proxy calls are counted per preset and exposed for Prometheus", async ({ request }) => {
+  const headers = { "x-maps-preset": "metrics-test" };
+  for (let index = 0; index < 2; index += 1) {
+    const res = await request.post("/api/maps", {
+      headers,
+      data: { path: "not/in/catalog", method: "GET", params: {} },
+    });
+    expect(res.status()).toBe(403);
+  }
+
+  const metrics = await request.get("/api/metrics");
+  expect(metrics.headers()["content-type"]).toContain("text/plain");
+  const text = await metrics.text();
+  expect(text).toContain("# TYPE maps_proxy_request_duration_seconds histogram");
+  expect(text).toMatch(
+    /maps_proxy_requests_total\{route="\/api\/maps",endpoint="none",auth="none",preset="metrics-test",status="4xx"\} [2-9]/
+  );
+
+  const usage = await (
+    await request.get("/api/metrics/usage", { headers: await openExplorerPage(request) })
+  ).json();
+  const row = usage.hour.find((item: { preset: string }) => item.preset === "metrics-test");
+  expect(row.calls).toBeGreaterThanOrEqual(2);
+  expect(row.errorRate).toBe(1);
+  expect(row.transactions).toBe(0);
+  expect(row.p95Ms).not.toBeNull();
+});
+
+test("usage summaries require the explorer page's session", async ({ playwright }) => {
+  const anonymous = await playwright.request.newContext({ baseURL: "http://localhost:3000" });
+  const res = await anonymous.get("/api/metrics/usage");
+  expect(res.status()).toBe(401);
+  expect((await res.json()).errorCode).toBe("session_required");
+
+  await openExplorerPage(anonymous);
+  const forged = await anonymous.get("/api/metrics/usage", { headers: { "x-maps-csrf": "forged" } });
+  expect(forged.status()).toBe(403);
+  expect((await forged.json()).errorCode).toBe("invalid_csrf");
+  await anonymous.dispose();
+});
@@ -0,0 +1,219 @@
+import { test, expect, type APIRequestContext } from "@playwright/test";
+import { certifiedLocations } from "../app/lib/certifiedLocations";
+import { testAddresses } from "../app/lib/testAddresses";
+
+const mock = (request: APIRequestContext, data: Record<string, unknown>) =>
+  request.post("/api/mock", { data: { method: "GET", params: {}, ...data } });
+
+test("geocode answers from fixtures and respects top", async ({ request }) => {
+  const res = await mock(request, {
+    path: "geocode",
+    params: { "api-version": "2025-01-01", query: "6301 Owensmouth Ave, Woodland Hills", top: "1" },
+  });
+  const payload = await res.json();
+  expect(payload.meta.status).toBe(200);
+  expect(payload.body.features).toHaveLength(1);
+  expect(payload.body.features[0].geometry.coordinates).toEqual([-118.60213, 34.184559]);
+
+  const redmond = await (
+    await mock(request, { path: "geocode", params: { query: "1 Microsoft Way, Redmond" } })
+  ).json();
+  expect(redmond.body.features[0].properties.address.locality).toBe("Redmond");
+
+  const several = await (
+    await mock(request, { path: "geocode", params: { query: "Woodland Hills", top: "3" } })
+  ).json();
+  expect(several.body.features).toHaveLength(3);
+});
+
+test("every certified and test address geocodes to a street address", async ({ request }) => {
+  const addresses = [...certifiedLocations, ...testAddresses.map((item) => item.value)].filter(
+    (address) => !/^-?[\d.]+,-?[\d.]+$/.test(address)
+  );
+  for (const query of addresses) {
+    const payload = await (await mock(request, { path: "geocode", params: { query, top: "1" } })).json();
+    expect(payload.body.features[0]?.properties.type, query).toBe("Address");
+    expect(payload.body.features[0].properties.matchCodes, query).toContain("Good");
+  }
+
+  const misspelled = await (
+    await mock(request, {
+      path: "geocode",
+      params: { query: "6301 Owesmonth , Wodland Hill, California 91367", top: "1" },
+    })
+  ).json();
+  expect(misspelled.body.features[0].geometry.coordinates).toEqual([-118.60213, 34.184559]);
+  expect(misspelled.body.features[0].properties.confidence).toBe("Medium");
+});
+
+test("structured geocode scores each field separately", async ({ request }) => {
+  const address = await (
+    await mock(request, {
+      path: "geocode",
+      params: { addressLine: "5760 Owensmouth Avenue", locality: "Woodland Hills", adminDistrict: "CA" },
+    })
+  ).json();
+  expect(address.body.features[0].properties.address.formattedAddress).toBe(
+    "5760 Owensmouth Ave, Woodland Hills, CA 91367"
+  );
+  expect(address.body.features[0].properties.confidence).toBe("High");
+
+  const city = await (
+    await mock(request, { path: "geocode", params: { locality: "Schaumburg", adminDistrict: "IL" } })
+  ).json();
+  expect(city.body.features[0].properties.type).toBe("PopulatedPlace");
+});
+
+test("places from the imported gazetteer file are searchable", async ({ request }) => {
+  const pike = await (
+    await mock(request, { path: "geocode", params: { query: "85 Pike Street, Seattle" } })
+  ).json();
+  expect(pike.body.features[0].geometry.coordinates).toEqual([-122.340456, 47.609029]);
+
+  const paris = await (
+    await mock(request, { path: "geocode", params: { query: "99 Rue de Rivoli", countryRegion: "FR" } })
+  ).json();
+  expect(paris.body.features[0].properties.address.countryRegion).toEqual({
+    ISO: "FR",
+    name: "France",
+  });
+
+  const nearest = await (
+    await mock(request, { path: "reverseGeocode", params: { coordinates: "-122.3401,47.6092" } })
+  ).json();
+  expect(nearest.body.features[0].properties.address.addressLine).toBe("85 Pike St");
+});
+
+test("reverse geocode and autocomplete depend on their inputs", async ({ request }) => {
+  const reverse = await (
+    await mock(request, {
+      path: "reverseGeocode",
+      params: { coordinates: "-122.1282,47.6396", resultTypes: "Address" },
+    })
+  ).json();
+  expect(reverse.body.features[0].properties.address.formattedAddress).toContain("Microsoft Way");
+
+  const suggestions = await (
+    await mock(request, {
+      path: "geocode:autocomplete",
+      params: { query: "6301 Owen", top: "5", resultTypeGroups: "address" },
+    })
+  ).json();
+  expect(suggestions.body.features[0].properties.address.formattedAddress).toBe(
+    "6301 Owensmouth Ave, Woodland Hills, CA 91367"
+  );
+});
+
+test("weather, geolocation and route return realistic shapes", async ({ request }) => {
+  const weather = await (
+    await mock(request, {
+      path: "weather/historical/records/daily/json",
+      params: { query: "34.184559,-118.60213", startDate: "2024-01-01", endDate: "2024-01-07" },
+    })
+  ).json();
+  expect(weather.body.results).toHaveLength(7);
+  expect(weather.body.results[0].temperature.maximum.unit).toBe("C");
+
+  const geolocation = await (
+    await mock(request, { path: "geolocation/ip/json", params: { ip: "8.8.8.8" } })
+  ).json();
+  expect(geolocation.body.countryRegion.isoCode).toBe("US");
+
+  const route = await (
+    await mock(request, {
+      path: "route/directions",
+      method: "POST",
+      body: {
+        type: "FeatureCollection",
+        features: [
+          { type: "Feature", geometry: { type: "Point", coordinates: [-118.60213, 34.184559] } },
+          { type: "Feature", geometry: { type: "Point", coordinates: [-118.589432, 34.166778] } },
+        ],
+      },
+    })
+  ).json();
+  const path = route.body.features.find(
+    (feature: { properties: { type: string } }) => feature.properties.type === "RoutePath"
+  );
+  const line = path.geometry.coordinates[0];
+  expect(line[0]).toEqual([-118.60213, 34.184559]);
+  expect(line[line.length - 1]).toEqual([-118.589432, 34.166778]);
+  expect(path.properties.distanceInMeters).toBeGreaterThan(1500);
+});
+
+test("invalid input and unknown paths use the Azure Maps error shape", async ({ request }) => {
+  const invalid = await (
+    await mock(request, { path: "geolocation/ip/json", params: { ip: "not-an-ip" } })
+  ).json();
+  expect(invalid.meta.status).toBe(400);
+  expect(invalid.body.error.code).toBe("BadRequest");
+
+  const unknown = await (await mock(request, { path: "timezone/byCoordinates/json" })).json();
+  expect(unknown.meta.status).toBe(404);
+});
+
+test("static map placeholders are PNGs of the requested size", async ({ request }) => {
+  const res = await request.get("/api/mock/static?lat=47.64&lon=-122.13&width=300&height=200");
+  expect(res.status()).toBe(200);
+  expect(res.headers()["content-type"]).toBe("image/png");
+  const image = await res.body();
+  expect(image.subarray(1, 4).toString("ascii")).toBe("PNG");
+  expect(image.readUInt32BE(16)).toBe(300);
+  expect(image.readUInt32BE(20)).toBe(200);
+
+  const proxied = await (
+    await mock(request, { path: "map/static", params: { center: "-122.13,47.64", zoom: "12" } })
+  ).json();
+  expect(proxied.encoding).toBe("base64");
+  expect(proxied.meta.headers["content-type"]).toBe("image/png");
+});
+
+test("fault scenarios return Azure Maps error shapes", async ({ request }) => {
+  const geocode = { path: "geocode", params: { query: "1 Microsoft Way" } };
+  const expected = [
+    ["invalid-key", 401, "401 Unauthorized"],
+    ["rbac-missing", 403, "403 Forbidden"],
+    ["rate-limited", 429, "429 TooManyRequests"],
+    ["server-error", 500, "500 InternalServerError"],
+  ] as const;
+  for (const [scenario, status, code] of expected) {
+    const res = await request.post("/api/mock", {
+      headers: { "x-mock-scenario": scenario },
+      data: { method: "GET", ...geocode },
+    });
+    expect(res.status()).toBe(status);
+    const payload = await res.json();
+    expect(payload.meta.status).toBe(status);
+    expect(payload.body.error.code).toBe(code);
+    if (scenario === "rate-limited") expect(payload.meta.headers["retry-after"]).toBe("2");
+  }
+
+  const unknown = await request.post("/api/mock?scenario=meltdown", { data: geocode });
+  expect(unknown.status()).toBe(400);
+});
+
+test("empty, malformed, slow and timeout scenarios", async ({ request }) => {
+  const geocode = { method: "GET", path: "geocode", params: { query: "1 Microsoft Way" } };
+  const empty = await (
+    await request.post("/api/mock?scenario=empty-results", { data: geocode })
+  ).json();
+  expect(empty.body).toEqual({ type: "FeatureCollection", features: [] });
+
+  const malformed = await (
+    await request.post("/api/mock?scenario=malformed-json", { data: geocode })
+  ).json();
+  expect(typeof malformed.body).toBe("string");
+  expect(() => JSON.parse(malformed.raw)).toThrow();
+
+  const startedAt = Date.now();
+  const slow = await request.post("/api/mock?scenario=slow&latencyMs=600", { data: geocode });
+  expect(slow.status()).toBe(200);
+  expect(Date.now() - startedAt).toBeGreaterThanOrEqual(600);
+
+  const timeout = await request.post("/api/mock", {
+    headers: { "x-mock-scenario": "timeout", "x-mock-latency-ms": "100" },
+    data: geocode,
+  });
+  expect(timeout.status()).toBe(504);
+  expect((await timeout.json()).errorCode).toBe("upstream_timeout");
+});
@@ -0,0 +1,40 @@
+import { test, expect } from "@playwright/test";
+
+test("static map requests are limited per client", async ({ request }) => {
+  // The test server allows three render requests per minute per client.
+  const headers = { "x-forwarded-for": "203.0.113.7" };
+  for (let index = 0; index < 3; index += 1) {
+    const res = await request.get("/api/maps/static", { headers });
+    expect(res.status()).toBe(400);
+  }
+
+  const limited = await request.get("/api/maps/static", { headers });
+  expect(limited.status()).toBe(429);
+  expect(limited.headers()["retry-after"]).toBeTruthy();
+  const payload = await limited.json();
+  expect(payload.errorCode).toBe("rate_limited");
+  expect(payload.meta.status).toBe(429);
+  expect(Date.parse(payload.body.resetAt)).toBeGreaterThan(Date.now());
+});
+
+test("spoofed X-Forwarded-For entries don't escape the per-client limit", async ({ request }) => {
+  // Only the entry appended by the trusted proxy (the rightmost) identifies the client.
+  const statuses: number[] = [];
+  for (let index = 0; index < 4; index += 1) {
+    const res = await request.get("/api/maps/static", {
+      headers: { "x-forwarded-for": `198.51.100.${index}, 203.0.113.9` },
+    });
+    statuses.push(res.status());
+  }
+  expect(statuses).toEqual([400, 400, 400, 429]);
+});
+
+test("budget route reports remaining requests without consuming them", async ({ request }) => {
+  const headers = { "x-forwarded-for": "203.0.113.8" };
+  const first = await (await request.get("/api/maps/budget", { headers })).json();
+  const second = await (await request.get("/api/maps/budget", { headers })).json();
+  const render = (snapshot: { families: { family: string; remaining: number }[] }) =>
+    snapshot.families.find((item) => item.family === "render")?.remaining;
+  expect(render(first)).toBe(3);
+  expect(render(second)).toBe(3);
+});
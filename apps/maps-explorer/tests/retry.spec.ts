@@ -0,0 +1,36 @@
+import { test, expect } from "@playwright/test";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { fetchWithRetry } from "../app/lib/proxy/retry";
+
+test("TTFB covers the final attempt only and retry waits are reported apart", async () => {
+  let calls = 0;
+  const server = createServer((_request, response) => {
+    calls += 1;
+    if (calls === 1) {
+      response.writeHead(503, { "retry-after": "0.4" }).end();
+      return;
+    }
+    setTimeout(() => response.end("ok"), 50);
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  try {
+    const startedAt = Date.now();
+    const result = await fetchWithRetry(
+      `http://127.0.0.1:${port}/`,
+      { method: "GET" },
+      { maxAttempts: 2 }
+    );
+    expect(result.response.status).toBe(200);
+    expect(await result.response.text()).toBe("ok");
+    expect(result.attempts).toBe(2);
+    expect(result.retryWaitMs).toBe(400);
+    expect(result.lastAttemptAt - startedAt).toBeGreaterThanOrEqual(400);
+    expect(result.ttfbMs).toBeGreaterThanOrEqual(40);
+    expect(result.ttfbMs).toBeLessThan(400);
+  } finally {
+    server.close();
+  }
+});
@@ -0,0 +1,60 @@
+import { test, expect } from "@playwright/test";
+import { buildSnippet, snippetLanguages } from "../app/lib/snippets";
+import type { RequestShape } from "../app/lib/types";
+
+const geocode: RequestShape = {
+  path: "/geocode",
+  method: "GET",
+  params: { "api-version": "2025-01-01", query: "O'Brien St, Redmond" },
+  auth: { apiKey: "real-secret-key" },
+};
+
+const route: RequestShape = {
+  path: "route/directions",
+  method: "POST",
+  params: { "api-version": "2025-01-01" },
+  body: { type: "FeatureCollection", optimize: true, features: [] },
+  auth: { clientId: "0b5c-client" },
+};
+
+test("snippets never inline the subscription key", () => {
+  for (const { id } of snippetLanguages) {
+    const snippet = buildSnippet(id, geocode);
+    expect(snippet, id).toContain("AZURE_MAPS_KEY");
+    expect(snippet, id).not.toContain("real-secret-key");
+  }
+});
+
+test("Entra snippets use the token variable and the literal client id", () => {
+  for (const id of ["fetch", "axios", "python", "csharp", "powershell", "httpie"] as const) {
+    const snippet = buildSnippet(id, route) ?? "";
+    expect(snippet, id).toContain("AZURE_MAPS_TOKEN");
+    expect(snippet, id).toContain("0b5c-client");
+    expect(snippet, id).not.toContain("subscription-key");
+  }
+  expect(buildSnippet("python", route)).toContain('"optimize": True');
+  expect(buildSnippet("csharp", route)).toContain("HttpMethod.Post");
+});
+
+test("values are quoted for each language", () => {
+  expect(buildSnippet("httpie", geocode)).toContain(`'query==O'\\''Brien St, Redmond'`);
+  expect(buildSnippet("powershell", geocode)).toContain(
+    "-Uri 'https://atlas.microsoft.com/geocode?api-version=2025-01-01&query=O%27Brien+St%2C+Redmond'"
+  );
+  expect(buildSnippet("fetch", geocode, "https://us.atlas.microsoft.com/")).toContain(
+    'new URL("https://us.atlas.microsoft.com/geocode")'
+  );
+});
+
+test("SDK snippets only cover endpoints with a client", () => {
+  const sdk = buildSnippet("js-sdk", geocode) ?? "";
+  expect(sdk).toContain('from "@azure-rest/maps-search"');
+  expect(sdk).toContain('client.path("/geocode").get(');
+  expect(sdk).not.toContain("api-version");
+  expect(
+    buildSnippet("js-sdk", { ...geocode, path: "search/address/json" })
+  ).toContain('client.path("/search/address/{format}", "json")');
+  expect(buildSnippet("dotnet-sdk", geocode)).toContain("GetGeocodingAsync");
+  expect(buildSnippet("js-sdk", route)).toBeNull();
+  expect(buildSnippet("dotnet-sdk", route)).toBeNull();
+});
@@ -0,0 +1,81 @@
+import { test, expect } from "@playwright/test";
+import { openExplorerPage } from "./explorer-page";
+
+type ExportedSpan = {
+  name: string;
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  attributes: Record<string, unknown>;
+};
+
+const findRootSpan = async (
+  request: import("@playwright/test").APIRequestContext,
+  requestId: string
+) => {
+  const { spans } = (await (await request.get("/api/maps/traces")).json()) as {
+    spans: ExportedSpan[];
+  };
+  return { spans, root: spans.find((span) => span.attributes["maps.request_id"] === requestId) };
+};
+
+test("token requests are traced with a child token span", async ({ request }) => {
+  const headers = await openExplorerPage(request);
+  const res = await request.get("/api/maps/token", { headers });
+  expect(res.status()).toBe(200);
+  const requestId = res.headers()["x-request-id"];
+  expect(requestId).toBeTruthy();
+
+  const { spans, root } = await findRootSpan(request, requestId);
+  expect(root?.name).toBe("GET /api/maps/token");
+  expect(root?.attributes["http.response.status_code"]).toBe(200);
+  const tokenSpan = spans.find(
+    (span) => span.name === "maps.token" && span.parentSpanId === root?.spanId
+  );
+  expect(tokenSpan?.traceId).toBe(root?.traceId);
+  expect(tokenSpan?.attributes["maps.auth_source"]).toBe("managed-identity");
+});
+
+test("rejected proxy calls record the error code on the request span", async ({ request }) => {
+  const res = await request.post("/api/maps", {
+    data: { path: "not/in/catalog", method: "GET", params: { "subscription-key": "secret" } },
+  });
+  expect(res.status()).toBe(403);
+
+  const { root } = await findRootSpan(request, res.headers()["x-request-id"]);
+  expect(root?.name).toBe("POST /api/maps");
+  expect(root?.attributes["maps.error_code"]).toBe("endpoint_not_allowed");
+  expect(JSON.stringify(root?.attributes)).not.toContain("secret");
+});
+
+test("upstream spans keep addresses, coordinates and keys out of url.full", async ({ request }) => {
+  const auth = { apiKey: "header-secret" };
+  await request.post("/api/maps", {
+    data: {
+      path: "geocode",
+      method: "GET",
+      params: {
+        "api-version": "2025-01-01",
+        query: "1 Microsoft Way",
+        "subscription-key": "param-secret",
+      },
+      auth,
+    },
+  });
+  await request.post("/api/maps/static", {
+    headers: { "x-forwarded-for": "203.0.113.10" },
+    data: { lat: 47.64, lon: -122.13, auth },
+  });
+
+  const { spans } = (await (await request.get("/api/maps/traces")).json()) as {
+    spans: ExportedSpan[];
+  };
+  const upstreamUrls = spans
+    .filter((span) => span.name === "maps.upstream")
+    .map((span) => String(span.attributes["url.full"]));
+  for (const path of ["/geocode?", "/map/static/png?"]) {
+    const url = upstreamUrls.findLast((item) => item.includes(path));
+    expect(url).toMatch(/^https:\/\/atlas\.microsoft\.com\//);
+    expect(url).not.toMatch(/Microsoft\+Way|param-secret|47\.64|122\.13/);
+  }
+});